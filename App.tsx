@@ -1,23 +1,71 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { lexiconService } from './services/lexiconService';
-import { WordData, SentenceData, HistoryItem, LoadingState, AppMode } from './types';
+import { WordData, SentenceData, KanjiData, HistoryItem, LoadingState, AppMode, Collection } from './types';
 import { WordCard } from './components/WordCard';
 import { SentenceAnalysis } from './components/SentenceAnalysis';
+import { KanjiCard } from './components/KanjiCard';
 import { HistorySidebar } from './components/HistorySidebar';
 import { AdUnit } from './components/AdUnit';
-
-const HISTORY_KEY = 'trilingua_history';
+import { ErrorMessage } from './components/ErrorMessage';
+import { ReviewSession } from './components/ReviewSession';
+import { QuizSession } from './components/QuizSession';
+import { DrillSession } from './components/DrillSession';
+import { DocumentAnalysis } from './components/DocumentAnalysis';
+import { AnkiExportDialog } from './components/AnkiExportDialog';
+import { CollectionsView } from './components/CollectionsView';
+import { BackupDialog } from './components/BackupDialog';
+import { SyncDialog } from './components/SyncDialog';
+import { imageStore } from './services/imageStore';
+import { historyStore } from './services/historyStore';
+import { contentKey, upsertHistoryItem } from './services/history';
+import { CollectionEntryType, StudyMode, collectionEntry, createCollection, loadCollections, moveCollection, saveCollections, toggleEntry } from './services/collections';
+import { mergeCollections, mergeHistory } from './services/backup';
+import { SyncSettings, applySyncOps, syncEngine } from './services/sync';
+import { DocumentAnalysis as DocumentData, DocumentSentence, analyzeDocument, analyzeDocumentSentence, isDocumentFinished, splitSentences } from './services/document';
+import { LexiconError, isAbortError, toLexiconError } from './services/errors';
+
+// How long a deletion can be undone
+const UNDO_WINDOW_MS = 10_000;
+const APP_MODES: AppMode[] = ['dictionary', 'sentence', 'document', 'kanji', 'lists', 'review', 'quiz', 'drill'];
 
 function App() {
   const [mode, setMode] = useState<AppMode>('dictionary');
   const [query, setQuery] = useState('');
   const [currentWordData, setCurrentWordData] = useState<WordData | null>(null);
   const [currentSentenceData, setCurrentSentenceData] = useState<SentenceData | null>(null);
+  const [currentKanjiData, setCurrentKanjiData] = useState<KanjiData | null>(null);
+  const [currentDocument, setCurrentDocument] = useState<DocumentData | null>(null);
   const [currentImage, setCurrentImage] = useState<string | undefined>(undefined);
   const [loadingState, setLoadingState] = useState<LoadingState>(LoadingState.IDLE);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LexiconError | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  // Nothing is written back until the stored history has been read
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  // Entries just deleted, kept until the undo window closes (their images are still stored)
+  const [deleted, setDeleted] = useState<HistoryItem[]>([]);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  // Entries for the Anki export dialog: the whole history, or one collection
+  const [ankiExport, setAnkiExport] = useState<{ items: HistoryItem[]; listName?: string } | null>(null);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+  // Collection the study modes are limited to; null studies the whole history
+  const [studyListId, setStudyListId] = useState<string | null>(null);
+  // Sentence or document whose breakdown the current dictionary entry was opened from, for the "back" link
+  const [breakdownOrigin, setBreakdownOrigin] = useState<{ mode: 'sentence' | 'document'; term: string } | null>(null);
+  // The exact term behind the result on screen, so "refresh" hits the same cache entry
+  const lastSearchRef = useRef<{ term: string; mode: AppMode } | null>(null);
+  // Controller for the lookup behind the current screen; aborting it cancels its analysis, and its image until the entry is saved
+  const lookupRef = useRef<AbortController | null>(null);
+
+  // Cancels whatever is still in flight and returns the signal for the next lookup
+  const startLookup = (): AbortSignal => {
+    lookupRef.current?.abort();
+    const controller = new AbortController();
+    lookupRef.current = controller;
+    return controller.signal;
+  };
 
   const updateUrl = (term: string, currentMode: AppMode) => {
     // Prevent execution in restricted environments (like blob previews) where pushState throws security errors
@@ -33,24 +81,21 @@ function App() {
         url.searchParams.delete('q');
       }
       url.searchParams.set('mode', currentMode);
-      window.history.pushState({}, '', url.toString());
+      // Re-showing the same screen (e.g. after popstate) shouldn't add a history entry
+      if (url.toString() !== window.location.href) window.history.pushState({}, '', url.toString());
     } catch (e) {
       // Catching the error prevents the app from crashing in environments that restrict History API
       console.warn("Could not update URL:", e);
     }
   };
 
-  // Initialize from URL and LocalStorage
+  // Initialize from URL and the history store
   useEffect(() => {
-    // 1. Load History
-    const saved = localStorage.getItem(HISTORY_KEY);
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
-    }
+    // 1. Load History; entries added while it loads (e.g. a lookup from the URL) go on top
+    historyStore.load().then(stored => {
+      setHistory(prev => prev.reduceRight((list, item) => upsertHistoryItem(list, item).next, stored));
+      setHistoryLoaded(true);
+    });
 
     // 2. Check URL Params
     // We check for URL support before accessing specific params to be safe
@@ -61,46 +106,93 @@ function App() {
 
       if (urlQuery) {
         // If valid mode in URL, use it, otherwise default to dictionary
-        const targetMode: AppMode = (urlMode === 'sentence') ? 'sentence' : 'dictionary';
+        const targetMode: AppMode = (urlMode === 'sentence' || urlMode === 'document' || urlMode === 'kanji') ? urlMode : 'dictionary';
         
         setMode(targetMode);
         setQuery(urlQuery);
         
         // Trigger search immediately with the URL parameters
         handleSearch(undefined, urlQuery, targetMode);
+      } else if (urlMode === 'lists' || urlMode === 'review' || urlMode === 'quiz' || urlMode === 'drill') {
+        setMode(urlMode);
       }
     }
   }, []);
 
-  // Save history on change
-  useEffect(() => {
-    try {
-      // Create a lightweight version of history for storage
-      // We remove base64 images to prevent QuotaExceededError
-      const storageHistory = history.map(item => {
-        // If imageUrl is a base64 string (starts with data:), remove it
-        if (item.imageUrl && item.imageUrl.startsWith('data:')) {
-          return {
-            ...item,
-            imageUrl: undefined 
-          };
-        }
-        return item;
-      });
-      
-      localStorage.setItem(HISTORY_KEY, JSON.stringify(storageHistory));
-    } catch (e) {
-      // Catch QuotaExceededError and other storage errors to prevent app crash
-      console.warn("Failed to save history to localStorage (likely quota exceeded):", e);
+  // Browser back/forward: show the screen the URL points at, from memory or history when possible
+  const popStateRef = useRef<() => void>(() => {});
+  popStateRef.current = () => {
+    const params = new URLSearchParams(window.location.search);
+    const urlQuery = params.get('q') || '';
+    const urlMode = params.get('mode');
+    const targetMode: AppMode = APP_MODES.includes(urlMode as AppMode) ? urlMode as AppMode : 'dictionary';
+
+    lookupRef.current?.abort();
+    setError(null);
+    setLoadingState(LoadingState.IDLE);
+    setMode(targetMode);
+    setQuery(urlQuery);
+    if (!urlQuery) return;
+
+    if (targetMode === 'sentence' && currentSentenceData?.original === urlQuery) {
+      lastSearchRef.current = { term: urlQuery, mode: 'sentence' };
+    } else if (targetMode === 'document' && currentDocument?.text === urlQuery && isDocumentFinished(currentDocument)) {
+      lastSearchRef.current = { term: urlQuery, mode: 'document' };
+    } else if (targetMode === 'kanji' && currentKanjiData?.character === urlQuery) {
+      lastSearchRef.current = { term: urlQuery, mode: 'kanji' };
+    } else if (targetMode === 'dictionary' && currentWordData && (currentWordData.inputWord || currentWordData.coreWord.jp) === urlQuery) {
+      lastSearchRef.current = { term: urlQuery, mode: 'dictionary' };
+    } else {
+      const saved = history.find(item =>
+        targetMode === 'dictionary' ? item.type === 'word' && ((item.data as WordData).inputWord || item.label) === urlQuery
+        : targetMode === 'sentence' ? item.type === 'sentence' && (item.data as SentenceData).original === urlQuery
+        : targetMode === 'kanji' && item.type === 'kanji' && item.label === urlQuery);
+      // Otherwise the lookup is usually answered by the cache
+      if (saved) loadFromHistory(saved);
+      else handleSearch(undefined, urlQuery, targetMode);
     }
-  }, [history]);
+  };
+
+  useEffect(() => {
+    const onPopState = () => popStateRef.current();
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  // Save history on change; the store only writes entries that changed, and sync records them as ops
+  useEffect(() => {
+    if (!historyLoaded) return;
+    historyStore.persist(history);
+    syncEngine.track(history);
+  }, [history, historyLoaded]);
+
+  // Changes pulled from other devices
+  useEffect(() => syncEngine.onRemoteChanges(ops => {
+    setHistory(prev => {
+      const deletedKeys = new Set(ops.filter(op => op.deleted).map(op => op.key));
+      imageStore.delete(prev.filter(item => item.imageId && deletedKeys.has(contentKey(item))).map(item => item.imageId!));
+      return applySyncOps(prev, ops);
+    });
+  }), []);
+
+  const configureSync = (settings: SyncSettings | null) => {
+    syncEngine.configure(settings);
+    // A new server or key starts from scratch, with every entry to upload
+    if (historyLoaded) syncEngine.track(history);
+  };
+
+  useEffect(() => {
+    saveCollections(collections);
+  }, [collections]);
 
-  const handleSearch = async (e?: React.FormEvent, overrideQuery?: string, overrideMode?: AppMode) => {
+  const handleSearch = async (e?: React.FormEvent, overrideQuery?: string, overrideMode?: AppMode, refresh = false) => {
     if (e) e.preventDefault();
     const searchTerm = overrideQuery || query;
     const activeMode = overrideMode || mode;
 
     if (!searchTerm.trim()) return;
+    lastSearchRef.current = { term: searchTerm, mode: activeMode };
+    const signal = startLookup();
 
     // Update URL
     updateUrl(searchTerm, activeMode);
@@ -113,6 +205,10 @@ function App() {
     if (activeMode === 'dictionary') {
         setCurrentWordData(null);
         setCurrentImage(undefined);
+    } else if (activeMode === 'kanji') {
+        setCurrentKanjiData(null);
+    } else if (activeMode === 'document') {
+        setCurrentDocument(null);
     } else {
         setCurrentSentenceData(null);
     }
@@ -120,30 +216,106 @@ function App() {
     try {
       if (activeMode === 'dictionary') {
         // Dictionary Mode Logic
-        const data = await lexiconService.analyzeWord(searchTerm);
+        // The image runs in parallel with the text. It can start as soon as the streamed
+        // core word is final, i.e. once a later section (pronunciation) has begun to arrive.
+        // It has its own controller: a newer lookup cancels it only until the entry is saved.
+        const imageLookup = new AbortController();
+        const cancelImage = () => imageLookup.abort();
+        signal.addEventListener('abort', cancelImage, { once: true });
+        let imagePromise: Promise<string | null> | null = null;
+        const startImage = (word: string): Promise<string | null> => {
+          if (!imagePromise) imagePromise = word ? lexiconService.generateImage(word, { refresh, signal: imageLookup.signal }) : Promise.resolve(null);
+          return imagePromise;
+        };
+
+        const data = await lexiconService.analyzeWord(searchTerm, {
+          refresh,
+          signal,
+          onPartial: (partial) => {
+            if (signal.aborted) return;
+            setCurrentWordData(partial);
+            const pronunciationStarted = partial.pronunciation.jp || partial.pronunciation.en || partial.pronunciation.zh;
+            if (partial.coreWord.en && pronunciationStarted) {
+              startImage(partial.coreWord.en);
+            }
+          },
+        }).catch(err => {
+          cancelImage();
+          throw err;
+        });
+        if (signal.aborted) return;
         setCurrentWordData(data);
+        const pendingImage = startImage(data.coreWord.en);
         setLoadingState(LoadingState.GENERATING_IMAGE);
 
-        // Generate Image
-        const image = await lexiconService.generateImage(data.coreWord.en);
-        if (image) setCurrentImage(image);
-
-        setLoadingState(LoadingState.COMPLETE);
-
-        // Add to History
+        // Add to History right away; the image is attached once it is ready
         const newItem: HistoryItem = {
           id: Date.now().toString(),
           timestamp: Date.now(),
           type: 'word',
           label: data.coreWord.jp,
-          data: data,
-          imageUrl: image || undefined
+          data: data
         };
         updateHistory(newItem);
+        signal.removeEventListener('abort', cancelImage);
+
+        pendingImage
+          .then(image => {
+            if (!image) return;
+            // The image still belongs to this entry even if the user has moved on
+            attachImage(newItem.id, image);
+            if (!signal.aborted) setCurrentImage(image);
+          })
+          .catch(e => {
+            if (!isAbortError(e)) console.error("Image generation failed", e);
+          })
+          .finally(() => {
+            if (!signal.aborted) setLoadingState(state => state === LoadingState.GENERATING_IMAGE ? LoadingState.COMPLETE : state);
+          });
+
+      } else if (activeMode === 'kanji') {
+        // Kanji Mode Logic
+        const data = await lexiconService.analyzeKanji(searchTerm, {
+          refresh,
+          signal,
+          onPartial: (partial) => {
+            if (!signal.aborted) setCurrentKanjiData(partial);
+          },
+        });
+        if (signal.aborted) return;
+        setCurrentKanjiData(data);
+        setLoadingState(LoadingState.COMPLETE);
+
+        const newItem: HistoryItem = {
+          id: Date.now().toString(),
+          timestamp: Date.now(),
+          type: 'kanji',
+          label: data.character,
+          data: data
+        };
+        updateHistory(newItem);
+
+      } else if (activeMode === 'document') {
+        // Document Mode Logic: sentences are analyzed separately and fill in as they finish.
+        // Documents are not saved to history; revisiting one is answered from the lookup cache.
+        const sentences = splitSentences(searchTerm);
+        setCurrentDocument({ text: searchTerm, sentences: sentences.map(text => ({ text, status: 'pending' })) });
+        await analyzeDocument(sentences, (index, sentence) => {
+          if (!signal.aborted) updateDocumentSentence(index, sentence);
+        }, { refresh, signal });
+        if (signal.aborted) return;
+        setLoadingState(LoadingState.COMPLETE);
 
       } else {
         // Sentence Mode Logic
-        const data = await lexiconService.analyzeSentence(searchTerm);
+        const data = await lexiconService.analyzeSentence(searchTerm, {
+          refresh,
+          signal,
+          onPartial: (partial) => {
+            if (!signal.aborted) setCurrentSentenceData(partial);
+          },
+        });
+        if (signal.aborted) return;
         setCurrentSentenceData(data);
         setLoadingState(LoadingState.COMPLETE);
 
@@ -159,26 +331,89 @@ function App() {
       }
 
     } catch (err) {
+      // A newer lookup replaced this one; its state is already on screen
+      if (signal.aborted || isAbortError(err)) return;
       console.error(err);
-      setError("Unable to analyze. Please check your API key or try again.");
+      // Drop any half-streamed result so it isn't mistaken for a complete entry
+      if (activeMode === 'dictionary') setCurrentWordData(null);
+      else if (activeMode === 'kanji') setCurrentKanjiData(null);
+      else if (activeMode === 'document') setCurrentDocument(null);
+      else setCurrentSentenceData(null);
+      setError(toLexiconError(err));
       setLoadingState(LoadingState.ERROR);
     }
   };
 
   const updateHistory = (newItem: HistoryItem) => {
     setHistory(prev => {
-      // Remove duplicate if exists
-      const filtered = prev.filter(item => item.label !== newItem.label);
-      return [newItem, ...filtered].slice(0, 50);
+      // A new lookup of the same content replaces the old entry (the kanji 本 and the word 本 are different entries)
+      const { next, replaced } = upsertHistoryItem(prev, newItem);
+      // Stored images of replaced entries are no longer reachable
+      imageStore.delete(replaced.filter(item => item.imageId).map(item => item.imageId!));
+      return next;
+    });
+  };
+
+  // Drops the images of deleted entries once they can no longer be restored
+  const finalizeDeletion = (items: HistoryItem[]) => {
+    imageStore.delete(items.filter(item => item.imageId).map(item => item.imageId!));
+  };
+
+  const deleteHistoryItems = (ids: string[]) => {
+    const removed = history.filter(item => ids.includes(item.id));
+    if (!removed.length) return;
+    clearTimeout(undoTimerRef.current);
+    // Only the latest deletion can be undone; the one before it becomes final
+    finalizeDeletion(deleted);
+    setDeleted(removed);
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    undoTimerRef.current = setTimeout(() => {
+      finalizeDeletion(removed);
+      setDeleted([]);
+    }, UNDO_WINDOW_MS);
+  };
+
+  const undoDelete = () => {
+    clearTimeout(undoTimerRef.current);
+    const restored = deleted;
+    setDeleted([]);
+    setHistory(prev => {
+      // Anything looked up again in the meantime keeps its newer entry
+      const present = new Set(prev.map(contentKey));
+      const [kept, superseded] = [restored.filter(item => !present.has(contentKey(item))), restored.filter(item => present.has(contentKey(item)))];
+      finalizeDeletion(superseded);
+      return [...prev, ...kept].sort((a, b) => b.timestamp - a.timestamp);
+    });
+  };
+
+  const updateHistoryItem = (id: string, changes: Partial<Pick<HistoryItem, 'pinned' | 'tags'>>) => {
+    setHistory(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  // Generated images go to the image store; web image URLs are small enough to keep on the item
+  const attachImage = async (itemId: string, image: string) => {
+    if (!image.startsWith('data:')) {
+      setHistory(prev => prev.map(h => h.id === itemId ? { ...h, imageUrl: image } : h));
+      return;
+    }
+    const imageId = await imageStore.save(image);
+    if (!imageId) return;
+    setHistory(prev => {
+      if (!prev.some(h => h.id === itemId)) {
+        imageStore.delete([imageId]); // Entry was removed while the image was being stored
+        return prev;
+      }
+      return prev.map(h => h.id === itemId ? { ...h, imageId, imageUrl: undefined } : h);
     });
   };
 
   const loadFromHistory = async (item: HistoryItem) => {
+    const signal = startLookup();
     setLoadingState(LoadingState.COMPLETE);
     setError(null);
     
     // Determine mode based on item type
-    const newMode = item.type === 'word' ? 'dictionary' : 'sentence';
+    const newMode = item.type === 'word' ? 'dictionary' : item.type === 'kanji' ? 'kanji' : 'sentence';
     setMode(newMode);
     
     if (item.type === 'word') {
@@ -187,36 +422,63 @@ function App() {
       
       setCurrentWordData(wData);
       setQuery(queryText);
+      lastSearchRef.current = { term: queryText, mode: 'dictionary' };
       updateUrl(queryText, 'dictionary');
       
       // Image Handling
-      if (item.imageUrl) {
-        setCurrentImage(item.imageUrl);
-      } else {
-        setCurrentImage(undefined);
-        // Regenerate background
+      setCurrentImage(item.imageUrl);
+      const storedImage = item.imageId ? await imageStore.getUrl(item.imageId) : null;
+      if (signal.aborted) return;
+
+      if (storedImage) {
+        setCurrentImage(storedImage);
+      } else if (!item.imageUrl) {
+        // Only entries whose image was never stored (older history, or evicted) get a new one
         try {
             const wordForImage = wData.coreWord.en;
-            const newImageUrl = await lexiconService.generateImage(wordForImage);
+            const newImageUrl = await lexiconService.generateImage(wordForImage, { signal });
             if (newImageUrl) {
-                setCurrentImage(newImageUrl);
-                setHistory(prev => prev.map(h => h.id === item.id ? { ...h, imageUrl: newImageUrl } : h));
+                attachImage(item.id, newImageUrl);
+                // Only show it if this entry is still the one on screen
+                if (!signal.aborted) setCurrentImage(newImageUrl);
             }
         } catch (e) {
-            console.error("Background image regeneration failed", e);
+            if (!isAbortError(e)) console.error("Background image regeneration failed", e);
         }
       }
 
+    } else if (item.type === 'kanji') {
+      const kData = item.data as KanjiData;
+      setCurrentKanjiData(kData);
+      setQuery(kData.character);
+      lastSearchRef.current = { term: kData.character, mode: 'kanji' };
+      updateUrl(kData.character, 'kanji');
+
     } else {
       const sData = item.data as SentenceData;
       setCurrentSentenceData(sData);
       setQuery(sData.original);
+      lastSearchRef.current = { term: sData.original, mode: 'sentence' };
       updateUrl(sData.original, 'sentence');
     }
     
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  // Re-runs the lookup behind the current result, bypassing the cache
+  const handleRefresh = () => {
+    const last = lastSearchRef.current;
+    if (!last) return;
+    setQuery(last.term);
+    handleSearch(undefined, last.term, last.mode, true);
+  };
+
+  const handleRetry = () => {
+    const last = lastSearchRef.current;
+    if (!last) return;
+    handleSearch(undefined, last.term, last.mode);
+  };
+
   const handleWordClick = (word: string) => {
     setQuery(word);
     setMode('dictionary');
@@ -225,14 +487,68 @@ function App() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  // Breakdown tokens open the dictionary but remember the sentence or document to come back to
+  const handleBreakdownClick = (word: string) => {
+    if (mode === 'document' && currentDocument) setBreakdownOrigin({ mode: 'document', term: currentDocument.text });
+    else if (currentSentenceData) setBreakdownOrigin({ mode: 'sentence', term: currentSentenceData.original });
+    handleWordClick(word);
+  };
+
+  // Reader "save" creates a full dictionary entry in history without leaving the text
+  const handleSaveWord = async (word: string) => {
+    const data = await lexiconService.analyzeWord(word);
+    updateHistory({
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      type: 'word',
+      label: data.coreWord.jp,
+      data: data
+    });
+  };
+
+  const updateDocumentSentence = (index: number, sentence: DocumentSentence) => {
+    setCurrentDocument(prev => prev && { ...prev, sentences: prev.sentences.map((s, i) => i === index ? sentence : s) });
+  };
+
+  // Retries one failed sentence without touching the rest of the document
+  const handleRetrySentence = async (index: number) => {
+    const text = currentDocument?.sentences[index]?.text;
+    if (!text) return;
+    // Bound to the document lookup, so starting a new one cancels the retry too. Once that lookup
+    // has finished or was cancelled by a tab switch, the retry starts a lookup of its own.
+    const current = lookupRef.current?.signal;
+    const signal = current && !current.aborted ? current : startLookup();
+    updateDocumentSentence(index, { text, status: 'analyzing' });
+    try {
+      const sentence = await analyzeDocumentSentence(text, { signal });
+      if (!signal.aborted) updateDocumentSentence(index, sentence);
+    } catch (e) {
+      if (!isAbortError(e)) console.error(e);
+    }
+  };
+
+  const handleKanjiClick = (kanji: string) => {
+    setQuery(kanji);
+    setMode('kanji');
+    handleSearch(undefined, kanji, 'kanji');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleModeSwitch = (newMode: AppMode) => {
+    // A lookup still running for the old tab would land on a screen that no longer shows it
+    lookupRef.current?.abort();
     setMode(newMode);
     setError(null);
     setLoadingState(LoadingState.IDLE);
     
     // OPTIMIZATION: Restore query text and URL for the selected mode
     // We DO NOT clear the data of the new mode. If it was previously searched, we show it.
-    if (newMode === 'dictionary') {
+    if (newMode === 'lists' || newMode === 'review' || newMode === 'quiz' || newMode === 'drill') {
+      // Picking a study tab directly studies the whole history
+      setStudyListId(null);
+      setQuery('');
+      updateUrl('', newMode);
+    } else if (newMode === 'dictionary') {
       if (currentWordData) {
         // If we have previous dictionary data, restore the query and URL
         const word = currentWordData.inputWord || currentWordData.coreWord.jp;
@@ -243,6 +559,16 @@ function App() {
         setQuery('');
         updateUrl('', 'dictionary');
       }
+    } else if (newMode === 'document') {
+      const text = currentDocument?.text ?? '';
+      setQuery(text);
+      // Leaving the tab cancels the remaining sentences; pick them up again (finished ones come from the cache)
+      if (currentDocument && !isDocumentFinished(currentDocument)) handleSearch(undefined, text, 'document');
+      else updateUrl(text, 'document');
+    } else if (newMode === 'kanji') {
+      const kanji = currentKanjiData?.character ?? '';
+      setQuery(kanji);
+      updateUrl(kanji, 'kanji');
     } else {
       if (currentSentenceData) {
         // If we have previous sentence data, restore the query and URL
@@ -272,6 +598,48 @@ function App() {
     document.body.removeChild(link);
   };
 
+  const updateCollection = (id: string, update: (collection: Collection) => Collection) => {
+    setCollections(prev => prev.map(collection => collection.id === id ? update(collection) : collection));
+  };
+
+  const handleCreateCollection = (name: string): string => {
+    const collection = createCollection(name);
+    setCollections(prev => [...prev, collection]);
+    return collection.id;
+  };
+
+  const renameCollection = (id: string, name: string) => {
+    updateCollection(id, collection => ({ ...collection, name: name.trim() }));
+  };
+
+  const deleteCollection = (id: string) => {
+    setCollections(prev => prev.filter(collection => collection.id !== id));
+    if (studyListId === id) setStudyListId(null);
+  };
+
+  const toggleInCollection = (id: string, type: CollectionEntryType, data: WordData | SentenceData) => {
+    updateCollection(id, collection => toggleEntry(collection, collectionEntry(type, data)));
+  };
+
+  const addToNewCollection = (name: string, type: CollectionEntryType, data: WordData | SentenceData) => {
+    const collection = createCollection(name);
+    setCollections(prev => [...prev, toggleEntry(collection, collectionEntry(type, data))]);
+  };
+
+  // Opens the matching history entry when there is one, so its stored image comes along
+  const openCollectionEntry = (entry: HistoryItem) => {
+    const key = contentKey(entry);
+    loadFromHistory(history.find(item => contentKey(item) === key) ?? entry);
+  };
+
+  const studyCollection = (id: string, studyMode: StudyMode) => {
+    handleModeSwitch(studyMode);
+    setStudyListId(id);
+  };
+
+  const studyList = studyListId ? collections.find(collection => collection.id === studyListId) : undefined;
+  const studyItems = studyList ? studyList.items : history;
+
   const handleInputFocus = (e: React.FocusEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     e.target.select();
   };
@@ -279,7 +647,9 @@ function App() {
   // Logic for showing the empty state placeholder
   const showPlaceholder = loadingState === LoadingState.IDLE && (
     (mode === 'dictionary' && !currentWordData) ||
-    (mode === 'sentence' && !currentSentenceData)
+    (mode === 'sentence' && !currentSentenceData) ||
+    (mode === 'document' && !currentDocument) ||
+    (mode === 'kanji' && !currentKanjiData)
   );
 
   return (
@@ -289,11 +659,36 @@ function App() {
       <HistorySidebar 
         history={history} 
         onSelect={loadFromHistory} 
+        onDelete={deleteHistoryItems}
+        onUpdate={updateHistoryItem}
+        deletedCount={deleted.length}
+        onUndoDelete={undoDelete}
         onExport={exportHistory}
+        onExportAnki={() => setAnkiExport({ items: history })}
+        onBackup={() => setIsBackupOpen(true)}
+        onSyncSettings={() => setIsSyncOpen(true)}
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
       />
 
+      {ankiExport && (
+        <AnkiExportDialog history={ankiExport.items} listName={ankiExport.listName} onClose={() => setAnkiExport(null)} />
+      )}
+
+      {isSyncOpen && <SyncDialog onSave={configureSync} onClose={() => setIsSyncOpen(false)} />}
+
+      {isBackupOpen && (
+        <BackupDialog
+          history={history}
+          collections={collections}
+          onRestore={(items, lists) => {
+            setHistory(prev => mergeHistory(prev, items).next);
+            setCollections(prev => mergeCollections(prev, lists).next);
+          }}
+          onClose={() => setIsBackupOpen(false)}
+        />
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex flex-col h-full overflow-hidden relative">
         
@@ -315,7 +710,7 @@ function App() {
 
           {/* Mode Switcher Tabs */}
           <div className="flex justify-center">
-             <div className="bg-slate-100 p-1 rounded-lg inline-flex">
+             <div className="bg-slate-100 p-1 rounded-lg inline-flex flex-wrap justify-center">
                 <button 
                   onClick={() => handleModeSwitch('dictionary')}
                   className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'dictionary' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
@@ -328,45 +723,83 @@ function App() {
                 >
                   Sentence Analysis
                 </button>
+                <button 
+                  onClick={() => handleModeSwitch('document')}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'document' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Document
+                </button>
+                <button 
+                  onClick={() => handleModeSwitch('kanji')}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'kanji' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Kanji
+                </button>
+                <button 
+                  onClick={() => handleModeSwitch('lists')}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'lists' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Lists
+                </button>
+                <button 
+                  onClick={() => handleModeSwitch('review')}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'review' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Review
+                </button>
+                <button 
+                  onClick={() => handleModeSwitch('quiz')}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'quiz' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Quiz
+                </button>
+                <button 
+                  onClick={() => handleModeSwitch('drill')}
+                  className={`px-6 py-2 rounded-md text-sm font-medium transition-all ${mode === 'drill' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  Conjugation
+                </button>
              </div>
           </div>
 
           {/* Search Form */}
-          <form onSubmit={(e) => handleSearch(e)} className="w-full max-w-3xl mx-auto flex gap-2 relative">
-            <div className="relative flex-1">
-              <div className="absolute top-3.5 left-3 flex items-start pointer-events-none text-slate-400">
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z" />
-                </svg>
+          {(mode === 'dictionary' || mode === 'sentence' || mode === 'document' || mode === 'kanji') && (
+            <form onSubmit={(e) => { setBreakdownOrigin(null); handleSearch(e); }} className="w-full max-w-3xl mx-auto flex gap-2 relative">
+              <div className="relative flex-1">
+                <div className="absolute top-3.5 left-3 flex items-start pointer-events-none text-slate-400">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m21 21-5.197-5.197m0 0A7.5 7.5 0 1 0 5.196 5.196a7.5 7.5 0 0 0 10.607 10.607Z" />
+                  </svg>
+                </div>
+                {mode !== 'sentence' && mode !== 'document' ? (
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onFocus={handleInputFocus}
+                    placeholder={mode === 'kanji' ? "Enter a single kanji, e.g. 食" : "Enter a word (Japanese, English, or Chinese)..."}
+                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 focus:border-brand-500 focus:ring-4 focus:ring-brand-100 outline-none transition-all shadow-sm bg-white"
+                  />
+                ) : (
+                   <textarea
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onFocus={handleInputFocus}
+                    placeholder={mode === 'document' ? "Paste a paragraph or article to analyze sentence by sentence..." : "Enter a long sentence to analyze..."}
+                    rows={mode === 'document' ? 5 : 2}
+                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 focus:border-brand-500 focus:ring-4 focus:ring-brand-100 outline-none transition-all shadow-sm resize-none bg-white"
+                  />
+                )}
               </div>
-              {mode === 'dictionary' ? (
-                <input
-                  type="text"
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  onFocus={handleInputFocus}
-                  placeholder="Enter a word (Japanese, English, or Chinese)..."
-                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 focus:border-brand-500 focus:ring-4 focus:ring-brand-100 outline-none transition-all shadow-sm bg-white"
-                />
-              ) : (
-                 <textarea
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  onFocus={handleInputFocus}
-                  placeholder="Enter a long sentence to analyze..."
-                  rows={2}
-                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-slate-200 focus:border-brand-500 focus:ring-4 focus:ring-brand-100 outline-none transition-all shadow-sm resize-none bg-white"
-                />
-              )}
-            </div>
-            <button
-              type="submit"
-              disabled={loadingState === LoadingState.ANALYZING || loadingState === LoadingState.GENERATING_IMAGE || !query.trim()}
-              className={`px-6 py-3 text-white font-semibold rounded-xl shadow-md transition-colors h-fit ${mode === 'dictionary' ? 'bg-brand-600 hover:bg-brand-500' : 'bg-indigo-600 hover:bg-indigo-500'} disabled:opacity-50 disabled:cursor-not-allowed`}
-            >
-              {mode === 'dictionary' ? 'Search' : 'Analyze'}
-            </button>
-          </form>
+              <button
+                type="submit"
+                disabled={loadingState === LoadingState.ANALYZING || !query.trim()}
+                className={`px-6 py-3 text-white font-semibold rounded-xl shadow-md transition-colors h-fit ${mode !== 'sentence' && mode !== 'document' ? 'bg-brand-600 hover:bg-brand-500' : 'bg-indigo-600 hover:bg-indigo-500'} disabled:opacity-50 disabled:cursor-not-allowed`}
+              >
+                {mode === 'sentence' || mode === 'document' ? 'Analyze' : 'Search'}
+              </button>
+            </form>
+          )}
         </div>
 
         {/* Scrollable Content Area */}
@@ -381,25 +814,26 @@ function App() {
             {showPlaceholder && (
               <div className="flex flex-col items-center justify-center h-64 text-slate-400 opacity-60">
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={0.5} stroke="currentColor" className="w-32 h-32 mb-4">
-                  {mode === 'dictionary' ? (
+                  {mode !== 'sentence' && mode !== 'document' ? (
                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 0 0 6 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 0 1 6 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 0 1 6-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0 0 18 18a8.967 8.967 0 0 0-6 2.292m0-14.25v14.25" />
                   ) : (
                      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 8.25h9m-9 3H12m-9.75 1.51c0 1.6 1.123 2.994 2.707 3.227 1.129.166 2.27.293 3.423.379.35.026.67.21.865.501L12 21l2.755-4.133a1.14 1.14 0 0 1 .865-.501 48.172 48.172 0 0 0 3.423-.379c1.584-.233 2.707-1.626 2.707-3.228V6.741c0-1.602-1.123-2.995-2.707-3.228A48.394 48.394 0 0 0 12 3c-2.392 0-4.744.175-7.043.513C3.373 3.746 2.25 5.14 2.25 6.741v6.018Z" />
                   )}
                 </svg>
                 <p className="text-xl font-serif">
-                  {mode === 'dictionary' ? 'Search for a word' : 'Enter a sentence to analyze'}
+                  {mode === 'dictionary' ? 'Search for a word' : mode === 'kanji' ? 'Look up a kanji' : mode === 'document' ? 'Paste a text to analyze' : 'Enter a sentence to analyze'}
                 </p>
               </div>
             )}
 
-            {(loadingState === LoadingState.ANALYZING || loadingState === LoadingState.GENERATING_IMAGE) && (
+            {/* Skeleton until the first streamed section arrives */}
+            {loadingState === LoadingState.ANALYZING && ((mode === 'dictionary' && !currentWordData) || (mode === 'sentence' && !currentSentenceData) || (mode === 'kanji' && !currentKanjiData)) && (
               <div className="bg-white rounded-xl shadow p-8 animate-pulse">
                 <div className="h-10 bg-slate-200 rounded w-1/3 mb-6"></div>
                 <div className="h-4 bg-slate-200 rounded w-full mb-3"></div>
                 <div className="h-4 bg-slate-200 rounded w-5/6 mb-3"></div>
                 <div className="h-4 bg-slate-200 rounded w-4/6 mb-8"></div>
-                {mode === 'dictionary' ? (
+                {mode !== 'sentence' ? (
                    <div className="grid grid-cols-2 gap-4">
                     <div className="h-32 bg-slate-200 rounded"></div>
                     <div className="h-32 bg-slate-200 rounded"></div>
@@ -413,15 +847,23 @@ function App() {
                 )}
                
                 <div className="mt-8 text-center text-brand-600 font-medium">
-                  {loadingState === LoadingState.ANALYZING ? "Analyzing language patterns..." : "Visualizing context..."}
+                  Analyzing language patterns...
                 </div>
               </div>
             )}
 
-            {error && (
-              <div className="bg-red-50 text-red-600 p-6 rounded-xl border border-red-100 text-center shadow-sm">
-                <p>{error}</p>
-              </div>
+            {error && <ErrorMessage error={error} onRetry={handleRetry} />}
+
+            {mode === 'dictionary' && breakdownOrigin && (breakdownOrigin.mode === 'sentence' ? currentSentenceData?.original : currentDocument?.text) === breakdownOrigin.term && (
+              <button
+                onClick={() => handleModeSwitch(breakdownOrigin.mode)}
+                className="mb-4 flex items-center gap-1 text-sm font-medium text-brand-600 hover:text-brand-700 transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 19.5 3 12m0 0 7.5-7.5M3 12h18" />
+                </svg>
+                {breakdownOrigin.mode === 'sentence' ? 'Back to sentence' : 'Back to document'}
+              </button>
             )}
 
             {mode === 'dictionary' && currentWordData && (
@@ -429,11 +871,80 @@ function App() {
                 data={currentWordData} 
                 imageUrl={currentImage} 
                 onWordClick={handleWordClick}
+                onKanjiClick={handleKanjiClick}
+                onRefresh={handleRefresh}
+                streaming={loadingState === LoadingState.ANALYZING}
+                imagePending={loadingState === LoadingState.ANALYZING || loadingState === LoadingState.GENERATING_IMAGE}
+                collections={collections}
+                onToggleCollection={id => toggleInCollection(id, 'word', currentWordData)}
+                onCreateCollection={name => addToNewCollection(name, 'word', currentWordData)}
+              />
+            )}
+
+            {mode === 'kanji' && currentKanjiData && (
+              <KanjiCard
+                data={currentKanjiData}
+                onCompoundClick={handleWordClick}
+                onRefresh={handleRefresh}
+                streaming={loadingState === LoadingState.ANALYZING}
+              />
+            )}
+
+            {mode === 'lists' && (
+              <CollectionsView
+                collections={collections}
+                onCreate={handleCreateCollection}
+                onRename={renameCollection}
+                onMove={(index, delta) => setCollections(prev => moveCollection(prev, index, delta))}
+                onDelete={deleteCollection}
+                onRemoveEntry={(id, entry) => updateCollection(id, collection => toggleEntry(collection, entry))}
+                onOpenEntry={openCollectionEntry}
+                onStudy={studyCollection}
+                onExportAnki={collection => setAnkiExport({ items: collection.items, listName: collection.name })}
+              />
+            )}
+
+            {(mode === 'review' || mode === 'quiz' || mode === 'drill') && studyList && (
+              <div className="mb-4 flex items-center justify-between gap-4 px-4 py-2 rounded-lg bg-brand-50 border border-brand-100 text-sm">
+                <span className="text-brand-800">Studying the list <b>{studyList.name}</b></span>
+                <button onClick={() => setStudyListId(null)} className="text-xs font-semibold text-brand-600 hover:text-brand-800">
+                  Study all history
+                </button>
+              </div>
+            )}
+
+            {/* Keyed by the study list so each session starts over with the new set of words */}
+            {mode === 'review' && (
+              <ReviewSession key={studyList?.id ?? 'history'} history={studyItems} onOpenWord={handleWordClick} />
+            )}
+
+            {mode === 'quiz' && <QuizSession key={studyList?.id ?? 'history'} history={studyItems} />}
+
+            {mode === 'drill' && <DrillSession key={studyList?.id ?? 'history'} history={studyItems} />}
+
+            {mode === 'document' && currentDocument && (
+              <DocumentAnalysis
+                data={currentDocument}
+                history={history}
+                onWordClick={handleBreakdownClick}
+                onSaveWord={handleSaveWord}
+                onRetrySentence={handleRetrySentence}
+                collections={collections}
+                onToggleCollection={(id, data) => toggleInCollection(id, 'sentence', data)}
+                onCreateCollection={(name, data) => addToNewCollection(name, 'sentence', data)}
               />
             )}
 
             {mode === 'sentence' && currentSentenceData && (
-              <SentenceAnalysis data={currentSentenceData} />
+              <SentenceAnalysis
+                data={currentSentenceData}
+                onWordClick={handleBreakdownClick}
+                onRefresh={handleRefresh}
+                streaming={loadingState === LoadingState.ANALYZING}
+                collections={collections}
+                onToggleCollection={id => toggleInCollection(id, 'sentence', currentSentenceData)}
+                onCreateCollection={name => addToNewCollection(name, 'sentence', currentSentenceData)}
+              />
             )}
 
             {/* Bottom Ad Unit - Shown after content or on initial load */}
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HistoryItem } from '../types';
+import {
+  ANKI_FIELDS,
+  AnkiExportResult,
+  AnkiTemplate,
+  DEFAULT_ANKI_TEMPLATE,
+  exportAnkiDeck,
+  loadAnkiTemplate,
+  saveAnkiTemplate,
+} from '../services/ankiExport';
+import { downloadBlob } from '../services/download';
+import { isAbortError } from '../services/errors';
+
+interface AnkiExportDialogProps {
+  history: HistoryItem[];
+  listName?: string; // Set when exporting a collection; it becomes a subdeck of the template's deck
+  onClose: () => void;
+}
+
+export const AnkiExportDialog: React.FC<AnkiExportDialogProps> = ({ history, listName, onClose }) => {
+  const [template, setTemplate] = useState<AnkiTemplate>(loadAnkiTemplate);
+  const [showTemplate, setShowTemplate] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<AnkiExportResult | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+  const exportRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog cancels a running export
+  useEffect(() => () => exportRef.current?.abort(), []);
+
+  const wordCount = history.filter(item => item.type === 'word').length;
+
+  const update = (patch: Partial<AnkiTemplate>) => {
+    const next = { ...template, ...patch };
+    setTemplate(next);
+    saveAnkiTemplate(next);
+  };
+
+  const toggleField = (field: typeof ANKI_FIELDS[number]) => {
+    const fields = template.fields.includes(field)
+      ? template.fields.filter(f => f !== field)
+      : ANKI_FIELDS.filter(f => f === field || template.fields.includes(f));
+    if (fields.length) update({ fields });
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    exportRef.current = controller;
+    setResult(null);
+    setFailure(null);
+    setProgress({ done: 0, total: wordCount });
+    try {
+      const deck = listName ? `${template.deck}::${listName}` : template.deck;
+      const { blob, result } = await exportAnkiDeck(history, { ...template, deck }, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      downloadBlob(blob, `trilingua_anki_${new Date().toISOString().slice(0, 10)}.zip`);
+      setResult(result);
+    } catch (e) {
+      if (!isAbortError(e)) {
+        console.error("Anki export failed", e);
+        setFailure(e instanceof Error ? e.message : String(e));
+      }
+    }
+    setProgress(null);
+    exportRef.current = null;
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 focus:border-brand-500 outline-none text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-800">Export Anki deck</h2>
+            <p className="text-xs text-slate-500 mt-1">{wordCount} words from {listName ? `the list "${listName}"` : 'your history'}, as a note file plus media (zip).</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+              Deck
+              <input value={template.deck} onChange={e => update({ deck: e.target.value })} className={`${inputClass} mt-1 normal-case font-normal tracking-normal text-slate-700`} />
+            </label>
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+              Note type
+              <input value={template.noteType} onChange={e => update({ noteType: e.target.value })} className={`${inputClass} mt-1 normal-case font-normal tracking-normal text-slate-700`} />
+            </label>
+          </div>
+
+          <div>
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Fields</span>
+            <div className="flex flex-wrap gap-2">
+              {ANKI_FIELDS.map(field => {
+                const active = template.fields.includes(field);
+                return (
+                  <button
+                    key={field}
+                    onClick={() => toggleField(field)}
+                    className={`text-xs px-3 py-1 rounded-full border transition-colors ${active ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-300'}`}
+                  >
+                    {field}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">Audio fields generate speech for each headword, which can take a while for words that were never played.</p>
+          </div>
+
+          <div>
+            <button onClick={() => setShowTemplate(open => !open)} className="text-xs font-semibold text-brand-600 hover:text-brand-800">
+              {showTemplate ? 'Hide card template' : 'Edit card template'}
+            </button>
+            {showTemplate && (
+              <div className="mt-3 space-y-3">
+                {(['front', 'back', 'css'] as const).map(key => (
+                  <label key={key} className="block text-xs font-bold text-slate-400 uppercase tracking-wider">
+                    {key === 'css' ? 'Styling' : `${key} side`}
+                    <textarea
+                      value={template[key]}
+                      onChange={e => update({ [key]: e.target.value })}
+                      rows={key === 'front' ? 3 : 6}
+                      className={`${inputClass} mt-1 font-mono text-xs normal-case font-normal tracking-normal text-slate-700`}
+                    />
+                  </label>
+                ))}
+                <button onClick={() => update(DEFAULT_ANKI_TEMPLATE)} className="text-xs text-slate-500 hover:text-slate-700">
+                  Reset to default template
+                </button>
+              </div>
+            )}
+          </div>
+
+          {result && (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 text-sm text-emerald-800">
+              Exported {result.notes} notes with {result.media} media files. See README.txt in the zip for import steps.
+              {result.failures.length > 0 && (
+                <ul className="mt-2 text-xs text-amber-700 list-disc pl-5 space-y-1">
+                  {result.failures.map((line, i) => <li key={i}>{line}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+          {failure && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">Export failed: {failure}</div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end gap-2 rounded-b-xl">
+          {progress ? (
+            <>
+              <span className="self-center text-sm text-slate-500 mr-auto">Preparing {progress.done} / {progress.total}...</span>
+              <button onClick={() => exportRef.current?.abort()} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800">
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={wordCount === 0}
+              className="px-5 py-2 bg-brand-600 hover:bg-brand-500 text-white text-sm font-semibold rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Export
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
-import { lexiconService } from '../services/lexiconService';
-import { playPcmAudio } from '../services/audio';
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { audioPlayer, clipId, downloadClip, AudioClip, PLAYBACK_RATES } from '../services/audio';
+import { isAbortError, toLexiconError } from '../services/errors';
 
 interface AudioButtonProps {
   text: string;
@@ -8,40 +8,99 @@ interface AudioButtonProps {
   size?: 'sm' | 'md';
 }
 
+const SPEAKER_PATH = "M19.114 5.636a9 9 0 0 1 0 12.728M16.463 8.288a5.25 5.25 0 0 1 0 7.424M6.75 8.25l4.72-4.72a.75.75 0 0 1 1.28.53v15.88a.75.75 0 0 1-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.009 9.009 0 0 1 2.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75Z";
+
 export const AudioButton: React.FC<AudioButtonProps> = ({ text, lang, size = 'md' }) => {
-  const [playing, setPlaying] = useState(false);
+  const playback = useSyncExternalStore(audioPlayer.subscribe, audioPlayer.getState);
+  const [clip, setClip] = useState<AudioClip | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  const id = clipId(text, lang);
+  const isCurrent = playback.clipId === id;
+  const status = isCurrent ? playback.status : 'idle';
+
+  // Cancel a pending request when the button now stands for different text (new entry) or goes away
+  useEffect(() => () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    audioPlayer.markIdle(id);
+    setClip(null);
+  }, [id]);
 
   const handlePlay = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (playing) return;
-    setPlaying(true);
+    if (status === 'playing') return audioPlayer.pause();
+    if (status === 'paused') return audioPlayer.resume();
+    if (status === 'loading') return;
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setFailure(null);
+    audioPlayer.markLoading(id);
     try {
-      const audio = await lexiconService.generateSpeech(text, lang);
-      if (audio) playPcmAudio(audio);
+      const loaded = await audioPlayer.load(text, lang, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setClip(loaded);
+      if (loaded) audioPlayer.play(loaded);
+      else audioPlayer.markIdle(id);
     } catch (err) {
-      console.error("Playback failed", err);
+      audioPlayer.markIdle(id);
+      if (!isAbortError(err)) {
+        console.error("Playback failed", err);
+        setFailure(toLexiconError(err).message);
+      }
     }
-    setPlaying(false);
   };
 
   const iconSize = size === 'sm' ? 'w-4 h-4' : 'w-5 h-5';
+  const controlClass = "text-brand-500 hover:text-brand-900 p-1 rounded-full hover:bg-brand-50 focus:outline-none transition-colors";
 
   return (
-    <button
-      onClick={handlePlay}
-      disabled={playing}
-      className={`text-brand-600 hover:text-brand-900 transition-colors p-1 rounded-full hover:bg-brand-50 focus:outline-none ${playing ? 'opacity-50' : ''}`}
-      title="Play Pronunciation"
-    >
-      {playing ? (
-        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`${iconSize} animate-pulse`}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 0 1 0 12.728M16.463 8.288a5.25 5.25 0 0 1 0 7.424M6.75 8.25l4.72-4.72a.75.75 0 0 1 1.28.53v15.88a.75.75 0 0 1-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.009 9.009 0 0 1 2.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75Z" />
-        </svg>
-      ) : (
-        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={iconSize}>
-          <path strokeLinecap="round" strokeLinejoin="round" d="M19.114 5.636a9 9 0 0 1 0 12.728M16.463 8.288a5.25 5.25 0 0 1 0 7.424M6.75 8.25l4.72-4.72a.75.75 0 0 1 1.28.53v15.88a.75.75 0 0 1-1.28.53l-4.72-4.72H4.51c-.88 0-1.704-.507-1.938-1.354A9.009 9.009 0 0 1 2.25 12c0-.83.112-1.633.322-2.396C2.806 8.756 3.63 8.25 4.51 8.25H6.75Z" />
-        </svg>
+    <span className="inline-flex items-center gap-0.5">
+      <button
+        onClick={handlePlay}
+        className={`${failure ? 'text-red-400 hover:text-red-600' : 'text-brand-600 hover:text-brand-900'} transition-colors p-1 rounded-full hover:bg-brand-50 focus:outline-none ${status === 'loading' ? 'opacity-50' : ''}`}
+        title={failure ? `Speech failed: ${failure} (click to retry)` : status === 'playing' ? "Pause" : status === 'paused' ? "Resume" : "Play Pronunciation"}
+      >
+        {status === 'playing' ? (
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={iconSize}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 5.25v13.5m-7.5-13.5v13.5" />
+          </svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`${iconSize} ${status === 'loading' ? 'animate-pulse' : ''}`}>
+            <path strokeLinecap="round" strokeLinejoin="round" d={SPEAKER_PATH} />
+          </svg>
+        )}
+      </button>
+
+      {/* Extra controls only for the clip that was played last, so cards don't fill up with buttons */}
+      {isCurrent && clip && status !== 'loading' && (
+        <>
+          {status !== 'idle' && (
+            <button onClick={(e) => { e.stopPropagation(); audioPlayer.stop(); }} className={controlClass} title="Stop">
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 7.5A2.25 2.25 0 0 1 7.5 5.25h9a2.25 2.25 0 0 1 2.25 2.25v9a2.25 2.25 0 0 1-2.25 2.25h-9a2.25 2.25 0 0 1-2.25-2.25v-9Z" />
+              </svg>
+            </button>
+          )}
+          {PLAYBACK_RATES.map(rate => (
+            <button
+              key={rate}
+              onClick={(e) => { e.stopPropagation(); audioPlayer.setRate(rate); }}
+              className={`text-[10px] font-bold px-1 py-0.5 rounded transition-colors ${playback.rate === rate ? 'bg-brand-600 text-white' : 'text-brand-500 hover:bg-brand-50'}`}
+              title={`Playback speed ${rate}x`}
+            >
+              {rate}x
+            </button>
+          ))}
+          <button onClick={(e) => { e.stopPropagation(); downloadClip(clip); }} className={controlClass} title="Download as WAV">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
+            </svg>
+          </button>
+        </>
       )}
-    </button>
+    </span>
   );
-};
\ No newline at end of file
+};
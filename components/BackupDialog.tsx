@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import { Collection, HistoryItem } from '../types';
+import { BackupFormatError, ImportReport, SectionReport, backupFileName, createBackup, importBackup, parseBackup } from '../services/backup';
+import { downloadBlob } from '../services/download';
+
+interface BackupDialogProps {
+  history: HistoryItem[];
+  collections: Collection[];
+  // Hands over restored entries and lists to merge into the app's state
+  onRestore: (history: HistoryItem[], collections: Collection[]) => void;
+  onClose: () => void;
+}
+
+const SECTIONS: { key: 'history' | 'collections' | 'study'; label: string }[] = [
+  { key: 'history', label: 'History entries' },
+  { key: 'collections', label: 'Lists' },
+  { key: 'study', label: 'Study records' },
+];
+
+const ReportRow: React.FC<{ label: string; section: SectionReport }> = ({ label, section }) => (
+  <tr className="border-t border-slate-100">
+    <td className="py-2 pr-4 text-slate-700">{label}</td>
+    <td className="py-2 px-2 text-right text-emerald-600 font-semibold">{section.added}</td>
+    <td className="py-2 px-2 text-right text-brand-600">{section.updated}</td>
+    <td className="py-2 px-2 text-right text-slate-400">{section.skipped}</td>
+    <td className={`py-2 pl-2 text-right ${section.rejected.length ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>{section.rejected.length}</td>
+  </tr>
+);
+
+export const BackupDialog: React.FC<BackupDialogProps> = ({ history, collections, onRestore, onClose }) => {
+  const [busy, setBusy] = useState<'backup' | 'restore' | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleBackup = async () => {
+    setBusy('backup');
+    setFailure(null);
+    try {
+      const archive = await createBackup(history, collections);
+      downloadBlob(new Blob([JSON.stringify(archive)], { type: 'application/json' }), backupFileName());
+    } catch (e) {
+      console.error("Backup failed", e);
+      setFailure(e instanceof Error ? e.message : String(e));
+    }
+    setBusy(null);
+  };
+
+  const handleRestore = async (file: File) => {
+    setBusy('restore');
+    setReport(null);
+    setFailure(null);
+    try {
+      const backup = parseBackup(await file.text());
+      const result = await importBackup(backup, { history, collections });
+      onRestore(result.history, result.collections);
+      setReport(result.report);
+    } catch (e) {
+      if (!(e instanceof BackupFormatError)) console.error("Restore failed", e);
+      setFailure(e instanceof Error ? e.message : String(e));
+    }
+    setBusy(null);
+  };
+
+  const rejected = report ? SECTIONS.flatMap(({ key }) => report[key].rejected) : [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={() => !busy && onClose()}>
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-800">Backup &amp; restore</h2>
+            <p className="text-xs text-slate-500 mt-1">History with images, lists, study progress and settings, as one JSON file.</p>
+          </div>
+          <button onClick={onClose} disabled={Boolean(busy)} className="text-slate-400 hover:text-slate-600 disabled:opacity-40">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto custom-scrollbar space-y-6">
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={handleBackup}
+              disabled={Boolean(busy)}
+              className="flex-1 py-2 px-4 bg-brand-600 hover:bg-brand-500 text-white text-sm font-semibold rounded-lg disabled:opacity-50 transition-colors"
+            >
+              {busy === 'backup' ? 'Preparing backup...' : `Download backup (${history.length} entries)`}
+            </button>
+            <button
+              onClick={() => fileRef.current?.click()}
+              disabled={Boolean(busy)}
+              className="flex-1 py-2 px-4 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-lg hover:bg-slate-100 disabled:opacity-50 transition-colors"
+            >
+              {busy === 'restore' ? 'Restoring...' : 'Restore from file'}
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleRestore(file);
+              }}
+            />
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Restoring merges the file into what is already here. Entries and lists that already exist are kept, and pick up pins, tags and list entries from the file. Your settings are replaced by the ones in the file.
+          </p>
+
+          {failure && <p className="text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{failure}</p>}
+
+          {report && (
+            <div className="space-y-3">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-400 uppercase tracking-wider">
+                    <th className="pb-1 text-left font-bold"></th>
+                    <th className="pb-1 px-2 text-right font-bold">Added</th>
+                    <th className="pb-1 px-2 text-right font-bold">Updated</th>
+                    <th className="pb-1 px-2 text-right font-bold">Skipped</th>
+                    <th className="pb-1 pl-2 text-right font-bold">Rejected</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SECTIONS.map(({ key, label }) => <ReportRow key={key} label={label} section={report[key]} />)}
+                </tbody>
+              </table>
+              {report.settingsRestored && <p className="text-xs text-slate-500">Settings were restored from the file.</p>}
+              {rejected.length > 0 && (
+                <details className="text-xs text-slate-600">
+                  <summary className="cursor-pointer font-semibold text-red-600">Why records were rejected</summary>
+                  <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                    {rejected.map((reason, i) => <li key={i}>{reason}</li>)}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
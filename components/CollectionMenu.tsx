@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Collection } from '../types';
+import { hasEntry } from '../services/collections';
+
+interface CollectionMenuProps {
+  collections: Collection[];
+  entryKey: string; // contentKey of the word or sentence on screen
+  onToggle: (collectionId: string) => void;
+  onCreate: (name: string) => void; // Creates a list and adds the entry to it
+  className?: string;
+}
+
+// "Add to list" button for result cards, with a checkbox per collection
+export const CollectionMenu: React.FC<CollectionMenuProps> = ({ collections, entryKey, onToggle, onCreate, className = '' }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const rootRef = useRef<HTMLDivElement>(null);
+  const count = collections.filter(collection => hasEntry(collection, entryKey)).length;
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpen(false);
+    };
+    const onPointer = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener('keydown', onKey);
+    window.addEventListener('mousedown', onPointer);
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      window.removeEventListener('mousedown', onPointer);
+    };
+  }, [open]);
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onCreate(name);
+    setName('');
+  };
+
+  return (
+    <div ref={rootRef} className={`relative ${className}`}>
+      <button
+        onClick={() => setOpen(value => !value)}
+        className={`inline-flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-md transition-colors ${count ? 'text-brand-600 bg-brand-50' : 'text-slate-400 hover:text-brand-600 hover:bg-brand-50'}`}
+        title="Add to a study list"
+        aria-expanded={open}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 10.5v6m3-3H9m4.06-7.19-2.12-2.12a1.5 1.5 0 0 0-1.061-.44H4.5A2.25 2.25 0 0 0 2.25 6v12a2.25 2.25 0 0 0 2.25 2.25h15A2.25 2.25 0 0 0 21.75 18V9a2.25 2.25 0 0 0-2.25-2.25h-5.379a1.5 1.5 0 0 1-1.06-.44Z" />
+        </svg>
+        {count ? `In ${count} ${count === 1 ? 'list' : 'lists'}` : 'Add to list'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-40 w-64 bg-white rounded-lg shadow-xl border border-slate-200 p-2 text-left">
+          {collections.length === 0 && <p className="px-2 py-1 text-xs text-slate-400">No lists yet</p>}
+          <div className="max-h-60 overflow-y-auto">
+            {collections.map(collection => (
+              <label key={collection.id} className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-slate-50 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={hasEntry(collection, entryKey)}
+                  onChange={() => onToggle(collection.id)}
+                  className="accent-brand-600"
+                />
+                <span className="flex-1 truncate">{collection.name}</span>
+                <span className="text-xs text-slate-400">{collection.items.length}</span>
+              </label>
+            ))}
+          </div>
+          <form onSubmit={create} className="flex gap-1 mt-2 pt-2 border-t border-slate-100">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="New list..."
+              className="flex-1 min-w-0 px-2 py-1 text-sm rounded border border-slate-200 focus:border-brand-500 outline-none"
+            />
+            <button type="submit" disabled={!name.trim()} className="text-xs font-semibold text-brand-600 hover:text-brand-800 px-2 disabled:opacity-40">
+              Create
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
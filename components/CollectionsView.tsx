@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Collection, HistoryItem, SentenceData, WordData } from '../types';
+import { STUDY_MODES, StudyMode, collectionCsv, collectionFileName } from '../services/collections';
+import { downloadBlob } from '../services/download';
+
+interface CollectionsViewProps {
+  collections: Collection[];
+  onCreate: (name: string) => string; // Returns the new collection's id
+  onRename: (collectionId: string, name: string) => void;
+  onMove: (index: number, delta: -1 | 1) => void;
+  onDelete: (collectionId: string) => void;
+  onRemoveEntry: (collectionId: string, entry: HistoryItem) => void;
+  onOpenEntry: (entry: HistoryItem) => void;
+  onStudy: (collectionId: string, mode: StudyMode) => void;
+  onExportAnki: (collection: Collection) => void;
+}
+
+const iconButton = "p-1 rounded text-slate-400 hover:text-brand-600 hover:bg-brand-50 transition-colors disabled:opacity-30 disabled:pointer-events-none";
+
+// The gloss shown under an entry: English and Chinese headwords, or the sentence's translation
+const entryGloss = (entry: HistoryItem) => {
+  if (entry.type === 'word') {
+    const data = entry.data as WordData;
+    return [data.pronunciation.jp, data.coreWord.en, data.coreWord.zh].filter(Boolean).join(' · ');
+  }
+  return (entry.data as SentenceData).translations.en;
+};
+
+export const CollectionsView: React.FC<CollectionsViewProps> = ({
+  collections,
+  onCreate,
+  onRename,
+  onMove,
+  onDelete,
+  onRemoveEntry,
+  onOpenEntry,
+  onStudy,
+  onExportAnki,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+
+  const selected = collections.find(c => c.id === selectedId) ?? collections[0];
+  const wordCount = selected ? selected.items.filter(item => item.type === 'word').length : 0;
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setSelectedId(onCreate(newName));
+    setNewName('');
+  };
+
+  const rename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected && renaming?.trim()) onRename(selected.id, renaming);
+    setRenaming(null);
+  };
+
+  const remove = (collection: Collection) => {
+    if (!window.confirm(`Delete the list "${collection.name}"? The entries stay in your history.`)) return;
+    onDelete(collection.id);
+  };
+
+  const exportCsv = (collection: Collection) => {
+    downloadBlob(new Blob([collectionCsv(collection)], { type: 'text/csv;charset=utf-8' }), collectionFileName(collection, 'csv'));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+      <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Study lists</h2>
+        <form onSubmit={create} className="flex gap-2">
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            placeholder="New list, e.g. Lesson 3"
+            className="px-3 py-1.5 text-sm rounded-lg border border-slate-200 focus:border-brand-500 outline-none"
+          />
+          <button type="submit" disabled={!newName.trim()} className="px-3 py-1.5 text-sm font-semibold bg-brand-600 hover:bg-brand-500 text-white rounded-lg disabled:opacity-40 transition-colors">
+            Create
+          </button>
+        </form>
+      </div>
+
+      {collections.length === 0 ? (
+        <div className="p-12 text-center text-slate-500">
+          <p className="text-xl font-serif text-slate-700 mb-2">No lists yet</p>
+          <p className="text-sm">Create a list here, or use <b>Add to list</b> on any word or sentence result.</p>
+        </div>
+      ) : (
+        <div className="flex flex-col md:flex-row">
+          {/* Lists, in the user's order */}
+          <ol className="md:w-64 shrink-0 border-b md:border-b-0 md:border-r border-slate-100 p-2 space-y-1">
+            {collections.map((collection, index) => (
+              <li key={collection.id} className={`flex items-center gap-1 rounded-lg ${collection.id === selected?.id ? 'bg-brand-50' : 'hover:bg-slate-50'}`}>
+                <button
+                  onClick={() => { setSelectedId(collection.id); setRenaming(null); }}
+                  className={`flex-1 min-w-0 text-left px-3 py-2 text-sm truncate ${collection.id === selected?.id ? 'text-brand-700 font-semibold' : 'text-slate-700'}`}
+                >
+                  {collection.name}
+                  <span className="ml-2 text-xs font-normal text-slate-400">{collection.items.length}</span>
+                </button>
+                <button onClick={() => onMove(index, -1)} disabled={index === 0} className={iconButton} title="Move up">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m4.5 15.75 7.5-7.5 7.5 7.5" />
+                  </svg>
+                </button>
+                <button onClick={() => onMove(index, 1)} disabled={index === collections.length - 1} className={iconButton} title="Move down">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3.5 h-3.5">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {selected && (
+            <div className="flex-1 min-w-0 p-4 md:p-6 space-y-5">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                {renaming !== null ? (
+                  <form onSubmit={rename} className="flex gap-2">
+                    <input
+                      autoFocus
+                      value={renaming}
+                      onChange={e => setRenaming(e.target.value)}
+                      onKeyDown={e => e.key === 'Escape' && setRenaming(null)}
+                      className="px-3 py-1.5 text-lg rounded-lg border border-slate-200 focus:border-brand-500 outline-none"
+                    />
+                    <button type="submit" className="text-xs font-semibold text-brand-600 hover:text-brand-800">Save</button>
+                  </form>
+                ) : (
+                  <h3 className="text-xl font-serif text-slate-800">{selected.name}</h3>
+                )}
+                <div className="flex gap-3 text-xs font-semibold">
+                  <button onClick={() => setRenaming(selected.name)} className="text-slate-500 hover:text-brand-600">Rename</button>
+                  <button onClick={() => exportCsv(selected)} disabled={!selected.items.length} className="text-slate-500 hover:text-brand-600 disabled:opacity-40">Export CSV</button>
+                  <button onClick={() => onExportAnki(selected)} disabled={!wordCount} className="text-slate-500 hover:text-brand-600 disabled:opacity-40">Export Anki</button>
+                  <button onClick={() => remove(selected)} className="text-red-500 hover:text-red-700">Delete</button>
+                </div>
+              </div>
+
+              {/* Study this list in any of the study modes */}
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mr-1">Study this list</span>
+                {STUDY_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => onStudy(selected.id, mode)}
+                    disabled={!wordCount}
+                    className="text-xs px-3 py-1 rounded-full border bg-white text-slate-600 border-slate-200 hover:border-brand-300 hover:text-brand-600 disabled:opacity-40 transition-colors"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {selected.items.length === 0 ? (
+                <p className="text-sm text-slate-400">This list is empty. Use <b>Add to list</b> on a word or sentence result to fill it.</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+                  {selected.items.map(entry => (
+                    <li key={entry.id} className="flex items-center gap-3 px-4 py-2.5">
+                      <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${entry.type === 'word' ? 'bg-brand-50 text-brand-700' : 'bg-slate-100 text-slate-500'}`}>
+                        {entry.type}
+                      </span>
+                      <button onClick={() => onOpenEntry(entry)} className="flex-1 min-w-0 text-left group">
+                        <span className="block font-serif text-slate-800 truncate group-hover:text-brand-600">{entry.label}</span>
+                        <span className="block text-xs text-slate-400 truncate">{entryGloss(entry)}</span>
+                      </button>
+                      <button onClick={() => onRemoveEntry(selected.id, entry)} className={iconButton} title="Remove from list">
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { Collection, HistoryItem, SentenceData } from '../types';
+import { DocumentAnalysis as DocumentData, DocumentSentence, combinedVocabulary } from '../services/document';
+import { SentenceAnalysis } from './SentenceAnalysis';
+import { ReaderView } from './ReaderView';
+import { ErrorMessage } from './ErrorMessage';
+import { SkeletonLines } from './Skeleton';
+
+interface DocumentAnalysisProps {
+  data: DocumentData;
+  history: HistoryItem[];
+  onWordClick: (word: string) => void;
+  onSaveWord: (word: string) => Promise<void>;
+  onRetrySentence: (index: number) => void;
+  collections: Collection[];
+  onToggleCollection: (collectionId: string, data: SentenceData) => void;
+  onCreateCollection: (name: string, data: SentenceData) => void;
+}
+
+type DocumentView = 'sentences' | 'reader';
+
+const StatusIcon: React.FC<{ status: DocumentSentence['status'] }> = ({ status }) => {
+  if (status === 'done') {
+    return (
+      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4 text-emerald-500 shrink-0">
+        <path strokeLinecap="round" strokeLinejoin="round" d="m4.5 12.75 6 6 9-13.5" />
+      </svg>
+    );
+  }
+  if (status === 'error') {
+    return (
+      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4 text-red-500 shrink-0">
+        <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m0 3.75h.008v.008H12v-.008ZM21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+      </svg>
+    );
+  }
+  return <span className={`w-2.5 h-2.5 m-[3px] rounded-full shrink-0 ${status === 'analyzing' ? 'bg-brand-400 animate-pulse' : 'bg-slate-300'}`} />;
+};
+
+export const DocumentAnalysis: React.FC<DocumentAnalysisProps> = ({ data, history, onWordClick, onSaveWord, onRetrySentence, collections, onToggleCollection, onCreateCollection }) => {
+  const [view, setView] = useState<DocumentView>('sentences');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const vocabulary = useMemo(() => combinedVocabulary(data.sentences), [data.sentences]);
+
+  const total = data.sentences.length;
+  const done = data.sentences.filter(s => s.status === 'done').length;
+  const failed = data.sentences.filter(s => s.status === 'error').length;
+  const finished = done + failed;
+
+  const toggle = (index: number) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  });
+
+  return (
+    <div className="space-y-6">
+
+      {/* Progress */}
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex flex-wrap justify-between items-center gap-2">
+          <div className="flex items-center gap-4">
+            <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Document</h2>
+            <div className="bg-slate-200/60 p-0.5 rounded-md inline-flex">
+              {(['sentences', 'reader'] as DocumentView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 rounded text-xs font-medium capitalize transition-all ${view === option ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+          <span className="text-sm text-slate-600">
+            {finished < total ? `Analyzing ${finished + 1} of ${total} sentences` : `${done} of ${total} sentences analyzed`}
+            {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+          </span>
+        </div>
+        <div className="h-1.5 bg-slate-100 flex">
+          <div className="bg-brand-500 transition-all" style={{ width: `${(done / total) * 100}%` }} />
+          <div className="bg-red-400 transition-all" style={{ width: `${(failed / total) * 100}%` }} />
+        </div>
+
+        {view === 'reader' ? (
+          <div className="p-6 md:p-8">
+            <ReaderView data={data} history={history} onWordClick={onWordClick} onSaveWord={onSaveWord} />
+          </div>
+        ) : (
+        /* Sentences */
+        <ol className="divide-y divide-slate-100">
+          {data.sentences.map((sentence, index) => (
+            <li key={index}>
+              <button
+                onClick={() => toggle(index)}
+                disabled={sentence.status === 'pending'}
+                className="w-full text-left px-4 md:px-8 py-3 flex items-center gap-3 hover:bg-slate-50 disabled:hover:bg-transparent transition-colors"
+                aria-expanded={expanded.has(index)}
+              >
+                <span className="text-xs text-slate-400 w-6 text-right shrink-0">{index + 1}</span>
+                <StatusIcon status={sentence.status} />
+                <span className="flex-1 font-serif text-slate-800">{sentence.text}</span>
+                {sentence.status !== 'pending' && (
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className={`w-4 h-4 text-slate-400 shrink-0 transition-transform ${expanded.has(index) ? 'rotate-180' : ''}`}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
+                  </svg>
+                )}
+              </button>
+              {expanded.has(index) && (
+                <div className="px-4 md:px-8 pb-6">
+                  {sentence.status === 'done' && sentence.data && (
+                    <SentenceAnalysis
+                      data={sentence.data}
+                      onWordClick={onWordClick}
+                      collections={collections}
+                      onToggleCollection={id => onToggleCollection(id, sentence.data!)}
+                      onCreateCollection={name => onCreateCollection(name, sentence.data!)}
+                    />
+                  )}
+                  {sentence.status === 'error' && sentence.error && (
+                    <ErrorMessage error={sentence.error} onRetry={() => onRetrySentence(index)} />
+                  )}
+                  {sentence.status === 'analyzing' && <SkeletonLines lines={3} />}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+        )}
+      </div>
+
+      {/* Combined vocabulary */}
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+          <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Vocabulary</h2>
+          <span className="text-sm text-slate-500">{vocabulary.length} words</span>
+        </div>
+        {vocabulary.length === 0 ? (
+          <div className="p-6 md:px-8">
+            {finished < total ? <SkeletonLines lines={3} /> : <p className="text-sm text-slate-400">No vocabulary could be extracted.</p>}
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {vocabulary.map(entry => (
+              <button
+                key={`${entry.word}|${entry.reading ?? ''}`}
+                onClick={() => onWordClick(entry.word)}
+                className="w-full text-left px-4 md:px-8 py-2 flex items-baseline gap-3 hover:bg-slate-50 transition-colors group"
+                title="Open in dictionary"
+              >
+                <span className="text-lg font-serif font-bold text-slate-800 group-hover:text-brand-600">{entry.word}</span>
+                {entry.reading && <span className="text-sm text-slate-500">{entry.reading}</span>}
+                <span className="text-[10px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded uppercase font-semibold">{entry.partOfSpeech}</span>
+                <span className="ml-auto text-sm text-slate-600 text-right">
+                  {typeof entry.meaning === 'string' ? entry.meaning : entry.meaning.en}
+                </span>
+                <span className="text-xs text-slate-400 w-16 text-right shrink-0" title={`Sentences ${entry.sentences.map(i => i + 1).join(', ')}`}>
+                  {entry.sentences.length > 1 ? `${entry.sentences.length} sentences` : `#${entry.sentences[0] + 1}`}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryItem } from '../types';
+import {
+  DrillItem,
+  FormStats,
+  PITCH_LABEL,
+  PitchDrillItem,
+  checkDrillAnswer,
+  clearDrillStats,
+  drillItems,
+  loadDrillStats,
+  pitchDrillItems,
+  recordDrillAnswer,
+} from '../services/drill';
+import { shuffle } from '../services/quiz';
+import { describeAccent } from '../services/pitch';
+import { PitchDiagram } from './PitchDiagram';
+
+interface DrillSessionProps {
+  history: HistoryItem[];
+}
+
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1 rounded-full border transition-colors ${active ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-300'}`;
+
+const labelOf = (item: DrillItem | PitchDrillItem) => item.kind === 'pitch' ? PITCH_LABEL : item.statsLabel;
+
+const percent = (correct: number, attempts: number) => attempts ? Math.round((correct / attempts) * 100) : 0;
+
+export const DrillSession: React.FC<DrillSessionProps> = ({ history }) => {
+  const formItems = useMemo(() => drillItems(history), [history]);
+  const pitchItems = useMemo(() => pitchDrillItems(history), [history]);
+  const items: (DrillItem | PitchDrillItem)[] = useMemo(() => [...formItems, ...pitchItems], [formItems, pitchItems]);
+  const labels = useMemo(() => [...new Set(items.map(labelOf))], [items]);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [queue, setQueue] = useState<(DrillItem | PitchDrillItem)[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [value, setValue] = useState('');
+  const [picked, setPicked] = useState<number | null>(null); // Downstep chosen in a pitch question
+  const [result, setResult] = useState<boolean | null>(null);
+  const [session, setSession] = useState({ attempts: 0, correct: 0 });
+  const [stats, setStats] = useState<Record<string, FormStats>>(loadDrillStats);
+
+  const flagged = formItems.filter(item => item.expected);
+  const current = queue?.[index];
+
+  const start = () => {
+    setQueue(shuffle(items.filter(item => !excluded.includes(labelOf(item)))));
+    setIndex(0);
+    setValue('');
+    setPicked(null);
+    setResult(null);
+    setSession({ attempts: 0, correct: 0 });
+  };
+
+  const check = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    if (result !== null) {
+      // Enter again moves on, so the drill can be done without the mouse
+      setIndex(i => i + 1);
+      setValue('');
+      setPicked(null);
+      setResult(null);
+      return;
+    }
+    if (current.kind === 'form' && value.trim()) record(checkDrillAnswer(current, value));
+  };
+
+  const record = (correct: boolean) => {
+    if (!current) return;
+    setResult(correct);
+    setSession(prev => ({ attempts: prev.attempts + 1, correct: prev.correct + (correct ? 1 : 0) }));
+    setStats(recordDrillAnswer(labelOf(current), correct));
+  };
+
+  const pickPitch = (item: PitchDrillItem, downstep: number) => {
+    if (result !== null) return;
+    setPicked(downstep);
+    record(item.answers.includes(downstep));
+  };
+
+  const resetStats = () => {
+    if (!window.confirm("Delete all recorded drill stats?")) return;
+    clearDrillStats();
+    setStats({});
+  };
+
+  const statRows = Object.entries(stats).sort(([, a], [, b]) => percent(a.correct, a.attempts) - percent(b.correct, b.attempts));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+        <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex items-center justify-between gap-4">
+          <span className="text-sm text-slate-500">
+            {queue && current ? <>Form <b className="text-slate-800">{index + 1}</b> of {queue.length}</> : 'Conjugation drill'}
+          </span>
+          {queue && (
+            <span className="text-sm text-slate-500">
+              <b className="text-slate-800">{session.correct}</b> / {session.attempts} correct
+            </span>
+          )}
+        </div>
+
+        {!queue ? (
+          <div className="p-6 md:p-8 space-y-5">
+            {items.length === 0 ? (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                The drill uses the conjugation tables of verbs and adjectives and the pitch accent of Japanese words in your history. Look up a few to get started.
+              </p>
+            ) : (
+              <div>
+                <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Forms</span>
+                <div className="flex flex-wrap gap-2">
+                  {labels.map(label => (
+                    <button
+                      key={label}
+                      onClick={() => setExcluded(excluded.includes(label) ? excluded.filter(l => l !== label) : [...excluded, label])}
+                      className={chipClass(!excluded.includes(label))}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {flagged.length > 0 && (
+              <details className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                <summary className="cursor-pointer font-semibold">
+                  {flagged.length} generated {flagged.length === 1 ? 'form disagrees' : 'forms disagree'} with the built-in conjugator
+                </summary>
+                <ul className="mt-2 space-y-1">
+                  {flagged.map(item => (
+                    <li key={item.id}>
+                      {item.dictionary} · {item.label}: <b>{item.modelValue}</b> (expected {item.expected!.join(' / ')})
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            <button
+              onClick={start}
+              disabled={!items.some(item => !excluded.includes(labelOf(item)))}
+              className="px-8 py-3 bg-brand-600 hover:bg-brand-500 text-white font-semibold rounded-xl shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Start drill
+            </button>
+          </div>
+        ) : current?.kind === 'pitch' ? (
+          <form onSubmit={check} className="p-6 md:p-10 flex flex-col gap-6 items-center">
+            <div className="text-center">
+              <p className="text-4xl font-bold font-serif text-slate-800">{current.dictionary}</p>
+              {current.reading !== current.dictionary && <p className="text-slate-500 mt-1">{current.reading}</p>}
+            </div>
+            <span className="px-4 py-1 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-200 font-semibold text-sm">Where does the pitch fall?</span>
+            <div className="flex flex-wrap justify-center gap-3">
+              {Array.from({ length: current.moraCount + 1 }, (_, downstep) => {
+                const isAnswer = current.answers.includes(downstep);
+                const state = result === null ? '' : isAnswer ? 'border-emerald-400 bg-emerald-50' : picked === downstep ? 'border-red-400 bg-red-50' : 'opacity-50';
+                return (
+                  <button
+                    key={downstep}
+                    type="button"
+                    onClick={() => pickPitch(current, downstep)}
+                    className={`flex flex-col items-center gap-1 px-3 py-2 rounded-lg border border-slate-200 hover:border-brand-300 transition-colors ${state}`}
+                  >
+                    <PitchDiagram accent={{ reading: current.reading, downstep }} className="text-brand-600" />
+                    <span className="text-xs text-slate-500">{describeAccent({ reading: current.reading, downstep })}</span>
+                  </button>
+                );
+              })}
+            </div>
+            {result !== null && (
+              <>
+                <p className={`text-sm ${result ? 'text-emerald-700' : 'text-red-600'}`}>
+                  {result ? 'Correct' : 'Not quite'} · {current.source === 'dictionary' ? 'checked against the bundled accent dictionary' : 'as given by the model (not in the bundled dictionary)'}
+                </p>
+                <button type="submit" autoFocus className="px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-semibold text-sm">
+                  {index + 1 < queue.length ? 'Next' : 'Finish'}
+                </button>
+              </>
+            )}
+          </form>
+        ) : current ? (
+          <form onSubmit={check} className="p-6 md:p-10 flex flex-col gap-6 items-center">
+            <p className="text-xs text-slate-400 uppercase tracking-wider">{current.partOfSpeech}</p>
+            <div className="text-center">
+              <p className="text-4xl font-bold font-serif text-slate-800">{current.dictionary}</p>
+              {current.reading && current.reading !== current.dictionary && <p className="text-slate-500 mt-1">{current.reading}</p>}
+            </div>
+            <span className="px-4 py-1 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-200 font-semibold text-sm">{current.label}</span>
+            <div className="flex gap-2 w-full max-w-md">
+              <input
+                value={value}
+                onChange={e => setValue(e.target.value)}
+                readOnly={result !== null}
+                autoFocus
+                lang="ja"
+                placeholder="Type in kana, kanji or romaji"
+                className={`flex-1 px-4 py-2 rounded-lg border outline-none font-serif text-lg ${result === null ? 'border-slate-200 focus:border-brand-500' : result ? 'border-emerald-400 bg-emerald-50' : 'border-red-400 bg-red-50'}`}
+              />
+              <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-semibold text-sm">
+                {result === null ? 'Check' : index + 1 < queue.length ? 'Next' : 'Finish'}
+              </button>
+            </div>
+            {result !== null && (
+              <p className={`text-sm ${result ? 'text-emerald-700' : 'text-red-600'}`}>
+                {result ? 'Correct: ' : 'Answer: '}<b className="font-serif">{current.modelValue}</b>
+              </p>
+            )}
+            {result !== null && current.expected && (
+              <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 max-w-md text-center">
+                The built-in conjugator expects {current.expected.join(' / ')}. Both are accepted.
+              </p>
+            )}
+          </form>
+        ) : (
+          <div className="p-12 text-center">
+            <p className="text-4xl font-bold text-slate-800 mb-2">{session.correct} / {session.attempts}</p>
+            <p className="text-slate-500 text-sm mb-6">forms answered correctly</p>
+            <button onClick={() => setQueue(null)} className="px-6 py-2 bg-brand-600 hover:bg-brand-500 text-white font-semibold rounded-lg transition-colors">
+              New drill
+            </button>
+          </div>
+        )}
+      </div>
+
+      {statRows.length > 0 && (
+        <div className="bg-white rounded-xl shadow border border-slate-200 overflow-hidden">
+          <div className="px-4 md:px-8 py-3 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Accuracy by form</span>
+            <button onClick={resetStats} className="text-xs font-semibold text-red-500 hover:text-red-700">Reset stats</button>
+          </div>
+          <table className="w-full text-sm">
+            <tbody>
+              {statRows.map(([label, stat]) => {
+                const accuracy = percent(stat.correct, stat.attempts);
+                return (
+                  <tr key={label} className="border-t border-slate-100 first:border-t-0">
+                    <td className="px-4 md:px-8 py-2 font-semibold text-slate-700">{label}</td>
+                    <td className="px-4 py-2 w-1/2">
+                      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${accuracy < 50 ? 'bg-red-400' : accuracy < 80 ? 'bg-amber-400' : 'bg-emerald-500'}`}
+                          style={{ width: `${accuracy}%` }}
+                        />
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right text-slate-500 whitespace-nowrap">{accuracy}% · {stat.correct}/{stat.attempts}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
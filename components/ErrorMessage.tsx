@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { LexiconError, LexiconErrorKind, QuotaExceededError } from '../services/errors';
+
+interface ErrorMessageProps {
+  error: LexiconError;
+  onRetry: () => void;
+}
+
+// Used when a quota error doesn't say how long to wait
+const DEFAULT_QUOTA_WAIT_MS = 30_000;
+
+const COPY: Record<LexiconErrorKind, { title: string; hint: string }> = {
+  'missing-key': {
+    title: "API key problem",
+    hint: "The Gemini API key is missing or invalid. Check the API_KEY setting (or the server configuration in proxy mode).",
+  },
+  'invalid-input': {
+    title: "Input not accepted",
+    hint: "Shorten or change the text and search again.",
+  },
+  quota: {
+    title: "Rate limit reached",
+    hint: "Too many requests in a short time. You can try again once the timer runs out.",
+  },
+  safety: {
+    title: "Blocked by safety filters",
+    hint: "The model declined to answer this input. Try rephrasing it.",
+  },
+  network: {
+    title: "Connection problem",
+    hint: "The language service could not be reached. Check your connection and try again.",
+  },
+  malformed: {
+    title: "Unexpected response",
+    hint: "The model returned an answer we couldn't read. Trying again usually helps.",
+  },
+  unknown: {
+    title: "Unable to analyze",
+    hint: "Something went wrong. Please try again.",
+  },
+};
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry }) => {
+  const waitMs = error instanceof QuotaExceededError ? (error.retryAfterMs ?? DEFAULT_QUOTA_WAIT_MS) : 0;
+  const [secondsLeft, setSecondsLeft] = useState(Math.ceil(waitMs / 1000));
+
+  useEffect(() => {
+    const deadline = Date.now() + waitMs;
+    setSecondsLeft(Math.ceil(waitMs / 1000));
+    if (!waitMs) return;
+
+    const timer = setInterval(() => {
+      const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [error, waitMs]);
+
+  const { title, hint } = COPY[error.kind];
+  // Missing keys, rejected input and safety blocks won't change by asking again
+  const canRetry = error.kind !== 'missing-key' && error.kind !== 'invalid-input' && error.kind !== 'safety';
+
+  return (
+    <div className="bg-red-50 text-red-600 p-6 rounded-xl border border-red-100 text-center shadow-sm">
+      <p className="font-bold mb-1">{title}</p>
+      <p className="text-sm text-red-500">{hint}</p>
+      {error.kind !== 'quota' && error.kind !== 'unknown' && (
+        <p className="text-xs text-red-400 mt-2 font-mono break-words">{error.message}</p>
+      )}
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          disabled={secondsLeft > 0}
+          className="mt-4 px-5 py-2 bg-white border border-red-200 text-red-600 rounded-lg text-sm font-medium hover:bg-red-100 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+        >
+          {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Try again'}
+        </button>
+      )}
+    </div>
+  );
+};
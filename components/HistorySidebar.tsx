@@ -1,27 +1,199 @@
-import React from 'react';
-import { HistoryItem, WordData, SentenceData } from '../types';
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { HistoryItem, WordData, SentenceData, KanjiData } from '../types';
 import { AdUnit } from './AdUnit';
+import { LEVEL_SCALES, LevelFilter, levelLabel, matchesLevel } from '../services/levels';
+import { DATE_RANGES, DateRange, HistoryType, allTags, matchesDateRange, matchesSearch, normalizeTags } from '../services/history';
+import { SyncState, syncEngine } from '../services/sync';
 
 interface HistorySidebarProps {
   history: HistoryItem[];
   onSelect: (item: HistoryItem) => void;
+  onDelete: (ids: string[]) => void;
+  onUpdate: (id: string, changes: Partial<Pick<HistoryItem, 'pinned' | 'tags'>>) => void;
+  deletedCount: number; // Entries in the undo window
+  onUndoDelete: () => void;
   onExport: () => void;
+  onExportAnki: () => void;
+  onBackup: () => void;
+  onSyncSettings: () => void;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export const HistorySidebar: React.FC<HistorySidebarProps> = ({ 
-  history, 
-  onSelect, 
+// Rows have a fixed height so only the visible ones need to be rendered
+const ROW_HEIGHT = 84;
+const OVERSCAN = 6;
+
+const TYPE_OPTIONS: { value: HistoryType | ''; label: string }[] = [
+  { value: '', label: 'All types' },
+  { value: 'word', label: 'Words' },
+  { value: 'sentence', label: 'Sentences' },
+  { value: 'kanji', label: 'Kanji' },
+];
+
+const selectClass = "flex-1 min-w-0 px-2 py-1.5 rounded-md border border-slate-200 bg-white text-xs text-slate-600 outline-none focus:border-brand-500";
+
+const summary = (item: HistoryItem) =>
+  item.type === 'word'
+    ? (item.data as WordData).coreWord.en
+    : item.type === 'kanji'
+    ? `Kanji · ${(item.data as KanjiData).meanings.en}`
+    : (item.data as SentenceData).translations.en.slice(0, 30) + '...';
+
+const TagEditor: React.FC<{ item: HistoryItem; onChange: (tags: string[]) => void; onDone: () => void }> = ({ item, onChange, onDone }) => {
+  const [draft, setDraft] = useState('');
+  const tags = item.tags ?? [];
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return onDone();
+    onChange(normalizeTags([...tags, ...draft.split(',')]));
+    setDraft('');
+  };
+
+  return (
+    <form onSubmit={add} className="mx-4 mt-3 p-3 rounded-lg border border-brand-200 bg-brand-50/50 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-semibold text-slate-600 truncate">Tags for {item.label}</span>
+        <button type="button" onClick={onDone} className="text-xs font-semibold text-brand-600 hover:text-brand-700">Done</button>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600">
+              {tag}
+              <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="text-slate-400 hover:text-red-500" aria-label={`Remove tag ${tag}`}>×</button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        autoFocus
+        placeholder="Add tags, comma separated"
+        className="w-full px-2 py-1.5 rounded-md border border-slate-200 bg-white text-xs outline-none focus:border-brand-500"
+      />
+    </form>
+  );
+};
+
+const SYNC_DOT: Record<SyncState['status'], string> = {
+  off: 'bg-slate-300',
+  idle: 'bg-emerald-500',
+  syncing: 'bg-brand-500 animate-pulse',
+  offline: 'bg-amber-500',
+  error: 'bg-red-500',
+};
+
+const syncLabel = (state: SyncState) => {
+  const pending = (state.pending ? ` · ${state.pending} pending` : '') + (state.skipped ? ` · ${state.skipped} skipped` : '');
+  switch (state.status) {
+    case 'off': return 'Sync is off';
+    case 'syncing': return 'Syncing...';
+    case 'offline': return `Offline${pending}`;
+    case 'error': return `Sync failed${pending}`;
+    case 'idle': return state.lastSyncedAt
+      ? `Synced at ${new Date(state.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${pending}`
+      : `Waiting to sync${pending}`;
+  }
+};
+
+// Sync status for the footer, with the controls to sync now or change the settings
+const SyncStatusLine: React.FC<{ onSettings: () => void }> = ({ onSettings }) => {
+  const state = useSyncExternalStore(syncEngine.subscribe, syncEngine.getState);
+  return (
+    <div className="mb-3 flex items-center gap-2 text-xs text-slate-500" title={state.error ?? (state.skipped ? `${state.skipped} changes were left out: invalid ones from the server, or local ones it refused` : undefined)}>
+      <span className={`w-2 h-2 rounded-full shrink-0 ${SYNC_DOT[state.status]}`} />
+      <span className="flex-1 truncate">{syncLabel(state)}</span>
+      {state.status !== 'off' && (
+        <button onClick={() => syncEngine.sync()} disabled={state.status === 'syncing'} className="font-semibold text-brand-600 hover:text-brand-800 disabled:opacity-40">
+          Sync now
+        </button>
+      )}
+      <button onClick={onSettings} className="font-semibold text-slate-500 hover:text-brand-600">
+        {state.status === 'off' ? 'Set up' : 'Settings'}
+      </button>
+    </div>
+  );
+};
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  history,
+  onSelect,
+  onDelete,
+  onUpdate,
+  deletedCount,
+  onUndoDelete,
   onExport,
+  onExportAnki,
+  onBackup,
+  onSyncSettings,
   isOpen,
   onClose
 }) => {
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<HistoryType | ''>('');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [levelFilter, setLevelFilter] = useState<LevelFilter | ''>('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [editingTags, setEditingTags] = useState<string | null>(null);
+
+  // Virtual scrolling
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const observer = new ResizeObserver(() => setViewportHeight(list.clientHeight));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  const tags = useMemo(() => allTags(history), [history]);
+  const visible = useMemo(() => {
+    const now = Date.now();
+    const matching = history.filter(item =>
+      (!typeFilter || item.type === typeFilter) &&
+      matchesDateRange(item, dateRange, now) &&
+      (!levelFilter || matchesLevel(item, levelFilter)) &&
+      (!tagFilter || item.tags?.includes(tagFilter)) &&
+      matchesSearch(item, search));
+    // Pinned entries first, each group keeps its newest-first order
+    return [...matching.filter(item => item.pinned), ...matching.filter(item => !item.pinned)];
+  }, [history, typeFilter, dateRange, levelFilter, tagFilter, search]);
+
+  const filtered = Boolean(search.trim() || typeFilter || dateRange !== 'all' || levelFilter || tagFilter);
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visible.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const editingItem = editingTags ? history.find(item => item.id === editingTags) : undefined;
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const deleteSelected = () => {
+    onDelete([...selected]);
+    stopSelecting();
+  };
+
   return (
     <>
       {/* Mobile Overlay */}
       {isOpen && (
-        <div 
+        <div
           className="fixed inset-0 bg-black/50 z-40 lg:hidden"
           onClick={onClose}
         />
@@ -29,8 +201,8 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({
 
       {/* Sidebar */}
       <div className={`
-        fixed top-0 left-0 h-full w-72 bg-white shadow-2xl transform transition-transform duration-300 ease-in-out z-50
-        lg:transform-none lg:static lg:w-80 lg:shadow-none lg:border-r lg:border-slate-200 lg:h-screen lg:flex lg:flex-col
+        fixed top-0 left-0 h-full w-72 bg-white shadow-2xl transform transition-transform duration-300 ease-in-out z-50 flex flex-col
+        lg:transform-none lg:static lg:w-80 lg:shadow-none lg:border-r lg:border-slate-200 lg:h-screen
         ${isOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'}
       `}>
         <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
@@ -39,6 +211,7 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.042A8.967 8.967 0 0 0 6 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 0 1 6 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 0 1 6-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0 0 18 18a8.967 8.967 0 0 0-6 2.292m0-14.25v14.25" />
             </svg>
             Study History
+            {history.length > 0 && <span className="text-xs font-normal text-slate-400">{history.length}</span>}
           </h2>
           <button onClick={onClose} className="lg:hidden text-slate-400 hover:text-slate-600">
             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
@@ -47,35 +220,146 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({
           </button>
         </div>
 
-        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 flex flex-col gap-2">
+        {history.length > 0 && (
+          <div className="px-4 pt-4 space-y-2">
+            <input
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search words, definitions, tags..."
+              className="w-full px-3 py-2 rounded-md border border-slate-200 bg-white text-sm text-slate-700 outline-none focus:border-brand-500"
+              aria-label="Search history"
+            />
+            <div className="flex gap-2">
+              <select value={typeFilter} onChange={e => setTypeFilter(e.target.value as HistoryType | '')} className={selectClass} aria-label="Filter by type">
+                {TYPE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <select value={dateRange} onChange={e => setDateRange(e.target.value as DateRange)} className={selectClass} aria-label="Filter by date">
+                {DATE_RANGES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={levelFilter}
+                onChange={e => setLevelFilter(e.target.value as LevelFilter | '')}
+                className={selectClass}
+                aria-label="Filter by level"
+              >
+                <option value="">All levels</option>
+                {LEVEL_SCALES.map(({ scale, label, levels }) => (
+                  <optgroup key={scale} label={label}>
+                    {levels.map(level => <option key={level} value={`${scale}:${level}`}>{levelLabel(scale, level)}</option>)}
+                  </optgroup>
+                ))}
+              </select>
+              {tags.length > 0 && (
+                <select value={tagFilter} onChange={e => setTagFilter(e.target.value)} className={selectClass} aria-label="Filter by tag">
+                  <option value="">All tags</option>
+                  {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                </select>
+              )}
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              {selecting ? (
+                <>
+                  <button onClick={() => setSelected(new Set(visible.map(item => item.id)))} className="font-semibold text-brand-600 hover:text-brand-700">
+                    Select all {visible.length}
+                  </button>
+                  <div className="flex gap-3">
+                    <button onClick={deleteSelected} disabled={!selected.size} className="font-semibold text-red-500 hover:text-red-700 disabled:opacity-40">
+                      Delete {selected.size || ''}
+                    </button>
+                    <button onClick={stopSelecting} className="font-semibold text-slate-500 hover:text-slate-700">Cancel</button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <span className="text-slate-400">{filtered ? `${visible.length} of ${history.length}` : ''}</span>
+                  <button onClick={() => setSelecting(true)} className="font-semibold text-slate-500 hover:text-slate-700">Select</button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {editingItem && (
+          <TagEditor item={editingItem} onChange={tags => onUpdate(editingItem.id, { tags })} onDone={() => setEditingTags(null)} />
+        )}
+
+        <div
+          ref={listRef}
+          onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+          className="flex-1 overflow-y-auto custom-scrollbar p-4"
+        >
           {history.length === 0 ? (
             <div className="text-center text-slate-400 mt-10 text-sm min-h-[200px] flex flex-col justify-center">
               <p>No history yet.</p>
               <p>Start searching!</p>
             </div>
+          ) : visible.length === 0 ? (
+            <div className="text-center text-slate-400 mt-10 text-sm">
+              <p>No matching entries.</p>
+            </div>
           ) : (
-            history.map((item) => (
-              <button
-                key={item.id}
-                onClick={() => {
-                  onSelect(item);
-                  if (window.innerWidth < 1024) onClose();
-                }}
-                className="w-full text-left p-3 rounded-lg hover:bg-slate-50 hover:border-brand-200 border border-transparent transition-all group shrink-0"
-              >
-                <div className="flex justify-between items-center mb-1">
-                  <span className="font-bold text-slate-700 text-sm">{item.label}</span>
-                  <span className="text-[10px] text-slate-400">{new Date(item.timestamp).toLocaleDateString()}</span>
-                </div>
-                <div className="flex justify-between text-xs text-slate-500">
-                  <span>
-                    {item.type === 'word' 
-                      ? (item.data as WordData).coreWord.en 
-                      : (item.data as SentenceData).translations.en.slice(0, 30) + '...'}
-                  </span>
+            <div className="relative" style={{ height: visible.length * ROW_HEIGHT }}>
+              {visible.slice(first, last).map((item, i) => (
+                <div
+                  key={item.id}
+                  className="absolute left-0 right-0 flex items-stretch gap-1 group"
+                  style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT - 4 }}
+                >
+                  {selecting && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      className="self-center accent-brand-600"
+                      aria-label={`Select ${item.label}`}
+                    />
+                  )}
+                  <button
+                    onClick={() => {
+                      if (selecting) return toggleSelected(item.id);
+                      onSelect(item);
+                      if (window.innerWidth < 1024) onClose();
+                    }}
+                    className={`flex-1 min-w-0 text-left p-3 rounded-lg hover:bg-slate-50 hover:border-brand-200 border transition-all ${item.pinned ? 'border-brand-100 bg-brand-50/30' : 'border-transparent'}`}
+                  >
+                    <div className="flex justify-between items-center mb-1 gap-2">
+                      <span className="font-bold text-slate-700 text-sm truncate">{item.label}</span>
+                      <span className="text-[10px] text-slate-400 shrink-0">{new Date(item.timestamp).toLocaleDateString()}</span>
+                    </div>
+                    <div className="text-xs text-slate-500 truncate">{summary(item)}</div>
+                    {item.tags?.length ? (
+                      <div className="text-[10px] text-brand-600 truncate mt-1">{item.tags.map(tag => `#${tag}`).join(' ')}</div>
+                    ) : null}
+                  </button>
+                  {!selecting && (
+                    <div className="flex flex-col justify-center gap-1">
+                      <button
+                        onClick={() => onUpdate(item.id, { pinned: !item.pinned })}
+                        className={`p-1 rounded hover:bg-slate-100 ${item.pinned ? 'text-brand-600' : 'text-slate-300 opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                        title={item.pinned ? 'Unpin' : 'Pin to top'}
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill={item.pinned ? 'currentColor' : 'none'} strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0 1 11.186 0Z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => setEditingTags(item.id)}
+                        className="p-1 rounded hover:bg-slate-100 text-slate-300 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                        title="Edit tags"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M9.568 3H5.25A2.25 2.25 0 0 0 3 5.25v4.318c0 .597.237 1.17.659 1.591l9.581 9.581c.699.699 1.78.872 2.607.33a18.095 18.095 0 0 0 5.223-5.223c.542-.827.369-1.908-.33-2.607L11.16 3.66A2.25 2.25 0 0 0 9.568 3Z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 6h.008v.008H6V6Z" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
                 </div>
-              </button>
-            ))
+              ))}
+            </div>
           )}
 
           {/* Ad Space - Increased margins for better separation */}
@@ -84,8 +368,16 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({
           </div>
         </div>
 
+        {deletedCount > 0 && (
+          <div className="mx-4 mb-3 px-3 py-2 rounded-lg bg-slate-800 text-white text-xs flex justify-between items-center shadow-lg">
+            <span>{deletedCount === 1 ? '1 entry deleted' : `${deletedCount} entries deleted`}</span>
+            <button onClick={onUndoDelete} className="font-bold text-brand-300 hover:text-brand-200">Undo</button>
+          </div>
+        )}
+
         {/* Export Button Fixed Footer */}
         <div className="p-4 border-t border-slate-200 bg-slate-50">
+          <SyncStatusLine onSettings={onSyncSettings} />
           <button
             onClick={onExport}
             disabled={history.length === 0}
@@ -96,6 +388,25 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({
             </svg>
             Export CSV
           </button>
+          <button
+            onClick={onExportAnki}
+            disabled={!history.some(item => item.type === 'word')}
+            className="w-full mt-2 flex justify-center items-center gap-2 bg-white border border-slate-300 text-slate-700 py-2 px-4 rounded-md text-sm font-medium hover:bg-slate-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6.429 9.75 2.25 12l4.179 2.25m0-4.5 5.571 3 5.571-3m-11.142 0L2.25 7.5 12 2.25l9.75 5.25-4.179 2.25m0 0L21.75 12l-4.179 2.25m0 0 4.179 2.25L12 21.75 2.25 16.5l4.179-2.25m11.142 0-5.571 3-5.571-3" />
+            </svg>
+            Export Anki deck
+          </button>
+          <button
+            onClick={onBackup}
+            className="w-full mt-2 flex justify-center items-center gap-2 bg-white border border-slate-300 text-slate-700 py-2 px-4 rounded-md text-sm font-medium hover:bg-slate-100 transition-colors shadow-sm"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M20.25 7.5l-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5m8.25 3v6.75m0 0-3-3m3 3 3-3M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z" />
+            </svg>
+            Backup &amp; restore
+          </button>
           
           <div className="mt-4 text-center">
             <a 
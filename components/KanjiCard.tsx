@@ -0,0 +1,157 @@
+import React from 'react';
+import { KanjiData } from '../types';
+import { AudioButton } from './AudioButton';
+import { RefreshButton } from './RefreshButton';
+import { SkeletonLines } from './Skeleton';
+
+interface KanjiCardProps {
+  data: KanjiData;
+  onCompoundClick: (word: string) => void;
+  onRefresh?: () => void;
+  streaming?: boolean; // Entry is still arriving; empty sections show placeholders
+}
+
+const Fact: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="bg-white p-3 rounded-lg border border-slate-100 shadow-sm flex flex-col items-center text-center">
+    <span className="text-[10px] uppercase tracking-wider text-slate-400 font-bold mb-1">{label}</span>
+    <span className="text-lg font-medium text-slate-700">{children || '–'}</span>
+  </div>
+);
+
+const Readings: React.FC<{ label: string; readings: string[] }> = ({ label, readings }) => (
+  <div>
+    <h4 className="text-[10px] uppercase font-bold text-slate-400 mb-2">{label}</h4>
+    {readings.length === 0 ? <p className="text-sm text-slate-400">None</p> : (
+      <div className="flex flex-wrap gap-2">
+        {readings.map(reading => (
+          <span key={reading} className="inline-flex items-center gap-1 bg-white border border-slate-200 rounded-full pl-3 pr-1 py-0.5 text-lg font-serif text-slate-700">
+            {reading}
+            <AudioButton text={reading.replace(/[.\-]/g, '')} lang="jp" size="sm" />
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const KanjiCard: React.FC<KanjiCardProps> = ({ data, onCompoundClick, onRefresh, streaming = false }) => {
+  const hasReadings = Boolean(data.onyomi.length || data.kunyomi.length);
+  const hasMeanings = Boolean(data.meanings.jp || data.meanings.en || data.meanings.zh);
+  const { simplified, traditional, pinyin } = data.chinese;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+
+      {/* Header Section */}
+      <div className="p-6 md:p-8 border-b border-slate-100 bg-gradient-to-b from-slate-50 to-white">
+        {onRefresh && !streaming && (
+          <div className="flex justify-end -mt-2 mb-2">
+            <RefreshButton onClick={onRefresh} />
+          </div>
+        )}
+        <div className="flex flex-col md:flex-row items-center gap-6 md:gap-10">
+          <div className="w-40 h-40 shrink-0 flex items-center justify-center bg-white rounded-2xl border-2 border-slate-200 shadow-sm text-8xl font-serif font-bold text-slate-800">
+            {data.character}
+          </div>
+          <div className="flex-1 w-full space-y-3 text-center md:text-left">
+            {!hasMeanings && streaming ? <SkeletonLines lines={3} /> : (
+              <>
+                <p className="text-3xl text-slate-700 font-medium">{data.meanings.en}</p>
+                <p className="text-lg text-slate-600 font-serif">{data.meanings.jp}</p>
+                <p className="text-lg text-slate-600 font-serif">{data.meanings.zh}</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Content Grid */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-0">
+
+        {/* Left Column: Readings, structure and levels */}
+        <div className="p-6 md:p-8 space-y-8 border-b lg:border-b-0 lg:border-r border-slate-100">
+          <section className="space-y-4">
+            <h3 className="text-xs uppercase tracking-wider text-brand-600 font-bold flex items-center gap-2">
+              <span className="w-6 h-[1px] bg-brand-600"></span>
+              Readings / 読み
+            </h3>
+            {!hasReadings && streaming ? <SkeletonLines lines={2} /> : (
+              <>
+                <Readings label="On'yomi / 音読み" readings={data.onyomi} />
+                <Readings label="Kun'yomi / 訓読み" readings={data.kunyomi} />
+              </>
+            )}
+          </section>
+
+          <section className="bg-slate-50/50 p-6 rounded-xl border border-slate-100 space-y-4">
+            <h3 className="text-xs uppercase tracking-wider text-slate-600 font-bold">Structure / 構成</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <Fact label="Radical">
+                {data.radical.character && (
+                  <span title={data.radical.meaning}>
+                    <span className="font-serif">{data.radical.character}</span>
+                    {data.radical.meaning && <span className="block text-xs text-slate-400">{data.radical.meaning}</span>}
+                  </span>
+                )}
+              </Fact>
+              <Fact label="Strokes">{data.strokeCount || ''}</Fact>
+              <Fact label="JLPT">{data.jlpt}</Fact>
+              <Fact label="Grade">{data.grade}</Fact>
+            </div>
+            {data.components.length > 0 && (
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-[10px] uppercase font-bold text-slate-400">Components</span>
+                {data.components.map(component => (
+                  <span key={component} className="px-2 py-0.5 bg-white border border-slate-200 rounded text-lg font-serif text-slate-700">{component}</span>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="bg-slate-50/50 p-6 rounded-xl border border-slate-100">
+            <h3 className="text-xs uppercase tracking-wider text-slate-600 font-bold mb-4">Chinese / 中文</h3>
+            {!pinyin && streaming ? <SkeletonLines lines={1} /> : (
+              <div className="flex items-center gap-6 flex-wrap">
+                <div className="text-center">
+                  <span className="block text-[10px] uppercase font-bold text-slate-400">Simplified</span>
+                  <span className="text-3xl font-serif text-slate-800">{simplified || '–'}</span>
+                </div>
+                <div className="text-center">
+                  <span className="block text-[10px] uppercase font-bold text-slate-400">Traditional</span>
+                  <span className="text-3xl font-serif text-slate-800">{traditional || '–'}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xl text-slate-600">{pinyin}</span>
+                  {simplified && <AudioButton text={simplified} lang="zh" size="sm" />}
+                </div>
+              </div>
+            )}
+          </section>
+        </div>
+
+        {/* Right Column: Compounds */}
+        <div className="p-6 md:p-8 bg-slate-50/30">
+          <h3 className="text-xs uppercase tracking-wider text-indigo-600 font-bold mb-6 flex items-center gap-2">
+            <span className="w-6 h-[1px] bg-indigo-600"></span>
+            Common Compounds / 熟語
+          </h3>
+          {data.compounds.length === 0 && streaming && <SkeletonLines lines={4} />}
+          <div className="space-y-2">
+            {data.compounds.map(compound => (
+              <button
+                key={compound.word}
+                onClick={() => onCompoundClick(compound.word)}
+                className="w-full text-left bg-white p-3 rounded-lg border border-slate-200 hover:border-brand-300 hover:shadow-md transition-all flex items-baseline gap-3 group"
+                title="Open in dictionary"
+              >
+                <span className="text-xl font-serif font-bold text-slate-800 group-hover:text-brand-600">{compound.word}</span>
+                <span className="text-sm text-slate-500">{compound.reading}</span>
+                <span className="ml-auto text-sm text-slate-600 text-right">{compound.meaning}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
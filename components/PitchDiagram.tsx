@@ -0,0 +1,48 @@
+import React from 'react';
+import { PitchAccent } from '../types';
+import { morae, pitchLevels } from '../services/pitch';
+
+interface PitchDiagramProps {
+  accent: PitchAccent;
+  className?: string;
+}
+
+const STEP = 28;
+const HIGH_Y = 10;
+const LOW_Y = 30;
+
+// The usual line-over-kana drawing: a dot per mora at high or low pitch, and a hollow
+// dot for the particle that follows (high after heiban, low after odaka)
+export const PitchDiagram: React.FC<PitchDiagramProps> = ({ accent, className = '' }) => {
+  const kana = morae(accent.reading);
+  const levels = pitchLevels(accent.downstep, kana.length);
+  const points = [...levels.morae, levels.particle].map((high, i) => ({ x: STEP * i + STEP / 2, y: high ? HIGH_Y : LOW_Y }));
+  const width = STEP * points.length;
+
+  return (
+    <svg viewBox={`0 0 ${width} 62`} width={width} height={62} className={className} role="img" aria-label={`${accent.reading} [${accent.downstep}]`}>
+      <polyline
+        points={points.slice(0, -1).map(p => `${p.x},${p.y}`).join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+      />
+      <line
+        x1={points[points.length - 2].x} y1={points[points.length - 2].y}
+        x2={points[points.length - 1].x} y2={points[points.length - 1].y}
+        stroke="currentColor" strokeWidth={2} strokeDasharray="3 3"
+      />
+      {points.map((p, i) => (
+        <circle
+          key={i}
+          cx={p.x} cy={p.y} r={4}
+          fill={i < kana.length ? 'currentColor' : 'white'}
+          stroke="currentColor" strokeWidth={2}
+        />
+      ))}
+      {kana.map((mora, i) => (
+        <text key={i} x={STEP * i + STEP / 2} y={54} textAnchor="middle" className="fill-slate-700 text-sm font-serif">{mora}</text>
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { HistoryItem } from '../types';
+import {
+  BlankQuestion,
+  ChoiceQuestion,
+  LANG_LABELS,
+  MatchingQuestion,
+  QUIZ_DIRECTIONS,
+  QuizKind,
+  QuizLang,
+  QuizQuestion,
+  generateQuiz,
+  normalizeAnswer,
+  quizWords,
+  recordQuizAnswer,
+} from '../services/quiz';
+import { QuizTeacherView } from './QuizTeacherView';
+
+interface QuizSessionProps {
+  history: HistoryItem[];
+}
+
+const KINDS: { kind: QuizKind; label: string }[] = [
+  { kind: 'choice', label: 'Multiple choice' },
+  { kind: 'matching', label: 'Matching' },
+  { kind: 'blank', label: 'Fill in the blank' },
+];
+
+const directionKey = ([from, to]: [QuizLang, QuizLang]) => `${from}-${to}`;
+
+const chipClass = (active: boolean) =>
+  `text-xs px-3 py-1 rounded-full border transition-colors ${active ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-300'}`;
+
+// Reports, per word, whether it was answered correctly
+type AnswerHandler = (results: { wordId: string; correct: boolean }[]) => void;
+
+const ChoiceView: React.FC<{ question: ChoiceQuestion; onAnswer: AnswerHandler }> = ({ question, onAnswer }) => {
+  const [chosen, setChosen] = useState<number | null>(null);
+  const cue = question.source === 'synonym' ? `Which ${LANG_LABELS[question.to]} word is a synonym of this?`
+    : question.source === 'antonym' ? `Which ${LANG_LABELS[question.to]} word is an antonym of this?`
+    : question.source === 'definition' ? `Which ${LANG_LABELS[question.to]} word matches this ${LANG_LABELS[question.from]} definition?`
+    : `What is this in ${LANG_LABELS[question.to]}?`;
+
+  const choose = (index: number) => {
+    if (chosen !== null) return;
+    setChosen(index);
+    onAnswer([{ wordId: question.wordId, correct: index === question.answer }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-6 items-center">
+      <p className="text-xs text-slate-400 uppercase tracking-wider">{cue}</p>
+      <p className={`${question.source === 'definition' ? 'text-lg' : 'text-4xl font-bold font-serif'} text-slate-800 text-center`}>{question.prompt}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full max-w-xl">
+        {question.options.map((option, index) => {
+          const state = chosen === null ? '' : index === question.answer ? 'bg-emerald-50 border-emerald-400 text-emerald-800' : index === chosen ? 'bg-red-50 border-red-400 text-red-700' : 'opacity-50';
+          return (
+            <button
+              key={index}
+              onClick={() => choose(index)}
+              className={`border border-slate-200 rounded-lg px-4 py-3 text-left hover:border-brand-300 transition-colors ${state}`}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const MatchingView: React.FC<{ question: MatchingQuestion; onAnswer: AnswerHandler }> = ({ question, onAnswer }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [matched, setMatched] = useState<number[]>([]);
+  const [missed, setMissed] = useState<Set<number>>(new Set());
+  const [wrong, setWrong] = useState<number | null>(null);
+
+  const chooseRight = (pairIndex: number) => {
+    if (selected === null || matched.includes(pairIndex)) return;
+    if (pairIndex !== selected) {
+      setMissed(prev => new Set(prev).add(selected));
+      setWrong(pairIndex);
+      setTimeout(() => setWrong(null), 500);
+      return;
+    }
+    const next = [...matched, pairIndex];
+    setMatched(next);
+    setSelected(null);
+    if (next.length === question.pairs.length) {
+      // A word counts as correct when it was matched without a wrong attempt
+      onAnswer(question.pairs.map((pair, i) => ({ wordId: pair.wordId, correct: !missed.has(i) })));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 items-center">
+      <p className="text-xs text-slate-400 uppercase tracking-wider">
+        Match {LANG_LABELS[question.from]} with {LANG_LABELS[question.to]}
+      </p>
+      <div className="grid grid-cols-2 gap-6 w-full max-w-xl">
+        <div className="flex flex-col gap-2">
+          {question.pairs.map((pair, i) => (
+            <button
+              key={i}
+              onClick={() => !matched.includes(i) && setSelected(i)}
+              className={`border rounded-lg px-4 py-3 transition-colors ${matched.includes(i) ? 'bg-emerald-50 border-emerald-300 text-emerald-700' : selected === i ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-brand-300'}`}
+            >
+              {pair.left}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col gap-2">
+          {question.rightOrder.map(i => (
+            <button
+              key={i}
+              onClick={() => chooseRight(i)}
+              className={`border rounded-lg px-4 py-3 transition-colors ${matched.includes(i) ? 'bg-emerald-50 border-emerald-300 text-emerald-700' : wrong === i ? 'bg-red-50 border-red-400' : 'border-slate-200 hover:border-brand-300'}`}
+            >
+              {question.pairs[i].right}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BlankView: React.FC<{ question: BlankQuestion; onAnswer: AnswerHandler }> = ({ question, onAnswer }) => {
+  const [value, setValue] = useState('');
+  const [result, setResult] = useState<boolean | null>(null);
+
+  const check = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (result !== null || !value.trim()) return;
+    const correct = normalizeAnswer(value) === normalizeAnswer(question.answer);
+    setResult(correct);
+    onAnswer([{ wordId: question.wordId, correct }]);
+  };
+
+  return (
+    <form onSubmit={check} className="flex flex-col gap-6 items-center">
+      <p className="text-xs text-slate-400 uppercase tracking-wider">Fill in the blank</p>
+      <p className={`text-2xl text-slate-800 text-center ${question.lang === 'jp' ? 'font-serif' : ''}`}>{question.sentence}</p>
+      <p className="text-sm text-slate-500">{question.hint}</p>
+      <div className="flex gap-2 w-full max-w-md">
+        <input
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          disabled={result !== null}
+          autoFocus
+          className={`flex-1 px-4 py-2 rounded-lg border outline-none ${result === null ? 'border-slate-200 focus:border-brand-500' : result ? 'border-emerald-400 bg-emerald-50' : 'border-red-400 bg-red-50'}`}
+        />
+        {result === null && (
+          <button type="submit" className="px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white rounded-lg font-semibold text-sm">Check</button>
+        )}
+      </div>
+      {result === false && <p className="text-sm text-red-600">Answer: <b>{question.answer}</b></p>}
+    </form>
+  );
+};
+
+export const QuizSession: React.FC<QuizSessionProps> = ({ history }) => {
+  const [kinds, setKinds] = useState<QuizKind[]>(['choice', 'matching', 'blank']);
+  const [directions, setDirections] = useState<string[]>(QUIZ_DIRECTIONS.map(directionKey));
+  const [count, setCount] = useState(10);
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [answered, setAnswered] = useState(false);
+  const [results, setResults] = useState<{ wordId: string; correct: boolean }[]>([]);
+  const [showTeacher, setShowTeacher] = useState(false);
+
+  const words = quizWords(history);
+  const labels = new Map(words.map(word => [word.id, word.label]));
+
+  const start = () => {
+    setQuestions(generateQuiz(history, {
+      kinds,
+      directions: QUIZ_DIRECTIONS.filter(d => directions.includes(directionKey(d))),
+      count,
+    }));
+    setIndex(0);
+    setAnswered(false);
+    setResults([]);
+  };
+
+  const handleAnswer: AnswerHandler = (answers) => {
+    const kind = questions![index].kind;
+    answers.forEach(({ wordId, correct }) => recordQuizAnswer(wordId, labels.get(wordId) ?? wordId, kind, correct));
+    setResults(prev => [...prev, ...answers]);
+    setAnswered(true);
+  };
+
+  const next = () => {
+    setIndex(i => i + 1);
+    setAnswered(false);
+  };
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  if (showTeacher) return <QuizTeacherView onBack={() => setShowTeacher(false)} />;
+
+  const current = questions?.[index];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+      <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex items-center justify-between gap-4">
+        <span className="text-sm text-slate-500">
+          {questions && current ? <>Question <b className="text-slate-800">{index + 1}</b> of {questions.length}</> : 'Quiz'}
+        </span>
+        <button onClick={() => setShowTeacher(true)} className="text-xs font-semibold text-brand-600 hover:text-brand-800">
+          Teacher view
+        </button>
+      </div>
+
+      {!questions ? (
+        <div className="p-6 md:p-8 space-y-5">
+          <div>
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Exercises</span>
+            <div className="flex flex-wrap gap-2">
+              {KINDS.map(({ kind, label }) => (
+                <button key={kind} onClick={() => setKinds(toggle(kinds, kind))} className={chipClass(kinds.includes(kind))}>{label}</button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Directions</span>
+            <div className="flex flex-wrap gap-2">
+              {QUIZ_DIRECTIONS.map(direction => {
+                const key = directionKey(direction);
+                return (
+                  <button key={key} onClick={() => setDirections(toggle(directions, key))} className={chipClass(directions.includes(key))}>
+                    {LANG_LABELS[direction[0]]} → {LANG_LABELS[direction[1]]}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <label className="flex items-center gap-3 text-sm text-slate-600">
+            Questions
+            <select value={count} onChange={e => setCount(Number(e.target.value))} className="px-2 py-1 rounded border border-slate-200 bg-white">
+              {[5, 10, 20, 30].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          {words.length < 4 && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              Quizzes draw wrong answers from other words in your history. Look up at least 4 words to get started.
+            </p>
+          )}
+          <button
+            onClick={start}
+            disabled={words.length < 4 || !kinds.length || !directions.length}
+            className="px-8 py-3 bg-brand-600 hover:bg-brand-500 text-white font-semibold rounded-xl shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Start quiz
+          </button>
+        </div>
+      ) : current ? (
+        <div className="p-6 md:p-10 flex flex-col gap-8">
+          {current.kind === 'choice' && <ChoiceView key={index} question={current} onAnswer={handleAnswer} />}
+          {current.kind === 'matching' && <MatchingView key={index} question={current} onAnswer={handleAnswer} />}
+          {current.kind === 'blank' && <BlankView key={index} question={current} onAnswer={handleAnswer} />}
+          {answered && (
+            <button onClick={next} className="self-center px-8 py-2 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-lg transition-colors">
+              {index + 1 < questions.length ? 'Next' : 'See results'}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="p-12 text-center">
+          {questions.length === 0 ? (
+            <p className="text-slate-500 text-sm">Couldn't build any questions with these settings. Try more exercise types or directions.</p>
+          ) : (
+            <>
+              <p className="text-4xl font-bold text-slate-800 mb-2">
+                {results.filter(r => r.correct).length} / {results.length}
+              </p>
+              <p className="text-slate-500 text-sm mb-4">words answered correctly</p>
+              {results.some(r => !r.correct) && (
+                <p className="text-sm text-red-600 mb-6">
+                  Missed: {[...new Set(results.filter(r => !r.correct).map(r => labels.get(r.wordId) ?? r.wordId))].join('、')}
+                </p>
+              )}
+            </>
+          )}
+          <button onClick={() => setQuestions(null)} className="px-6 py-2 bg-brand-600 hover:bg-brand-500 text-white font-semibold rounded-lg transition-colors">
+            New quiz
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
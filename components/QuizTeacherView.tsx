@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { QuizKind, WordScore, clearQuizScores, loadQuizScores } from '../services/quiz';
+import { csvField } from '../services/collections';
+import { downloadBlob } from '../services/download';
+
+interface QuizTeacherViewProps {
+  onBack: () => void;
+}
+
+const KIND_LABELS: Record<QuizKind, string> = { choice: 'Choice', matching: 'Matching', blank: 'Blank' };
+
+const percent = (correct: number, attempts: number) => attempts ? Math.round((correct / attempts) * 100) : 0;
+
+export const QuizTeacherView: React.FC<QuizTeacherViewProps> = ({ onBack }) => {
+  const [scores, setScores] = useState<Record<string, WordScore>>(loadQuizScores);
+
+  // Most missed first; ties broken by how often the word was asked
+  const rows = Object.entries(scores).sort(([, a], [, b]) =>
+    percent(a.correct, a.attempts) - percent(b.correct, b.attempts) || b.attempts - a.attempts);
+
+  const exportScores = () => {
+    const header = "Word,Attempts,Correct,Accuracy,Choice,Matching,Blank,Last attempt\n";
+    const body = rows.map(([, score]) => [
+      csvField(score.label),
+      score.attempts,
+      score.correct,
+      `${percent(score.correct, score.attempts)}%`,
+      ...(['choice', 'matching', 'blank'] as QuizKind[]).map(kind => {
+        const k = score.byKind[kind];
+        return k ? `${k.correct}/${k.attempts}` : '';
+      }),
+      new Date(score.lastAttemptAt).toISOString(),
+    ].join(',')).join("\n");
+    downloadBlob(new Blob([header + body], { type: 'text/csv;charset=utf-8' }), "quiz_scores.csv");
+  };
+
+  const reset = () => {
+    if (!window.confirm("Delete all recorded quiz scores?")) return;
+    clearQuizScores();
+    setScores({});
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+      <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex items-center justify-between gap-4">
+        <button onClick={onBack} className="text-sm text-brand-600 hover:text-brand-800 font-semibold">← Back to quiz</button>
+        <div className="flex gap-3">
+          <button onClick={exportScores} disabled={!rows.length} className="text-xs font-semibold text-slate-600 hover:text-slate-800 disabled:opacity-50">Export CSV</button>
+          <button onClick={reset} disabled={!rows.length} className="text-xs font-semibold text-red-500 hover:text-red-700 disabled:opacity-50">Reset scores</button>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="p-12 text-center text-slate-500 text-sm">No quiz answers recorded yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-slate-400 uppercase tracking-wider bg-slate-50">
+              <tr>
+                <th className="text-left px-4 py-2">Word</th>
+                <th className="text-right px-4 py-2">Accuracy</th>
+                <th className="text-right px-4 py-2">Attempts</th>
+                {Object.values(KIND_LABELS).map(label => <th key={label} className="text-right px-4 py-2">{label}</th>)}
+                <th className="text-right px-4 py-2">Last</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(([id, score]) => {
+                const accuracy = percent(score.correct, score.attempts);
+                return (
+                  <tr key={id} className="border-t border-slate-100">
+                    <td className="px-4 py-2 font-bold text-slate-700">{score.label}</td>
+                    <td className={`px-4 py-2 text-right font-semibold ${accuracy < 50 ? 'text-red-600' : accuracy < 80 ? 'text-amber-600' : 'text-emerald-600'}`}>{accuracy}%</td>
+                    <td className="px-4 py-2 text-right text-slate-500">{score.attempts}</td>
+                    {(Object.keys(KIND_LABELS) as QuizKind[]).map(kind => {
+                      const k = score.byKind[kind];
+                      return <td key={kind} className="px-4 py-2 text-right text-slate-500">{k ? `${k.correct}/${k.attempts}` : '–'}</td>;
+                    })}
+                    <td className={`px-4 py-2 text-right text-xs ${score.lastCorrect ? 'text-emerald-600' : 'text-red-500'}`}>
+                      {new Date(score.lastAttemptAt).toLocaleDateString()}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
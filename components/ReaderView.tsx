@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HistoryItem, WordBreakdown } from '../types';
+import { DocumentAnalysis } from '../services/document';
+import { alignTokens, isFunctionWord, knownWordSet, loadKnownWords, toggleKnownWord, wordKey } from '../services/reader';
+
+interface ReaderViewProps {
+  data: DocumentAnalysis;
+  history: HistoryItem[];
+  onWordClick: (word: string) => void;
+  onSaveWord: (word: string) => Promise<void>;
+}
+
+type SaveState = 'saving' | 'failed';
+
+const HAN = /\p{Script=Han}/u;
+
+// Space between sentences only where the text itself is spaced (English), not in Japanese or Chinese
+const gapAfter = (sentence: string) => /[\x00-\x7f]$/.test(sentence) ? ' ' : '';
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium border transition-colors ${active ? 'bg-brand-50 border-brand-300 text-brand-700' : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'}`;
+
+interface GlossProps {
+  token: WordBreakdown;
+  known: boolean;
+  inHistory: boolean;
+  saveState?: SaveState;
+  onSave: () => void;
+  onToggleKnown: () => void;
+  onOpen: () => void;
+}
+
+const Gloss: React.FC<GlossProps> = ({ token, known, inHistory, saveState, onSave, onToggleKnown, onOpen }) => (
+  <span className="absolute z-20 left-0 top-full pt-1 w-64 block text-left font-sans text-base leading-normal" onClick={e => e.stopPropagation()}>
+    <span className="block bg-white border border-slate-200 rounded-lg shadow-xl p-3">
+      <span className="flex items-baseline gap-2">
+        <span className="text-lg font-bold text-slate-800 font-serif">{token.word}</span>
+        {token.reading && <span className="text-sm text-slate-500">{token.reading}</span>}
+        <span className="ml-auto text-[10px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded uppercase font-semibold">{token.partOfSpeech}</span>
+      </span>
+      {typeof token.meaning === 'string' ? (
+        <span className="block text-sm text-slate-600 mt-2 leading-snug">{token.meaning}</span>
+      ) : (
+        <span className="grid grid-cols-[20px_1fr] gap-x-1 gap-y-1 mt-2 text-sm leading-snug">
+          <span className="text-[9px] text-slate-400 font-bold uppercase mt-1">JP</span>
+          <span className="text-slate-700">{token.meaning.jp}</span>
+          <span className="text-[9px] text-slate-400 font-bold uppercase mt-1">EN</span>
+          <span className="text-slate-700">{token.meaning.en}</span>
+          <span className="text-[9px] text-slate-400 font-bold uppercase mt-1">ZH</span>
+          <span className="text-slate-700">{token.meaning.zh}</span>
+        </span>
+      )}
+      <span className="flex flex-wrap gap-2 mt-3 pt-3 border-t border-slate-100">
+        <button
+          onClick={onSave}
+          disabled={inHistory || saveState === 'saving'}
+          className="px-2.5 py-1 rounded-md text-xs font-medium bg-brand-600 text-white hover:bg-brand-500 disabled:bg-slate-100 disabled:text-slate-500 transition-colors"
+        >
+          {inHistory ? 'In history' : saveState === 'saving' ? 'Saving…' : saveState === 'failed' ? 'Retry save' : 'Save to history'}
+        </button>
+        <button onClick={onToggleKnown} className={chipClass(known)}>
+          {known ? 'Known ✓' : 'Mark known'}
+        </button>
+        <button onClick={onOpen} className="text-xs font-medium text-brand-600 hover:text-brand-700 ml-auto">
+          Open entry
+        </button>
+      </span>
+    </span>
+  </span>
+);
+
+export const ReaderView: React.FC<ReaderViewProps> = ({ data, history, onWordClick, onSaveWord }) => {
+  const [showReadings, setShowReadings] = useState(true);
+  const [highlightUnknown, setHighlightUnknown] = useState(true);
+  const [marked, setMarked] = useState<string[]>(loadKnownWords);
+  // Token whose gloss is showing; a tapped token stays open until tapped again
+  const [active, setActive] = useState<{ id: string; pinned: boolean } | null>(null);
+  const [saveStates, setSaveStates] = useState<Record<string, SaveState>>({});
+
+  const historyWords = useMemo(() => knownWordSet(history, []), [history]);
+  const known = useMemo(() => knownWordSet(history, marked), [history, marked]);
+  const segments = useMemo(
+    () => data.sentences.map(sentence => sentence.data ? alignTokens(sentence.text, sentence.data.breakdown) : null),
+    [data.sentences],
+  );
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setActive(null);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const save = async (word: string) => {
+    const key = wordKey(word);
+    setSaveStates(prev => ({ ...prev, [key]: 'saving' }));
+    try {
+      await onSaveWord(word);
+      setSaveStates(({ [key]: _, ...rest }) => rest);
+    } catch (e) {
+      console.error("Saving word failed", e);
+      setSaveStates(prev => ({ ...prev, [key]: 'failed' }));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button onClick={() => setShowReadings(v => !v)} className={chipClass(showReadings)}>Furigana / readings</button>
+        <button onClick={() => setHighlightUnknown(v => !v)} className={chipClass(highlightUnknown)}>Highlight unknown words</button>
+        <span className="text-xs text-slate-400 self-center">Hover or tap a word for its gloss.</span>
+      </div>
+
+      <div className="font-serif text-xl text-slate-800 leading-[2.6]">
+        {data.sentences.map((sentence, s) => {
+          const parts = segments[s];
+          if (!parts) {
+            return <span key={s} className={sentence.status === 'error' ? 'text-slate-400' : 'text-slate-400 animate-pulse'}>{sentence.text}{gapAfter(sentence.text)}</span>;
+          }
+          return (
+            <span key={s}>
+              {parts.map((part, p) => {
+                const token = part.token;
+                if (!token) return <span key={p}>{part.text}</span>;
+                const id = `${s}-${p}`;
+                const key = wordKey(token.word);
+                const isKnown = known.has(key);
+                const styled = highlightUnknown && !isKnown && !isFunctionWord(token);
+                const withRuby = showReadings && token.reading && token.reading !== token.word && HAN.test(token.word);
+                return (
+                  <span
+                    key={p}
+                    className="relative inline-block"
+                    onMouseEnter={() => setActive(current => current?.pinned ? current : { id, pinned: false })}
+                    onMouseLeave={() => setActive(current => current?.id === id && !current.pinned ? null : current)}
+                    onClick={() => setActive(current => current?.id === id && current.pinned ? null : { id, pinned: true })}
+                  >
+                    <span className={`cursor-pointer rounded px-0.5 transition-colors ${styled ? 'bg-amber-50 border-b-2 border-dotted border-amber-400' : ''} ${active?.id === id ? 'bg-brand-100' : 'hover:bg-slate-100'}`}>
+                      {withRuby ? <ruby>{token.word}<rt className="text-xs text-slate-500 font-sans">{token.reading}</rt></ruby> : token.word}
+                    </span>
+                    {active?.id === id && (
+                      <Gloss
+                        token={token}
+                        known={isKnown}
+                        inHistory={historyWords.has(key)}
+                        saveState={saveStates[key]}
+                        onSave={() => save(token.word)}
+                        onToggleKnown={() => setMarked(toggleKnownWord(token.word))}
+                        onOpen={() => onWordClick(token.word)}
+                      />
+                    )}
+                  </span>
+                );
+              })}
+              {gapAfter(sentence.text)}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface RefreshButtonProps {
+  onClick: () => void;
+  className?: string;
+}
+
+export const RefreshButton: React.FC<RefreshButtonProps> = ({ onClick, className = '' }) => (
+  <button
+    onClick={onClick}
+    className={`inline-flex items-center gap-1.5 text-xs font-medium text-slate-400 hover:text-brand-600 px-2 py-1 rounded-md hover:bg-brand-50 transition-colors ${className}`}
+    title="Ask the model again instead of using the cached result"
+  >
+    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+      <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182m0-4.991v4.99" />
+    </svg>
+    Refresh entry
+  </button>
+);
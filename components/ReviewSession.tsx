@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryItem, WordData } from '../types';
+import { AudioButton } from './AudioButton';
+import {
+  CARD_FIELDS,
+  CardField,
+  CardState,
+  ReviewCard,
+  ReviewGrade,
+  ReviewSettings,
+  buildReviewQueue,
+  formatInterval,
+  loadCardStates,
+  loadReviewSettings,
+  saveCardStates,
+  saveReviewSettings,
+  schedule,
+} from '../services/srs';
+
+interface ReviewSessionProps {
+  history: HistoryItem[];
+  onOpenWord: (word: string) => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', className: 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100' },
+  { grade: 'easy', label: 'Easy', className: 'bg-brand-50 text-brand-700 border-brand-200 hover:bg-brand-100' },
+];
+
+const CardFieldView: React.FC<{ field: CardField; data: WordData; large: boolean }> = ({ field, data, large }) => {
+  switch (field) {
+    case 'coreWord.jp':
+    case 'coreWord.en':
+    case 'coreWord.zh': {
+      const lang = field.split('.')[1] as 'jp' | 'en' | 'zh';
+      const text = data.coreWord[lang];
+      if (!text) return null;
+      return (
+        <div className="flex items-center justify-center gap-2">
+          <span className={`${large ? 'text-4xl' : 'text-2xl'} font-bold text-slate-800 ${lang === 'en' ? 'font-sans' : 'font-serif'}`}>{text}</span>
+          <AudioButton text={text} lang={lang} size="sm" />
+        </div>
+      );
+    }
+    case 'pronunciation':
+      return (
+        <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm text-slate-500">
+          {data.pronunciation.jp && <span>{data.pronunciation.jp}</span>}
+          {data.pronunciation.en && <span className="font-mono">{data.pronunciation.en}</span>}
+          {data.pronunciation.zh && <span>{data.pronunciation.zh}</span>}
+        </div>
+      );
+    case 'definitions':
+      return (
+        <div className="text-left space-y-2 text-slate-700 text-sm max-w-xl mx-auto">
+          {data.definitions.jp && <p className="font-serif">{data.definitions.jp}</p>}
+          {data.definitions.en && <p>{data.definitions.en}</p>}
+          {data.definitions.zh && <p>{data.definitions.zh}</p>}
+        </div>
+      );
+  }
+};
+
+const FieldPicker: React.FC<{ label: string; value: CardField[]; onChange: (value: CardField[]) => void }> = ({ label, value, onChange }) => (
+  <div>
+    <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{label}</span>
+    <div className="flex flex-wrap gap-2">
+      {CARD_FIELDS.map(field => {
+        const active = value.includes(field.value);
+        return (
+          <button
+            key={field.value}
+            onClick={() => onChange(active ? value.filter(f => f !== field.value) : [...value, field.value])}
+            className={`text-xs px-3 py-1 rounded-full border transition-colors ${active ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-300'}`}
+          >
+            {field.label}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ history, onOpenWord }) => {
+  const [settings, setSettings] = useState<ReviewSettings>(loadReviewSettings);
+  const [states, setStates] = useState<Record<string, CardState>>(loadCardStates);
+  // The queue is fixed when the session starts; failed cards are appended again
+  const [queue, setQueue] = useState<ReviewCard[]>(() => buildReviewQueue(history, states, settings));
+  const [revealed, setRevealed] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const current = queue[0];
+  const newCount = useMemo(() => queue.filter(card => !card.state).length, [queue]);
+
+  const updateSettings = (next: ReviewSettings) => {
+    // A card needs something on its front
+    if (!next.front.length) return;
+    setSettings(next);
+    saveReviewSettings(next);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    const state = schedule(current, grade);
+    const nextStates = { ...states, [current.id]: state };
+    setStates(nextStates);
+    saveCardStates(nextStates);
+    setReviewed(count => count + 1);
+    setRevealed(false);
+    setQueue(([, ...rest]) => (grade === 'again' ? [...rest, { ...current, state }] : rest));
+  };
+
+  const restart = () => {
+    setQueue(buildReviewQueue(history, states, settings));
+    setRevealed(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
+      <div className="p-4 md:px-8 border-b border-slate-100 bg-slate-50 flex items-center justify-between gap-4">
+        <div className="flex gap-4 text-sm">
+          <span className="text-slate-500">Remaining <b className="text-slate-800">{queue.length}</b></span>
+          <span className="text-slate-500">New <b className="text-brand-600">{newCount}</b></span>
+          <span className="text-slate-500">Reviewed <b className="text-emerald-600">{reviewed}</b></span>
+        </div>
+        <button
+          onClick={() => setShowSettings(open => !open)}
+          className="text-slate-400 hover:text-brand-600 p-1 rounded-full hover:bg-brand-50 transition-colors"
+          title="Card settings"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 6h9.75M10.5 6a1.5 1.5 0 1 1-3 0m3 0a1.5 1.5 0 1 0-3 0M3.75 6H7.5m3 12h9.75m-9.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-3.75 0H7.5m9-6h3.75m-3.75 0a1.5 1.5 0 0 1-3 0m3 0a1.5 1.5 0 0 0-3 0m-9.75 0h9.75" />
+          </svg>
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="p-4 md:px-8 border-b border-slate-100 space-y-4">
+          <FieldPicker label="Front" value={settings.front} onChange={front => updateSettings({ ...settings, front })} />
+          <FieldPicker label="Back" value={settings.back} onChange={back => updateSettings({ ...settings, back })} />
+          <label className="flex items-center gap-3 text-sm text-slate-600">
+            New cards per day
+            <input
+              type="number"
+              min={0}
+              max={200}
+              value={settings.newPerDay}
+              onChange={e => updateSettings({ ...settings, newPerDay: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-20 px-2 py-1 rounded border border-slate-200 focus:border-brand-500 outline-none"
+            />
+          </label>
+          <button onClick={restart} className="text-xs font-semibold text-brand-600 hover:text-brand-800">
+            Apply to today's queue
+          </button>
+        </div>
+      )}
+
+      {!current ? (
+        <div className="p-12 text-center text-slate-500">
+          <p className="text-xl font-serif text-slate-700 mb-2">All done for today</p>
+          <p className="text-sm">
+            {history.some(item => item.type === 'word')
+              ? "Come back tomorrow for the next due cards, or look up new words to add them."
+              : "Look up some words in the Dictionary tab to start building your deck."}
+          </p>
+        </div>
+      ) : (
+        <div className="p-6 md:p-10 flex flex-col items-center gap-6 text-center">
+          <div className="flex flex-col gap-3 w-full">
+            {settings.front.map(field => <CardFieldView key={field} field={field} data={current.data} large />)}
+          </div>
+
+          {revealed ? (
+            <>
+              <div className="w-full border-t border-dashed border-slate-200 pt-6 flex flex-col gap-4">
+                {settings.back.map(field => <CardFieldView key={field} field={field} data={current.data} large={false} />)}
+                <button
+                  onClick={() => onOpenWord(current.data.inputWord || current.data.coreWord.jp)}
+                  className="text-xs text-brand-600 hover:text-brand-800 font-semibold"
+                >
+                  Open full entry
+                </button>
+              </div>
+              <div className="grid grid-cols-4 gap-2 w-full max-w-lg">
+                {GRADES.map(({ grade, label, className }) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    className={`border rounded-lg py-2 text-sm font-semibold transition-colors ${className}`}
+                  >
+                    {label}
+                    <span className="block text-[10px] font-normal opacity-70">{formatInterval(schedule(current, grade).interval)}</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <button
+              onClick={() => setRevealed(true)}
+              className="px-8 py-3 bg-brand-600 hover:bg-brand-500 text-white font-semibold rounded-xl shadow-md transition-colors"
+            >
+              Show answer
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
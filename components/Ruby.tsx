@@ -0,0 +1,21 @@
+import React, { useMemo } from 'react';
+import { parseRuby } from '../services/ruby';
+
+interface RubyProps {
+  markup: string; // Text with <ruby>base<rt>reading</rt></ruby> furigana
+  className?: string;
+}
+
+// Renders furigana from parsed tokens only, never the markup itself
+export const Ruby: React.FC<RubyProps> = ({ markup, className = "ruby-text" }) => {
+  const tokens = useMemo(() => parseRuby(markup), [markup]);
+  return (
+    <span className={className}>
+      {tokens.map((token, i) =>
+        token.type === 'ruby'
+          ? <ruby key={i}>{token.base}<rt>{token.reading}</rt></ruby>
+          : <React.Fragment key={i}>{token.text}</React.Fragment>
+      )}
+    </span>
+  );
+};
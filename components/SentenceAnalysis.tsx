@@ -1,18 +1,128 @@
-import React from 'react';
-import { SentenceData } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Collection, SentenceData, WordBreakdown } from '../types';
 import { AudioButton } from './AudioButton';
+import { RefreshButton } from './RefreshButton';
+import { SkeletonLines } from './Skeleton';
+import { CollectionMenu } from './CollectionMenu';
+import { Ruby } from './Ruby';
+import { contentKey } from '../services/history';
+import { miniDefinition } from '../services/miniDefinition';
 
 interface SentenceAnalysisProps {
   data: SentenceData;
+  onWordClick?: (word: string) => void;
+  onRefresh?: () => void;
+  streaming?: boolean; // Analysis is still arriving; empty sections show placeholders
+  collections?: Collection[];
+  onToggleCollection?: (collectionId: string) => void;
+  onCreateCollection?: (name: string) => void;
 }
 
-export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
+// Hover long enough to mean it before the popover opens, so skimming doesn't flicker
+const HOVER_DELAY_MS = 400;
+
+const BreakdownCard: React.FC<{ item: WordBreakdown; onWordClick?: (word: string) => void }> = ({ item, onWordClick }) => {
+  const [open, setOpen] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const mini = useMemo(() => miniDefinition(item), [item]);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const show = () => {
+    if (!onWordClick) return;
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => setOpen(true), HOVER_DELAY_MS);
+  };
+
+  const hide = () => {
+    clearTimeout(timerRef.current);
+    setOpen(false);
+  };
+
+  const body = (
+    <>
+      <span className="text-lg font-bold text-slate-800 mb-1">{item.word}</span>
+      {item.reading && <span className="text-xs text-slate-500 mb-1">{item.reading}</span>}
+      <span className="text-[10px] px-1.5 py-0.5 bg-slate-200 text-slate-600 rounded uppercase font-semibold mb-2">{item.partOfSpeech}</span>
+      
+      {/* Render meanings based on type (string or object) */}
+      {typeof item.meaning === 'string' ? (
+        <span className="text-xs text-slate-600 leading-tight">{item.meaning}</span>
+      ) : (
+        <div className="flex flex-col gap-1 text-left w-full mt-2 pt-2 border-t border-slate-200/50">
+          <div className="grid grid-cols-[20px_1fr] gap-1">
+            <span className="text-[9px] text-slate-400 font-bold uppercase mt-0.5">JP</span>
+            <span className="text-xs text-slate-700 leading-tight">{item.meaning.jp}</span>
+          </div>
+          <div className="grid grid-cols-[20px_1fr] gap-1">
+            <span className="text-[9px] text-slate-400 font-bold uppercase mt-0.5">EN</span>
+            <span className="text-xs text-slate-700 leading-tight">{item.meaning.en}</span>
+          </div>
+          <div className="grid grid-cols-[20px_1fr] gap-1">
+            <span className="text-[9px] text-slate-400 font-bold uppercase mt-0.5">ZH</span>
+            <span className="text-xs text-slate-700 leading-tight">{item.meaning.zh}</span>
+          </div>
+        </div>
+      )}
+    </>
+  );
+
+  const cardClass = "bg-slate-50 border border-slate-200 rounded-lg p-3 min-w-[140px] max-w-[200px] flex flex-col items-center text-center hover:border-brand-300 transition-colors";
+  if (!onWordClick) return <div className={cardClass}>{body}</div>;
+
+  return (
+    <div className="relative" onMouseEnter={show} onMouseLeave={hide}>
+      <button
+        onClick={() => onWordClick(item.word)}
+        onFocus={show}
+        onBlur={hide}
+        className={`${cardClass} h-full hover:shadow-md cursor-pointer`}
+        title="Open in dictionary"
+      >
+        {body}
+      </button>
+      {open && (
+        <div className="absolute z-20 left-1/2 -translate-x-1/2 top-full mt-2 w-64 bg-white border border-slate-200 rounded-lg shadow-xl p-3 text-left pointer-events-none">
+          <p className="font-bold text-slate-800">
+            {mini.headword} {mini.reading && <span className="font-normal text-xs text-slate-500">{mini.reading}</span>}
+          </p>
+          {mini.en && <p className="text-xs text-slate-600 mt-1 leading-snug">{mini.en}</p>}
+          {mini.zh && <p className="text-xs text-slate-600 mt-1 leading-snug">{mini.zh}</p>}
+          {!mini.en && !mini.zh && mini.jp && <p className="text-xs text-slate-600 mt-1 leading-snug">{mini.jp}</p>}
+          <p className="text-[10px] text-brand-600 mt-2 font-semibold">Click for the full entry</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data, onWordClick, onRefresh, streaming = false, collections, onToggleCollection, onCreateCollection }) => {
+  const hasGrammar = typeof data.grammarAnalysis === 'string'
+    ? Boolean(data.grammarAnalysis)
+    : Boolean(data.grammarAnalysis.jp || data.grammarAnalysis.en || data.grammarAnalysis.zh);
+  const hasTranslations = Boolean(data.translations.jp || data.translations.en || data.translations.zh);
+
   return (
     <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
       
       {/* Original Sentence Header */}
       <div className="p-8 bg-slate-50 border-b border-slate-200">
-        <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Original Sentence</h2>
+        <div className="flex justify-between items-center mb-3">
+          <h2 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Original Sentence</h2>
+          {!streaming && (
+            <div className="flex items-center gap-1">
+              {collections && onToggleCollection && onCreateCollection && (
+                <CollectionMenu
+                  collections={collections}
+                  entryKey={contentKey({ type: 'sentence', data })}
+                  onToggle={onToggleCollection}
+                  onCreate={onCreateCollection}
+                />
+              )}
+              {onRefresh && <RefreshButton onClick={onRefresh} />}
+            </div>
+          )}
+        </div>
         <div className="flex flex-col gap-2">
             <p className="text-2xl md:text-3xl text-slate-800 font-serif leading-relaxed">
               {data.original}
@@ -37,34 +147,12 @@ export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
               </svg>
               Word Breakdown
             </h3>
-            <div className="overflow-x-auto">
+            {data.breakdown.length === 0 && streaming && <SkeletonLines lines={2} />}
+            {/* No overflow clipping here, the hover popovers extend past the cards */}
+            <div>
               <div className="flex flex-wrap gap-3">
                 {data.breakdown.map((item, index) => (
-                  <div key={index} className="bg-slate-50 border border-slate-200 rounded-lg p-3 min-w-[140px] max-w-[200px] flex flex-col items-center text-center hover:border-brand-300 transition-colors">
-                    <span className="text-lg font-bold text-slate-800 mb-1">{item.word}</span>
-                    {item.reading && <span className="text-xs text-slate-500 mb-1">{item.reading}</span>}
-                    <span className="text-[10px] px-1.5 py-0.5 bg-slate-200 text-slate-600 rounded uppercase font-semibold mb-2">{item.partOfSpeech}</span>
-                    
-                    {/* Render meanings based on type (string or object) */}
-                    {typeof item.meaning === 'string' ? (
-                      <span className="text-xs text-slate-600 leading-tight">{item.meaning}</span>
-                    ) : (
-                      <div className="flex flex-col gap-1 text-left w-full mt-2 pt-2 border-t border-slate-200/50">
-                        <div className="grid grid-cols-[20px_1fr] gap-1">
-                          <span className="text-[9px] text-slate-400 font-bold uppercase mt-0.5">JP</span>
-                          <span className="text-xs text-slate-700 leading-tight">{item.meaning.jp}</span>
-                        </div>
-                        <div className="grid grid-cols-[20px_1fr] gap-1">
-                          <span className="text-[9px] text-slate-400 font-bold uppercase mt-0.5">EN</span>
-                          <span className="text-xs text-slate-700 leading-tight">{item.meaning.en}</span>
-                        </div>
-                        <div className="grid grid-cols-[20px_1fr] gap-1">
-                          <span className="text-[9px] text-slate-400 font-bold uppercase mt-0.5">ZH</span>
-                          <span className="text-xs text-slate-700 leading-tight">{item.meaning.zh}</span>
-                        </div>
-                      </div>
-                    )}
-                  </div>
+                  <BreakdownCard key={index} item={item} onWordClick={onWordClick} />
                 ))}
               </div>
             </div>
@@ -78,6 +166,7 @@ export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
                 </svg>
                 Grammar & Structure
              </h3>
+             {!hasGrammar && streaming ? <SkeletonLines lines={4} /> : (
              <div className="space-y-4">
                {/* Backward Compatibility Check: If it's a string, render normally. If it's an object, render trilingual. */}
                {typeof data.grammarAnalysis === 'string' ? (
@@ -92,7 +181,7 @@ export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
                         <span>Japanese Explanation</span>
                       </h4>
                       <p className="text-slate-700 leading-relaxed font-serif">
-                         <span dangerouslySetInnerHTML={{ __html: data.grammarAnalysis.jp }} className="ruby-text" />
+                         <Ruby markup={data.grammarAnalysis.jp} />
                       </p>
                    </div>
                    
@@ -114,12 +203,15 @@ export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
                  </>
                )}
              </div>
+             )}
           </section>
         </div>
 
         {/* Right Column: Translations */}
         <div className="p-6 md:p-8 bg-slate-50/50 space-y-8">
            <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-4">Translations</h3>
+           {!hasTranslations && streaming ? <SkeletonLines lines={3} /> : (
+           <>
            
            {/* Japanese */}
            <div className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
@@ -136,7 +228,7 @@ export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
                  <div>
                     <p className="text-xs text-slate-400 mb-1">With Readings</p>
                     <p className="text-lg text-slate-800 font-serif">
-                        <span dangerouslySetInnerHTML={{ __html: data.translations.jp_furigana }} className="ruby-text" />
+                        <Ruby markup={data.translations.jp_furigana} />
                     </p>
                  </div>
               </div>
@@ -159,6 +251,8 @@ export const SentenceAnalysis: React.FC<SentenceAnalysisProps> = ({ data }) => {
               </div>
               <p className="text-lg text-slate-800">{data.translations.zh}</p>
            </div>
+           </>
+           )}
 
         </div>
       </div>
@@ -0,0 +1,17 @@
+import React from 'react';
+
+const WIDTHS = ['w-full', 'w-5/6', 'w-4/6', 'w-3/6'];
+
+interface SkeletonLinesProps {
+  lines?: number;
+  className?: string;
+}
+
+// Placeholder for a section that hasn't streamed in yet
+export const SkeletonLines: React.FC<SkeletonLinesProps> = ({ lines = 3, className = '' }) => (
+  <div className={`space-y-3 animate-pulse ${className}`}>
+    {Array.from({ length: lines }).map((_, i) => (
+      <div key={i} className={`h-4 bg-slate-200 rounded ${WIDTHS[i % WIDTHS.length]}`}></div>
+    ))}
+  </div>
+);
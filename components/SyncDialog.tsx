@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { SyncSettings, generateSyncKey, syncEngine } from '../services/sync';
+import { SYNC_KEY_PATTERN } from '../services/syncProtocol';
+
+interface SyncDialogProps {
+  onSave: (settings: SyncSettings | null) => void; // null turns sync off
+  onClose: () => void;
+}
+
+export const SyncDialog: React.FC<SyncDialogProps> = ({ onSave, onClose }) => {
+  const current = syncEngine.getSettings();
+  const [serverUrl, setServerUrl] = useState(current?.serverUrl ?? process.env.SYNC_URL ?? '');
+  const [key, setKey] = useState(current?.key ?? '');
+
+  const validKey = SYNC_KEY_PATTERN.test(key.trim());
+  const canSave = Boolean(serverUrl.trim()) && validKey;
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({ serverUrl: serverUrl.trim(), key: key.trim() });
+    onClose();
+  };
+
+  const inputClass = "w-full mt-1 px-3 py-2 rounded-lg border border-slate-200 focus:border-brand-500 outline-none text-sm font-normal normal-case tracking-normal text-slate-700";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <form onSubmit={save} className="bg-white rounded-xl shadow-2xl w-full max-w-lg flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">Sync between devices</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Use the same server and sync key on every device. Anyone with the key can read and change the synced history, so keep it private.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">
+            Sync server
+            <input value={serverUrl} onChange={e => setServerUrl(e.target.value)} placeholder="https://sync.example.com/sync" className={inputClass} />
+          </label>
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">
+            Sync key
+            <div className="flex gap-2">
+              <input value={key} onChange={e => setKey(e.target.value)} placeholder="Paste the key from your other device" className={`${inputClass} font-mono`} />
+              <button type="button" onClick={() => setKey(generateSyncKey())} className="mt-1 shrink-0 text-xs font-semibold text-brand-600 hover:text-brand-800 px-2">
+                Generate
+              </button>
+            </div>
+          </label>
+          {key && !validKey && <p className="text-xs text-red-600">A sync key is 16 to 128 letters, digits, "-" or "_".</p>}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-between gap-3">
+          {current ? (
+            <button type="button" onClick={() => { onSave(null); onClose(); }} className="text-sm font-semibold text-red-500 hover:text-red-700">
+              Turn off sync
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800">Cancel</button>
+            <button type="submit" disabled={!canSave} className="px-4 py-2 text-sm font-semibold bg-brand-600 hover:bg-brand-500 text-white rounded-lg disabled:opacity-40 transition-colors">
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,21 +1,73 @@
 
 import React from 'react';
-import { WordData } from '../types';
+import { Collection, WordData } from '../types';
 import { AudioButton } from './AudioButton';
+import { RefreshButton } from './RefreshButton';
+import { SkeletonLines } from './Skeleton';
+import { checkInflections } from '../services/conjugator';
+import { LEVEL_SCALES, levelLabel, wordLevels } from '../services/levels';
+import { describeAccent, wordPitchAccents } from '../services/pitch';
+import { PitchDiagram } from './PitchDiagram';
+import { CollectionMenu } from './CollectionMenu';
+import { Ruby } from './Ruby';
+import { contentKey } from '../services/history';
 
 interface WordCardProps {
   data: WordData;
   imageUrl?: string;
   onWordClick: (word: string) => void;
+  onKanjiClick?: (kanji: string) => void;
+  onRefresh?: () => void;
+  streaming?: boolean; // Entry is still arriving; empty sections show placeholders
+  imagePending?: boolean;
+  collections?: Collection[];
+  onToggleCollection?: (collectionId: string) => void;
+  onCreateCollection?: (name: string) => void;
 }
 
-export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick }) => {
-  const isAiGenerated = imageUrl?.startsWith('data:');
+const LEVEL_COLORS = {
+  jlpt: 'bg-rose-50 text-rose-700 border-rose-200',
+  hsk: 'bg-amber-50 text-amber-700 border-amber-200',
+  cefr: 'bg-sky-50 text-sky-700 border-sky-200',
+};
+
+// Each kanji in the headword opens kanji mode; kana and other characters stay plain text
+const renderKanjiLinks = (text: string, onKanjiClick: (kanji: string) => void) =>
+  Array.from(text).map((char, i) => /\p{Script=Han}/u.test(char) ? (
+    <button
+      key={i}
+      onClick={() => onKanjiClick(char)}
+      className="hover:text-brand-600 hover:underline decoration-2 underline-offset-8 decoration-brand-300 transition-colors"
+      title={`Look up the kanji ${char}`}
+    >
+      {char}
+    </button>
+  ) : char);
+
+export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick, onKanjiClick, onRefresh, streaming = false, imagePending = false, collections, onToggleCollection, onCreateCollection }) => {
+  // Only generated images are kept in the image store, which hands out blob: URLs
+  const isAiGenerated = imageUrl?.startsWith('data:') || imageUrl?.startsWith('blob:');
   const sourceLabel = isAiGenerated ? "AI Visualization" : "Web Image";
 
+  const hasHeadword = Boolean(data.coreWord.jp || data.coreWord.en || data.coreWord.zh);
+  const hasPronunciation = Boolean(data.pronunciation.jp || data.pronunciation.en || data.pronunciation.zh);
+  const hasDefinitions = Boolean(data.definitions.jp || data.definitions.en || data.definitions.zh);
+  const hasRelated = Boolean(data.related?.synonyms?.length || data.related?.antonyms?.length);
+  // Forms the offline conjugator disagrees with; skipped while the entry is still streaming in
+  const inconsistencies = streaming ? [] : checkInflections(data);
+  const levels = wordLevels(data);
+  const pitch = streaming ? null : wordPitchAccents(data);
+
   return (
     <div className="bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden">
       
+      {/* Image placeholder while the picture is generated alongside the text */}
+      {!imageUrl && imagePending && (
+        <div className="w-full h-72 md:h-[480px] bg-slate-100 animate-pulse flex items-center justify-center">
+          <span className="text-brand-600 font-medium">Visualizing context...</span>
+        </div>
+      )}
+
       {/* Top Image Section (Full Width) */}
       {imageUrl && (
         <div className="w-full h-72 md:h-[480px] bg-slate-100 relative group transition-all duration-300">
@@ -38,6 +90,19 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
 
       {/* Header Section */}
       <div className="p-6 md:p-8 border-b border-slate-100 bg-gradient-to-b from-slate-50 to-white">
+        {!streaming && (onRefresh || collections) && (
+          <div className="flex justify-end items-center gap-1 -mt-2 mb-2">
+            {collections && onToggleCollection && onCreateCollection && (
+              <CollectionMenu
+                collections={collections}
+                entryKey={contentKey({ type: 'word', data })}
+                onToggle={onToggleCollection}
+                onCreate={onCreateCollection}
+              />
+            )}
+            {onRefresh && <RefreshButton onClick={onRefresh} />}
+          </div>
+        )}
         <div className="flex flex-col gap-4">
           <div className="flex-1 text-center md:text-left">
             {/* 
@@ -46,9 +111,10 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                 - Increased gap-y (line spacing)
                 - Grouped separators with words to prevent orphaned slashes
             */}
+            {!hasHeadword && streaming && <div className="h-14 bg-slate-200 rounded w-2/3 mx-auto mb-8 animate-pulse"></div>}
             <div className="flex flex-wrap justify-center items-baseline gap-x-4 md:gap-x-6 gap-y-4 md:gap-y-6 mb-8">
               <div className="text-4xl md:text-6xl font-serif text-slate-800 font-bold leading-tight break-all">
-                {data.coreWord.jp}
+                {onKanjiClick ? renderKanjiLinks(data.coreWord.jp, onKanjiClick) : data.coreWord.jp}
               </div>
               
               <div className="flex flex-wrap items-baseline gap-x-2 md:gap-x-4">
@@ -62,6 +128,33 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
               </div>
             </div>
             
+            {/* Proficiency levels */}
+            {(levels.jlpt || levels.hsk || levels.cefr || levels.frequency) && (
+              <div className="flex flex-wrap justify-center gap-2 -mt-4 mb-6">
+                {LEVEL_SCALES.map(({ scale }) => {
+                  const level = levels[scale];
+                  if (!level) return null;
+                  return (
+                    <span
+                      key={scale}
+                      className={`text-xs font-bold px-2.5 py-1 rounded-full border ${LEVEL_COLORS[scale]} ${level.source === 'model' ? 'border-dashed' : ''}`}
+                      title={level.source === 'list' ? 'From the bundled level list' : 'Estimated by the model'}
+                    >
+                      {levelLabel(scale, level.value)}
+                    </span>
+                  );
+                })}
+                {levels.frequency && (
+                  <span className="text-xs font-medium px-2.5 py-1 rounded-full border border-slate-200 bg-slate-50 text-slate-600 capitalize" title="How often the word is used">
+                    {levels.frequency}
+                  </span>
+                )}
+              </div>
+            )}
+
+            {!hasPronunciation && streaming ? (
+              <SkeletonLines lines={1} className="bg-white p-4 rounded-xl shadow-sm border border-slate-100" />
+            ) : (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-slate-600 bg-white p-4 rounded-xl shadow-sm border border-slate-100">
               <div className="flex items-center justify-center md:justify-start gap-3 p-2 rounded hover:bg-slate-50 transition-colors">
                 <span className="text-xs font-bold text-slate-400 uppercase tracking-wider w-6">JP</span>
@@ -79,6 +172,32 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                 <AudioButton text={data.coreWord.zh} lang="zh" />
               </div>
             </div>
+            )}
+
+            {/* Pitch accent */}
+            {pitch && (
+              <div className="mt-4 flex flex-wrap justify-center md:justify-start items-center gap-4 bg-white p-4 rounded-xl shadow-sm border border-slate-100">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Pitch</span>
+                {pitch.accents.map(accent => (
+                  <div
+                    key={`${accent.reading}-${accent.downstep}`}
+                    className={`flex items-center gap-2 px-3 py-1 rounded-lg border ${pitch.source === 'model' ? 'border-dashed border-slate-300' : 'border-slate-200'}`}
+                    title={pitch.source === 'dictionary' ? 'From the bundled accent dictionary' : 'Estimated by the model'}
+                  >
+                    <PitchDiagram accent={accent} className="text-brand-600" />
+                    <span className="text-xs text-slate-500">{describeAccent(accent)}</span>
+                  </div>
+                ))}
+                {pitch.disputed && (
+                  <span
+                    className="text-xs text-amber-600 font-bold"
+                    title={`The model gave ${pitch.disputed.map(describeAccent).join(', ')}; the bundled accent dictionary is shown instead`}
+                  >
+                    Check
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -94,6 +213,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
               <span className="w-6 h-[1px] bg-brand-600"></span>
               Definitions / 意味
             </h3>
+            {!hasDefinitions && streaming ? <SkeletonLines lines={4} /> : (
             <div className="space-y-6">
               {/* Japanese Definitions Block */}
               <div className="space-y-3">
@@ -114,7 +234,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                  <div className="group">
                     <div className="text-xs text-slate-400 uppercase tracking-wider mb-1 pl-4">With Readings</div>
                     <p className="text-lg text-slate-800 leading-relaxed font-serif border-l-2 border-slate-200 pl-4 group-hover:border-brand-300 transition-colors">
-                       <span dangerouslySetInnerHTML={{ __html: data.definitions.jp_furigana || data.definitions.jp }} className="ruby-text" />
+                       <Ruby markup={data.definitions.jp_furigana || data.definitions.jp} />
                     </p>
                  </div>
               </div>
@@ -134,6 +254,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                 <p className="text-lg text-slate-800 leading-relaxed border-l-2 border-slate-200 pl-4 group-hover:border-brand-300 transition-colors">{data.definitions.zh}</p>
               </div>
             </div>
+            )}
           </section>
 
           {/* Inflections / Conjugations Section */}
@@ -150,12 +271,22 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                    <div key={idx}>
                       <h4 className="text-[10px] uppercase font-bold text-slate-400 mb-2">{group.partOfSpeech}</h4>
                       <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-                        {group.forms?.map((form, fIdx) => (
-                          <div key={fIdx} className="bg-white p-2 rounded border border-slate-200 shadow-sm flex flex-col">
-                            <span className="text-[10px] text-slate-400 mb-0.5">{form.label}</span>
-                            <span className="text-sm font-medium text-slate-700">{form.value}</span>
-                          </div>
-                        ))}
+                        {group.forms?.map((form, fIdx) => {
+                          const issue = inconsistencies.find(i => i.partOfSpeech === group.partOfSpeech && i.label === form.label);
+                          return (
+                            <div
+                              key={fIdx}
+                              title={issue ? `The built-in conjugator expects ${issue.expected.join(' / ')}` : undefined}
+                              className={`bg-white p-2 rounded border shadow-sm flex flex-col ${issue ? 'border-amber-300' : 'border-slate-200'}`}
+                            >
+                              <span className="text-[10px] text-slate-400 mb-0.5 flex items-center justify-between gap-1">
+                                {form.label}
+                                {issue && <span className="text-amber-600 font-bold">Check</span>}
+                              </span>
+                              <span className="text-sm font-medium text-slate-700">{form.value}</span>
+                            </div>
+                          );
+                        })}
                       </div>
                    </div>
                  ))}
@@ -170,9 +301,12 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                 </svg>
                 Etymology & Origin
              </h3>
-             <p className="text-slate-700 text-sm leading-6">{data.etymology}</p>
+             {!data.etymology && streaming ? <SkeletonLines lines={2} /> : (
+               <p className="text-slate-700 text-sm leading-6">{data.etymology}</p>
+             )}
           </section>
 
+          {(hasRelated || !streaming) && (
           <section>
             <div className="grid grid-cols-2 gap-4">
                <div>
@@ -209,6 +343,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                </div>
             </div>
           </section>
+          )}
         </div>
 
         {/* Right Column: Examples */}
@@ -242,7 +377,7 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
                       <div className="group border-t border-slate-50 pt-2">
                          <p className="text-[10px] text-slate-400 uppercase tracking-wider mb-1">With Readings</p>
                          <p className="text-lg text-slate-800 font-serif leading-relaxed">
-                             <span dangerouslySetInnerHTML={{ __html: ex.text_furigana }} className="ruby-text" />
+                             <Ruby markup={ex.text_furigana} />
                          </p>
                       </div>
                     )}
@@ -259,7 +394,9 @@ export const WordCard: React.FC<WordCardProps> = ({ data, imageUrl, onWordClick
               </div>
             ))}
             {(!data.examples || data.examples.length === 0) && (
-               <p className="text-slate-400 italic text-sm text-center py-10">No examples available.</p>
+               streaming
+                 ? <SkeletonLines lines={3} className="bg-white p-5 rounded-xl shadow-sm border border-slate-100" />
+                 : <p className="text-slate-400 italic text-sm text-center py-10">No examples available.</p>
             )}
           </div>
         </div>
@@ -0,0 +1,201 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, createReadStream, statSync } from "node:fs";
+import path from "node:path";
+import { GeminiService } from "../services/geminiService";
+import { SpeechLang } from "../services/lexiconProvider";
+import { LexiconErrorKind, QuotaExceededError, toLexiconError } from "../services/errors";
+import { RateLimiter } from "./rateLimiter";
+
+// Pick up API_KEY etc. from the same file Vite reads
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.SERVER_PORT || 8787);
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE || 30);
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_INPUT_LENGTH = 2000;
+// Only trust X-Forwarded-For when running behind a reverse proxy we control
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const STATIC_DIR = path.resolve('dist');
+
+const gemini = new GeminiService({ mode: 'direct', apiKey: process.env.API_KEY });
+const limiter = new RateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+setInterval(() => limiter.prune(), 60_000).unref();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientKey = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (body && typeof body === 'object') return body;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(400, "Request body must be a JSON object");
+};
+
+const requireString = (body: Record<string, unknown>, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" must be a non-empty string`);
+  if (value.length > MAX_INPUT_LENGTH) throw new HttpError(400, `"${field}" exceeds ${MAX_INPUT_LENGTH} characters`);
+  return value;
+};
+
+// HTTP status for each error kind; the kind itself is echoed in the body so the client can rebuild the typed error
+const ERROR_STATUS: Record<LexiconErrorKind, number> = {
+  'missing-key': 503, // Server misconfiguration, not the caller's fault
+  'invalid-input': 400,
+  quota: 429,
+  safety: 422,
+  network: 502,
+  malformed: 502,
+  unknown: 502,
+};
+
+const SPEECH_LANGS: SpeechLang[] = ['jp', 'en', 'zh'];
+
+// Each endpoint returns exactly what the matching LexiconProvider method resolves to
+const routes: Record<string, (body: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>> = {
+  '/api/word': (body, signal) => gemini.analyzeWord(requireString(body, 'query'), { signal }),
+  '/api/sentence': (body, signal) => gemini.analyzeSentence(requireString(body, 'sentence'), { signal }),
+  '/api/kanji': (body, signal) => gemini.analyzeKanji(requireString(body, 'character'), { signal }),
+  '/api/image': async (body, signal) => ({ imageUrl: await gemini.generateImage(requireString(body, 'word'), { signal }) }),
+  '/api/speech': async (body, signal) => {
+    const lang = body.lang as SpeechLang;
+    if (!SPEECH_LANGS.includes(lang)) throw new HttpError(400, `"lang" must be one of ${SPEECH_LANGS.join(', ')}`);
+    const voice = body.voice === undefined ? undefined : requireString(body, 'voice');
+    if (voice && !/^[A-Za-z]{1,32}$/.test(voice)) throw new HttpError(400, `"voice" must be a prebuilt voice name`);
+    return { audio: await gemini.generateSpeech(requireString(body, 'text'), lang, { signal, voice }) };
+  },
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+// Directories (e.g. /assets) exist too, but can't be streamed
+const isFile = (filePath: string) => {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+};
+
+// Serves the production build (npm run build) so one process can host the whole app
+const serveStatic = (pathname: string, res: ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(pathname);
+  } catch {
+    sendJson(res, 400, { error: "Malformed URL" });
+    return;
+  }
+  let filePath = path.join(STATIC_DIR, urlPath);
+  // A plain prefix check would also let through siblings such as dist-foo
+  const inside = filePath === STATIC_DIR || filePath.startsWith(STATIC_DIR + path.sep);
+  if (!inside || !isFile(filePath)) {
+    filePath = path.join(STATIC_DIR, 'index.html'); // SPA fallback
+  }
+  if (!isFile(filePath)) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+  const stream = createReadStream(filePath);
+  stream.on('open', () => {
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+    stream.pipe(res);
+  });
+  stream.on('error', (e: NodeJS.ErrnoException) => {
+    if (res.headersSent) return void res.destroy(e);
+    if (e.code === 'ENOENT') return sendJson(res, 404, { error: "Not found" });
+    console.error(`Serving ${urlPath} failed:`, e);
+    sendJson(res, 500, { error: "Could not read file" });
+  });
+};
+
+const server = createServer(async (req, res) => {
+  let pathname: string;
+  try {
+    // Request targets such as `//[` aren't valid URLs; throwing here would take the server down
+    pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  } catch {
+    return sendJson(res, 400, { error: "Malformed URL" });
+  }
+  const handler = routes[pathname];
+
+  if (!handler) {
+    if (req.method === 'GET' && !pathname.startsWith('/api/')) return serveStatic(pathname, res);
+    return sendJson(res, 404, { error: "Not found" });
+  }
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: "Method not allowed" }, { Allow: 'POST' });
+  }
+
+  const limit = limiter.check(clientKey(req));
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    return sendJson(res, 429, { error: "Rate limit exceeded", kind: 'quota' }, { 'Retry-After': String(retryAfter) });
+  }
+
+  // Stop paying for model calls the browser has already given up on
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req);
+    sendJson(res, 200, await handler(body, controller.signal), { 'X-RateLimit-Remaining': String(limit.remaining) });
+  } catch (e) {
+    if (controller.signal.aborted) {
+      return; // Client is gone, nobody to answer
+    } else if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message });
+    } else {
+      const error = toLexiconError(e);
+      console.error(`${pathname} failed (${error.kind}):`, e);
+      // Don't leak upstream details (or the key) to clients
+      const message = error.kind === 'unknown' ? "Upstream model request failed" : error.message;
+      const headers: Record<string, string> = {};
+      if (error instanceof QuotaExceededError && error.retryAfterMs) {
+        headers['Retry-After'] = String(Math.ceil(error.retryAfterMs / 1000));
+      }
+      sendJson(res, ERROR_STATUS[error.kind], { error: message, kind: error.kind }, headers);
+    }
+  }
+});
+
+if (!process.env.API_KEY) {
+  console.warn("API_KEY is not set; model requests will fail until it is configured.");
+}
+
+server.listen(PORT, () => {
+  console.log(`TriLingua API listening on http://localhost:${PORT} (${RATE_LIMIT_PER_MINUTE} req/min per client)`);
+});
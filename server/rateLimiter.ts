@@ -0,0 +1,42 @@
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Fixed-window request counter per client key (usually the client IP).
+ * Kept in memory: good enough for a single instance, resets on restart.
+ */
+export class RateLimiter {
+  private windows = new Map<string, Window>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  check(key: string, now = Date.now()): RateLimitResult {
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+
+    if (window.count >= this.limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: window.resetAt - now };
+    }
+
+    window.count++;
+    return { allowed: true, remaining: this.limit - window.count, retryAfterMs: 0 };
+  }
+
+  // Drop expired windows so idle clients don't accumulate forever
+  prune(now = Date.now()) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
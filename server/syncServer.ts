@@ -0,0 +1,126 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { MAX_PUSH_OPS, SYNC_KEY_HEADER, SYNC_KEY_PATTERN, SyncOp, parseSyncOp } from "../services/syncProtocol";
+import { isRecord } from "../services/validation";
+import { RateLimiter } from "./rateLimiter";
+import { SyncStore } from "./syncStore";
+
+// Reference sync server: `npm run sync-server`. It only stores history ops and never
+// calls the model, so it can run anywhere, separately from the API server.
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.SYNC_PORT || 8788);
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const RATE_LIMIT_PER_MINUTE = Number(process.env.SYNC_RATE_LIMIT_PER_MINUTE || 120);
+// A full batch of entries with long example lists fits comfortably
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+// The app is usually served from another origin than the sync server
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+
+const store = new SyncStore(DATA_DIR);
+const limiter = new RateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+setInterval(() => limiter.prune(), 60_000).unref();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Headers': `Content-Type, ${SYNC_KEY_HEADER}`,
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...CORS_HEADERS, ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientKey = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const syncKey = (req: IncomingMessage): string => {
+  const key = req.headers[SYNC_KEY_HEADER.toLowerCase()];
+  if (typeof key !== 'string' || !SYNC_KEY_PATTERN.test(key)) throw new HttpError(401, `Missing or invalid ${SYNC_KEY_HEADER} header`);
+  return key;
+};
+
+const readOps = async (req: IncomingMessage): Promise<SyncOp[]> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk);
+  }
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  if (!isRecord(body)) throw new HttpError(400, "Request body must be a JSON object");
+  const { ops } = body;
+  if (!Array.isArray(ops)) throw new HttpError(400, `"ops" must be a list`);
+  if (ops.length > MAX_PUSH_OPS) throw new HttpError(413, `At most ${MAX_PUSH_OPS} ops per push`);
+  return ops.map((op: unknown, index: number) => {
+    try {
+      return parseSyncOp(op);
+    } catch (e) {
+      throw new HttpError(400, `Op #${index + 1}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+};
+
+const server = createServer(async (req, res) => {
+  let url: URL;
+  try {
+    // Request targets such as `//[` aren't valid URLs; throwing here would take the server down
+    url = new URL(req.url || '/', 'http://localhost');
+  } catch {
+    return sendJson(res, 400, { error: "Malformed URL" });
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    return res.end();
+  }
+  const route = `${req.method} ${url.pathname.replace(/\/$/, '')}`;
+  if (route !== 'POST /sync/push' && route !== 'GET /sync/pull') {
+    return sendJson(res, 404, { error: "Not found" });
+  }
+
+  const limit = limiter.check(clientKey(req));
+  if (!limit.allowed) {
+    return sendJson(res, 429, { error: "Rate limit exceeded" }, { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+  }
+
+  try {
+    const key = syncKey(req);
+    if (route === 'POST /sync/push') {
+      sendJson(res, 200, await store.push(key, await readOps(req)));
+    } else {
+      const since = Number(url.searchParams.get('since') || 0);
+      if (!Number.isInteger(since) || since < 0) throw new HttpError(400, `"since" must be a non-negative integer`);
+      sendJson(res, 200, await store.pull(key, since));
+    }
+  } catch (e) {
+    if (e instanceof HttpError) {
+      sendJson(res, e.status, { error: e.message });
+    } else {
+      console.error(`${route} failed:`, e);
+      sendJson(res, 500, { error: "Sync storage failed" });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`TriLingua sync server listening on http://localhost:${PORT}, storing data in ${DATA_DIR}`);
+});
@@ -0,0 +1,101 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { MAX_PULL_OPS, PullResponse, PushResponse, StoredSyncOp, SyncOp, compareVersions } from "../services/syncProtocol";
+
+interface Space {
+  cursor: number;
+  entries: Record<string, StoredSyncOp>; // Latest op per entry key, tombstones included
+}
+
+// Spaces kept in memory; the least recently used are dropped and read again when needed
+const MAX_CACHED_SPACES = 200;
+
+/**
+ * Keeps, for each sync key, the winning op of every entry in a JSON file. An op that
+ * wins gets the next sequence number, so a pull only returns what changed since the
+ * client's cursor. Files are named after a hash of the key, never the key itself.
+ */
+export class SyncStore {
+  private spaces = new Map<string, Promise<Space>>();
+  // Pushes per space run one after another
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(private dir: string) {}
+
+  private file(key: string) {
+    return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  private remember(key: string, space: Promise<Space>) {
+    this.spaces.delete(key);
+    this.spaces.set(key, space);
+    if (this.spaces.size > MAX_CACHED_SPACES) this.spaces.delete(this.spaces.keys().next().value!);
+  }
+
+  private space(key: string): Promise<Space> {
+    let space = this.spaces.get(key);
+    if (!space) {
+      const file = this.file(key);
+      space = existsSync(file)
+        ? readFile(file, 'utf8').then(text => JSON.parse(text) as Space)
+        : Promise.resolve({ cursor: 0, entries: {} });
+      // A failed read is retried on the next request instead of being cached
+      space.catch(() => {
+        if (this.spaces.get(key) === space) this.spaces.delete(key);
+      });
+    }
+    this.remember(key, space);
+    return space;
+  }
+
+  // Writes to a temporary file first so a crash never leaves half a file behind
+  private async save(key: string, space: Space): Promise<void> {
+    const file = this.file(key);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(space));
+    await rename(`${file}.tmp`, file);
+  }
+
+  private enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(key) ?? Promise.resolve()).then(task);
+    const done = run.then(() => {}, () => {});
+    this.queues.set(key, done);
+    done.then(() => {
+      if (this.queues.get(key) === done) this.queues.delete(key);
+    });
+    return run;
+  }
+
+  /**
+   * Applies the ops to a copy of the space and only swaps it in once it is on disk,
+   * so a failed write leaves nothing behind that the client was told had failed.
+   */
+  push(key: string, ops: SyncOp[]): Promise<PushResponse> {
+    return this.enqueue(key, async () => {
+      const space = await this.space(key);
+      const next: Space = { cursor: space.cursor, entries: { ...space.entries } };
+      let accepted = 0;
+      for (const op of ops) {
+        const current = next.entries[op.key];
+        if (current && compareVersions(op, current) <= 0) continue;
+        next.entries[op.key] = { ...op, seq: ++next.cursor };
+        accepted++;
+      }
+      if (accepted) {
+        await this.save(key, next);
+        this.remember(key, Promise.resolve(next));
+      }
+      return { accepted, cursor: next.cursor };
+    });
+  }
+
+  async pull(key: string, since: number): Promise<PullResponse> {
+    const space = await this.space(key);
+    const changed = Object.values(space.entries).filter(op => op.seq > since).sort((a, b) => a.seq - b.seq);
+    const ops = changed.slice(0, MAX_PULL_OPS);
+    const more = changed.length > ops.length;
+    return { ops, cursor: more ? ops[ops.length - 1].seq : space.cursor, more };
+  }
+}
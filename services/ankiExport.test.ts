@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnkiTemplate, DEFAULT_ANKI_TEMPLATE, exportAnkiDeck, normalizeAnkiTemplate, rubyToAnki } from './ankiExport';
+import { history, wordData } from './testFixtures';
+import { ZipEntry } from './zip';
+
+// The archive's entries are checked directly; services/zip.test.ts covers the format
+vi.mock('./zip', () => ({ createZip: vi.fn(async () => new Blob()) }));
+const { createZip } = await import('./zip');
+
+const exported = async (...args: Parameters<typeof exportAnkiDeck>) => {
+  const { result } = await exportAnkiDeck(...args);
+  const entries: ZipEntry[] = vi.mocked(createZip).mock.lastCall![0];
+  const file = (path: string) => entries.find(entry => entry.path === path)?.data as string;
+  return { result, entries, file };
+};
+
+describe('rubyToAnki', () => {
+  it("writes readings in Anki's furigana syntax", () => {
+    expect(rubyToAnki('<ruby>日本<rt>にほん</rt></ruby>語を<ruby>話<rt>はな</rt></ruby>す')).toBe('日本[にほん]語を 話[はな]す');
+  });
+
+  it('escapes HTML in the text', () => {
+    expect(rubyToAnki('1 &lt; 2 <ruby>&amp;<rt>と</rt></ruby>')).toBe('1 &lt; 2  &amp;[と]');
+  });
+});
+
+describe('normalizeAnkiTemplate', () => {
+  it('falls back to the defaults for anything missing or invalid', () => {
+    expect(normalizeAnkiTemplate(null)).toEqual(DEFAULT_ANKI_TEMPLATE);
+    expect(normalizeAnkiTemplate({ deck: ' ', front: 7, fields: ['Bogus'] })).toEqual(DEFAULT_ANKI_TEMPLATE);
+  });
+
+  it('keeps valid fields in their saved order', () => {
+    const template = normalizeAnkiTemplate({ deck: 'Mine', fields: ['English', 'Bogus', 'Japanese'] });
+    expect(template).toMatchObject({ deck: 'Mine', noteType: 'TriLingua', fields: ['English', 'Japanese'] });
+  });
+});
+
+describe('exportAnkiDeck', () => {
+  // No audio or stored images, so nothing is generated or read from IndexedDB
+  const template: AnkiTemplate = { ...DEFAULT_ANKI_TEMPLATE, fields: ['Japanese', 'English', 'DefinitionJP', 'Examples'] };
+
+  it('writes one note per word with the import headers', async () => {
+    const dog = wordData('犬', 'dog', '狗', { definitions: { jp: '', jp_furigana: '<ruby>犬<rt>いぬ</rt></ruby>', en: '', zh: '' } });
+    const items = [...history(dog, wordData('犬', 'dog', '狗')), { ...history(wordData('猫', 'cat', '猫'))[0], type: 'kanji' as const }];
+    const { result, file } = await exported(items, template);
+
+    expect(result).toEqual({ notes: 1, media: 0, failures: [] });
+    expect(file('notes.txt').split('\n')).toEqual([
+      '#separator:tab',
+      '#html:true',
+      '#notetype:TriLingua',
+      '#deck:TriLingua',
+      '#columns:Japanese\tEnglish\tDefinitionJP\tExamples\tTags',
+      '#tags column:5',
+      '犬\tdog\t犬[いぬ]\t\ttrilingua',
+    ]);
+  });
+
+  it('keeps tabs, newlines and quotes from breaking the columns', async () => {
+    const data = wordData('<b>犬</b>', 'a\t"dog"\nline', '狗');
+    const { file } = await exported(history(data), template);
+    expect(file('notes.txt').split('\n').pop()).toBe('&lt;b&gt;犬&lt;/b&gt;\t"a ""dog""<br>line"\t\t\ttrilingua');
+  });
+
+  it('ships the card templates and a readme', async () => {
+    const { entries, file } = await exported(history(wordData('犬', 'dog', '狗')), template);
+    expect(entries.map(entry => entry.path)).toEqual([
+      'notes.txt', 'README.txt', 'card_template/front.html', 'card_template/back.html', 'card_template/styling.css',
+    ]);
+    expect(file('card_template/front.html')).toBe(template.front);
+    expect(file('README.txt')).toContain('Japanese, English, DefinitionJP, Examples');
+  });
+
+  it('links web images but not other URLs', async () => {
+    const [web, script] = history(wordData('犬', 'dog', '狗'), wordData('猫', 'cat', '猫'));
+    const { file } = await exported(
+      [{ ...web, imageUrl: 'https://example.com/dog.jpg' }, { ...script, imageUrl: 'javascript:alert(1)' }],
+      { ...template, fields: ['Japanese', 'Image'] },
+    );
+    expect(file('notes.txt').split('\n').slice(-2)).toEqual([
+      '犬\t"<img src=""https://example.com/dog.jpg"">"\ttrilingua',
+      '猫\t\ttrilingua',
+    ]);
+  });
+});
@@ -0,0 +1,271 @@
+import { HistoryItem, WordData } from "../types";
+import { SpeechLang } from "./lexiconProvider";
+import { lexiconService } from "./lexiconService";
+import { imageStore } from "./imageStore";
+import { decodePcm, encodeWav } from "./audio";
+import { createZip, ZipEntry } from "./zip";
+import { cardId } from "./srs";
+import { isAbortError } from "./errors";
+import { parseRuby } from "./ruby";
+import { isRecord } from "./validation";
+
+const TEMPLATE_KEY = 'trilingua_anki_template';
+
+export const ANKI_FIELDS = [
+  'Japanese', 'English', 'Chinese',
+  'Reading', 'IPA', 'Pinyin',
+  'DefinitionJP', 'DefinitionEN', 'DefinitionZH',
+  'Examples', 'Inflections', 'Etymology', 'Synonyms', 'Antonyms',
+  'Image', 'AudioJP', 'AudioEN', 'AudioZH',
+] as const;
+
+export type AnkiField = typeof ANKI_FIELDS[number];
+
+/**
+ * What goes into the export: the note's columns (in order) and the card templates
+ * shipped alongside them. Audio and image fields are only generated when selected.
+ */
+export interface AnkiTemplate {
+  noteType: string;
+  deck: string;
+  fields: AnkiField[];
+  front: string;
+  back: string;
+  css: string;
+}
+
+export const DEFAULT_ANKI_TEMPLATE: AnkiTemplate = {
+  noteType: 'TriLingua',
+  deck: 'TriLingua',
+  fields: [...ANKI_FIELDS],
+  front: `<div class="headword">{{Japanese}}</div>
+{{AudioJP}}`,
+  back: `{{FrontSide}}
+<hr id="answer">
+<div class="reading">{{Reading}}</div>
+<div class="glosses">{{English}} {{AudioEN}} · {{Chinese}} {{AudioZH}} <span class="pinyin">{{Pinyin}}</span></div>
+{{Image}}
+<div class="definition">{{furigana:DefinitionJP}}</div>
+<div class="definition">{{DefinitionEN}}</div>
+<div class="definition">{{DefinitionZH}}</div>
+<div class="examples">{{furigana:Examples}}</div>
+{{#Inflections}}<div class="inflections">{{Inflections}}</div>{{/Inflections}}
+{{#Etymology}}<div class="etymology">{{Etymology}}</div>{{/Etymology}}`,
+  css: `.card { font-family: "Noto Sans JP", "Noto Sans SC", sans-serif; font-size: 18px; text-align: center; color: #1e293b; background: #fff; }
+.headword { font-size: 48px; font-weight: bold; margin: 16px 0; }
+.reading { color: #64748b; }
+.glosses { margin: 8px 0; }
+.pinyin { color: #64748b; }
+.definition, .examples, .inflections, .etymology { text-align: left; margin: 12px auto; max-width: 640px; }
+.examples li { margin-bottom: 6px; }
+.translation { color: #64748b; font-size: 14px; }
+img { max-width: 100%; border-radius: 8px; }`,
+};
+
+// A template from storage or a backup file, with defaults for anything missing or invalid
+export const normalizeAnkiTemplate = (saved: unknown): AnkiTemplate => {
+  if (!isRecord(saved)) return DEFAULT_ANKI_TEMPLATE;
+  const fields = Array.isArray(saved.fields)
+    ? saved.fields.filter((f: unknown): f is AnkiField => ANKI_FIELDS.includes(f as AnkiField))
+    : [];
+  return {
+    ...DEFAULT_ANKI_TEMPLATE,
+    ...Object.fromEntries(['noteType', 'deck', 'front', 'back', 'css'].flatMap(key => {
+      const value = saved[key];
+      return typeof value === 'string' && value.trim() ? [[key, value]] : [];
+    })),
+    fields: fields.length ? fields : DEFAULT_ANKI_TEMPLATE.fields,
+  };
+};
+
+export const loadAnkiTemplate = (): AnkiTemplate => {
+  try {
+    return normalizeAnkiTemplate(JSON.parse(localStorage.getItem(TEMPLATE_KEY) || '{}'));
+  } catch {
+    return DEFAULT_ANKI_TEMPLATE;
+  }
+};
+
+export const saveAnkiTemplate = (template: AnkiTemplate) => {
+  localStorage.setItem(TEMPLATE_KEY, JSON.stringify(template));
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Converts `<ruby>日本<rt>にほん</rt></ruby>語` into Anki's furigana syntax, ` 日本[にほん]語`.
+ * The leading space marks where the reading starts; Anki hides it when rendering.
+ * The result is HTML-escaped plain text.
+ */
+export const rubyToAnki = (html: string): string =>
+  escapeHtml(parseRuby(html)
+    .map(token => token.type === 'ruby' ? ` ${token.base}[${token.reading}]` : token.text)
+    .join('')
+    .trim());
+
+// FNV-1a, enough to give media files stable, collision-resistant names across exports
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+// Quotes a TSV field the way Anki's importer expects; newlines become <br> since notes are HTML
+const tsvField = (value: string) => {
+  const flat = value.replace(/\r?\n/g, '<br>').replace(/\t/g, ' ');
+  return /"/.test(flat) ? `"${flat.replace(/"/g, '""')}"` : flat;
+};
+
+const examplesHtml = (data: WordData) => data.examples.length
+  ? `<ul>${data.examples.map(ex =>
+      `<li>${ex.lang === 'jp' ? rubyToAnki(ex.text_furigana || ex.text) : escapeHtml(ex.text)}` +
+      `<div class="translation">${escapeHtml(ex.translation)}</div></li>`
+    ).join('')}</ul>`
+  : '';
+
+const inflectionsHtml = (data: WordData) => (data.inflections ?? [])
+  .map(group => `<b>${escapeHtml(group.partOfSpeech)}</b>: ` +
+    group.forms.map(form => `${escapeHtml(form.label)} ${escapeHtml(form.value)}`).join(', '))
+  .join('<br>');
+
+const AUDIO_FIELDS: Partial<Record<AnkiField, SpeechLang>> = { AudioJP: 'jp', AudioEN: 'en', AudioZH: 'zh' };
+
+export interface AnkiExportResult {
+  notes: number;
+  media: number;
+  failures: string[]; // Media that could not be included, one line each
+}
+
+export interface AnkiExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Builds a zip with a tab-separated note file (with Anki import headers), the
+ * referenced media and the card templates. Only word entries are exported; the
+ * same word looked up twice becomes one note.
+ */
+export const exportAnkiDeck = async (
+  history: HistoryItem[],
+  template: AnkiTemplate,
+  { signal, onProgress }: AnkiExportOptions = {}
+): Promise<{ blob: Blob; result: AnkiExportResult }> => {
+  const seen = new Set<string>();
+  const items = history.filter(item => {
+    if (item.type !== 'word') return false;
+    const id = cardId(item.data as WordData);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+
+  const media = new Map<string, Blob>();
+  const failures: string[] = [];
+  const rows: string[] = [];
+
+  const audioField = async (text: string, lang: SpeechLang) => {
+    if (!text) return '';
+    const filename = `trilingua_${lang}_${hash(text)}.wav`;
+    if (media.has(filename)) return `[sound:${filename}]`;
+    try {
+      const audio = await lexiconService.generateSpeech(text, lang, { signal });
+      if (!audio) throw new Error("no audio returned");
+      media.set(filename, encodeWav(decodePcm(audio)));
+      return `[sound:${filename}]`;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      failures.push(`Audio for "${text}" (${lang}): ${e instanceof Error ? e.message : String(e)}`);
+      return '';
+    }
+  };
+
+  const imageField = async (item: HistoryItem) => {
+    if (item.imageId) {
+      const blob = await imageStore.getBlob(item.imageId);
+      if (blob) {
+        const filename = `trilingua_img_${hash(item.imageId)}.${blob.type.split('/')[1] || 'jpg'}`;
+        media.set(filename, blob);
+        return `<img src="${filename}">`;
+      }
+      failures.push(`Image for "${item.label}": no longer stored`);
+      return '';
+    }
+    // Web images stay remote; Anki shows them while online
+    return item.imageUrl && /^https?:/.test(item.imageUrl) ? `<img src="${escapeHtml(item.imageUrl)}">` : '';
+  };
+
+  for (const [index, item] of items.entries()) {
+    signal?.throwIfAborted();
+    const data = item.data as WordData;
+    const jpReading = data.pronunciation.jp;
+
+    const values: Record<AnkiField, () => string | Promise<string>> = {
+      Japanese: () => escapeHtml(data.coreWord.jp),
+      English: () => escapeHtml(data.coreWord.en),
+      Chinese: () => escapeHtml(data.coreWord.zh),
+      Reading: () => escapeHtml(jpReading),
+      IPA: () => escapeHtml(data.pronunciation.en),
+      Pinyin: () => escapeHtml(data.pronunciation.zh),
+      DefinitionJP: () => rubyToAnki(data.definitions.jp_furigana || data.definitions.jp),
+      DefinitionEN: () => escapeHtml(data.definitions.en),
+      DefinitionZH: () => escapeHtml(data.definitions.zh),
+      Examples: () => examplesHtml(data),
+      Inflections: () => inflectionsHtml(data),
+      Etymology: () => escapeHtml(data.etymology),
+      Synonyms: () => escapeHtml(data.related.synonyms.join(', ')),
+      Antonyms: () => escapeHtml(data.related.antonyms.join(', ')),
+      Image: () => imageField(item),
+      AudioJP: () => audioField(data.coreWord.jp, 'jp'),
+      AudioEN: () => audioField(data.coreWord.en, 'en'),
+      AudioZH: () => audioField(data.coreWord.zh, 'zh'),
+    };
+
+    const row: string[] = [];
+    // Sequential on purpose: TTS calls count against the same rate limit as lookups
+    for (const field of template.fields) row.push(tsvField(await values[field]()));
+    row.push('trilingua');
+    rows.push(row.join('\t'));
+    onProgress?.(index + 1, items.length);
+  }
+
+  const columns = [...template.fields, 'Tags'];
+  const notes = [
+    '#separator:tab',
+    '#html:true',
+    `#notetype:${template.noteType}`,
+    `#deck:${template.deck}`,
+    `#columns:${columns.join('\t')}`,
+    `#tags column:${columns.length}`,
+    ...rows,
+  ].join('\n');
+
+  const hasAudio = template.fields.some(field => AUDIO_FIELDS[field]);
+  const readme = [
+    `TriLingua export: ${rows.length} notes, ${media.size} media files.`,
+    '',
+    `1. In Anki, create a note type named "${template.noteType}" with these fields, in this order:`,
+    `   ${template.fields.join(', ')}`,
+    '   Paste card_template/front.html, back.html and styling.css into its card template.',
+    `2. Copy everything in media/ into your Anki profile's collection.media folder${hasAudio ? ' (audio and images)' : ''}.`,
+    '3. File > Import > notes.txt. The deck, note type and columns are preset by the file header.',
+  ].join('\n');
+
+  const entries: ZipEntry[] = [
+    { path: 'notes.txt', data: notes },
+    { path: 'README.txt', data: readme },
+    { path: 'card_template/front.html', data: template.front },
+    { path: 'card_template/back.html', data: template.back },
+    { path: 'card_template/styling.css', data: template.css },
+    ...[...media].map(([filename, blob]) => ({ path: `media/${filename}`, data: blob })),
+  ];
+
+  return {
+    blob: await createZip(entries),
+    result: { notes: rows.length, media: media.size, failures },
+  };
+};
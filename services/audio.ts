@@ -1,27 +1,250 @@
+import { lexiconService } from "./lexiconService";
+import { SpeechLang, DEFAULT_VOICES } from "./lexiconProvider";
+import { downloadBlob } from "./download";
+
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext; // Older Safari
+  }
+}
+
 const SAMPLE_RATE = 24000;
+const MAX_CACHED_CLIPS = 50;
+const RATE_KEY = 'trilingua_playback_rate';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1] as const;
+export type PlaybackRate = typeof PLAYBACK_RATES[number];
+
+export interface AudioClip {
+  id: string; // lang|voice|text, also the cache key
+  text: string;
+  lang: SpeechLang;
+  pcm: Int16Array; // Raw 16-bit mono samples at SAMPLE_RATE, kept for WAV export
+  buffer: AudioBuffer;
+}
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackState {
+  clipId: string | null; // Last clip loaded or played; stays set after playback ends
+  status: PlaybackStatus;
+  rate: PlaybackRate;
+}
+
+export const clipId = (text: string, lang: SpeechLang, voice = DEFAULT_VOICES[lang]) => `${lang}|${voice}|${text}`;
+
+export const decodePcm = (base64: string): Int16Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+};
+
+// Rejects as soon as the signal aborts, leaving the promise itself running for anyone else waiting on it
+const untilAborted = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const loadRate = (): PlaybackRate => {
+  const saved = Number(localStorage.getItem(RATE_KEY));
+  return (PLAYBACK_RATES as readonly number[]).includes(saved) ? saved as PlaybackRate : 1;
+};
 
 /**
- * Decodes base64 encoded 16-bit PCM (as returned by the TTS model) and plays it.
+ * Wraps 16-bit mono PCM in a RIFF/WAVE header.
  */
-export const playPcmAudio = (base64Audio: string) => {
-  const binaryString = atob(base64Audio);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+export const encodeWav = (pcm: Int16Array, sampleRate = SAMPLE_RATE): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  const dataSize = pcm.length * 2;
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  // WAV is little-endian, like every platform browsers run on
+  return new Blob([header.buffer, pcm.slice().buffer], { type: 'audio/wav' });
+};
+
+/**
+ * One AudioContext and one active playback for the whole app. Decoded clips are
+ * kept in memory (LRU) so replaying a word costs neither a request nor a decode.
+ */
+class AudioPlayer {
+  private context: AudioContext | null = null;
+  private clips = new Map<string, Promise<AudioClip | null>>();
+  private listeners = new Set<() => void>();
+  private state: PlaybackState = { clipId: null, status: 'idle', rate: 1 };
+
+  private current: AudioClip | null = null;
+  private source: AudioBufferSourceNode | null = null;
+  private offset = 0; // Seconds into the clip where the current source started
+  private startedAt = 0; // context.currentTime when the current source started
+
+  constructor() {
+    if (typeof localStorage !== 'undefined') this.state.rate = loadRate();
   }
 
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
-  const dataInt16 = new Int16Array(bytes.buffer);
-  const buffer = audioContext.createBuffer(1, dataInt16.length, SAMPLE_RATE);
-  const channelData = buffer.getChannelData(0);
+  private getContext(): AudioContext {
+    if (!this.context) {
+      const Context = window.AudioContext ?? window.webkitAudioContext;
+      if (!Context) throw new Error("Audio playback is not supported in this browser");
+      this.context = new Context({ sampleRate: SAMPLE_RATE });
+    }
+    return this.context;
+  }
 
-  for (let i = 0; i < dataInt16.length; i++) {
-    channelData[i] = dataInt16[i] / 32768.0;
+  private setState(patch: Partial<PlaybackState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
   }
 
-  const source = audioContext.createBufferSource();
-  source.buffer = buffer;
-  source.connect(audioContext.destination);
-  source.start();
+  getState = (): PlaybackState => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  /**
+   * Fetches (through the provider and its persistent cache) and decodes a clip.
+   * Resolves to null when the provider has no audio for this text. Callers asking for the
+   * same clip share one load; a caller's signal only stops that caller waiting for it.
+   */
+  load(text: string, lang: SpeechLang, options: { voice?: string; signal?: AbortSignal } = {}): Promise<AudioClip | null> {
+    const voice = options.voice ?? DEFAULT_VOICES[lang];
+    const id = clipId(text, lang, voice);
+
+    let pending = this.clips.get(id);
+    if (!pending) {
+      pending = lexiconService.generateSpeech(text, lang, { voice }).then(base64 => {
+        if (!base64) return null;
+        const pcm = decodePcm(base64);
+        const buffer = this.getContext().createBuffer(1, pcm.length, SAMPLE_RATE);
+        const channelData = buffer.getChannelData(0);
+        for (let i = 0; i < pcm.length; i++) {
+          channelData[i] = pcm[i] / 32768.0;
+        }
+        return { id, text, lang, pcm, buffer };
+      });
+      // Failed or empty loads shouldn't stick; the next click tries again
+      pending.then(clip => { if (!clip) this.clips.delete(id); }, () => this.clips.delete(id));
+      this.clips.set(id, pending);
+
+      if (this.clips.size > MAX_CACHED_CLIPS) {
+        this.clips.delete(this.clips.keys().next().value!);
+      }
+    } else {
+      // Refresh LRU position
+      this.clips.delete(id);
+      this.clips.set(id, pending);
+    }
+    return options.signal ? untilAborted(pending, options.signal) : pending;
+  }
+
+  play(clip: AudioClip, fromSeconds = 0) {
+    this.stopSource();
+    const context = this.getContext();
+    // Browsers start contexts suspended until a user gesture
+    if (context.state === 'suspended') context.resume();
+
+    const source = context.createBufferSource();
+    source.buffer = clip.buffer;
+    source.playbackRate.value = this.state.rate;
+    source.connect(context.destination);
+    source.onended = () => {
+      if (this.source !== source) return; // Stopped or replaced on purpose
+      this.source = null;
+      this.offset = 0;
+      this.setState({ status: 'idle' });
+    };
+    source.start(0, fromSeconds);
+
+    this.current = clip;
+    this.source = source;
+    this.offset = fromSeconds;
+    this.startedAt = context.currentTime;
+    this.setState({ clipId: clip.id, status: 'playing' });
+  }
+
+  pause() {
+    if (this.state.status !== 'playing' || !this.current) return;
+    this.offset = this.position();
+    this.stopSource();
+    this.setState({ status: 'paused' });
+  }
+
+  resume() {
+    if (this.state.status !== 'paused' || !this.current) return;
+    this.play(this.current, this.offset);
+  }
+
+  stop() {
+    this.stopSource();
+    this.offset = 0;
+    if (this.state.status !== 'idle') this.setState({ status: 'idle' });
+  }
+
+  setRate(rate: PlaybackRate) {
+    if (this.state.status === 'playing') {
+      // Re-anchor so position() stays right after the speed change
+      this.offset = this.position();
+      this.startedAt = this.getContext().currentTime;
+    }
+    if (this.source) this.source.playbackRate.value = rate;
+    localStorage.setItem(RATE_KEY, String(rate));
+    this.setState({ rate });
+  }
+
+  // Marks a clip as loading so its button can show progress
+  markLoading(id: string) {
+    this.stop();
+    this.setState({ clipId: id, status: 'loading' });
+  }
+
+  markIdle(id: string) {
+    if (this.state.clipId === id && this.state.status === 'loading') this.setState({ status: 'idle' });
+  }
+
+  private position(): number {
+    const elapsed = (this.getContext().currentTime - this.startedAt) * this.state.rate;
+    return Math.min(this.offset + elapsed, this.current?.buffer.duration ?? 0);
+  }
+
+  private stopSource() {
+    const source = this.source;
+    this.source = null;
+    if (source) {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    }
+  }
+}
+
+export const audioPlayer = new AudioPlayer();
+
+export const downloadClip = (clip: AudioClip) => {
+  // Keep letters from any script, replace everything else
+  const name = clip.text.replace(/<[^>]*>?/gm, '').replace(/[^\p{L}\p{N}]+/gu, '_').slice(0, 40) || 'audio';
+  downloadBlob(encodeWav(clip.pcm), `${name}_${clip.lang}.wav`);
 };
@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Collection, HistoryItem } from '../types';
+import { BACKUP_FORMAT, BACKUP_VERSION, BackupFormatError, BackupStudyState, importBackup, mergeCollections, mergeHistory, parseBackup, restoreStudyState } from './backup';
+import { imageStore } from './imageStore';
+import { CardState, loadCardStates, saveCardStates } from './srs';
+import { loadQuizScores } from './quiz';
+import { loadDrillStats, saveDrillStats } from './drill';
+import { loadKnownWords, saveKnownWords } from './reader';
+import { entry, wordData } from './testFixtures';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+
+const dog = entry(wordData('犬', 'dog', '狗'), 1);
+const cat = entry(wordData('猫', 'cat', '猫'), 2);
+const bird = entry(wordData('鳥', 'bird', '鸟'), 3);
+
+const list = (id: string, name: string, items: HistoryItem[]): Collection => ({ id, name, createdAt: 1, items });
+
+const card = (id: string, lastReviewedAt: number): CardState =>
+  ({ id, ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: lastReviewedAt + 86_400_000, introducedAt: 0, lastReviewedAt });
+
+const archive = (fields: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: '2026-01-01T00:00:00.000Z', history: [], collections: [], ...fields });
+
+describe('parseBackup', () => {
+  it('refuses files that are not readable backups', () => {
+    expect(() => parseBackup('{')).toThrow(BackupFormatError);
+    expect(() => parseBackup('[]')).toThrow(/not a TriLingua backup/);
+    expect(() => parseBackup(archive({ format: 'other' }))).toThrow(/not a TriLingua backup/);
+    expect(() => parseBackup(archive({ version: 0 }))).toThrow(/no valid version/);
+    expect(() => parseBackup(archive({ version: BACKUP_VERSION + 1 }))).toThrow(/newer version/);
+  });
+
+  it('leaves out broken entries and says why', () => {
+    const parsed = parseBackup(archive({
+      history: [dog, { type: 'word' }, 'text'],
+      collections: [list('l1', 'Animals', [cat]), { items: [] }],
+    }));
+    expect(parsed.history.map(item => item.label)).toEqual(['犬']);
+    expect(parsed.rejected.history).toHaveLength(2);
+    expect(parsed.rejected.history[0]).toMatch(/^Entry #2:/);
+    expect(parsed.collections.map(c => c.name)).toEqual(['Animals']);
+    expect(parsed.rejected.collections).toHaveLength(1);
+  });
+
+  it('drops image IDs and keeps only inline images', () => {
+    const parsed = parseBackup(archive({
+      history: [{ ...dog, imageId: 'local', image: 'data:image/png;base64,AAAA' }, { ...cat, image: 'https://example.com/cat.png' }],
+    }));
+    expect(parsed.history[0]).not.toHaveProperty('imageId');
+    expect(parsed.history[0]).toHaveProperty('image', 'data:image/png;base64,AAAA');
+    expect(parsed.history[1]).not.toHaveProperty('image');
+  });
+
+  it('validates study tables record by record', () => {
+    const parsed = parseBackup(archive({
+      study: {
+        srsCards: { good: card('good', 5), bad: { ...card('bad', 5), ease: -1 } },
+        quizScores: 'nope',
+        drillStats: { form: { attempts: 3, correct: 2 } },
+        knownWords: ['犬', 7],
+      },
+    }));
+    expect(Object.keys(parsed.study.srsCards)).toEqual(['good']);
+    expect(parsed.study.quizScores).toEqual({});
+    expect(parsed.study.drillStats).toEqual({ form: { attempts: 3, correct: 2 } });
+    expect(parsed.study.knownWords).toEqual(['犬']);
+    expect(parsed.rejected.study).toEqual(['Review card "bad" is malformed', 'Quiz score is not a table']);
+  });
+
+  it('reads a backup without settings or study progress', () => {
+    const parsed = parseBackup(archive());
+    expect(parsed.settings).toBeNull();
+    expect(parsed.study).toEqual({ srsCards: {}, quizScores: {}, drillStats: {}, knownWords: [] });
+  });
+});
+
+describe('mergeHistory', () => {
+  it('adds new entries and skips ones already present', () => {
+    const { next, report } = mergeHistory([dog, cat], [{ ...cat, id: 'elsewhere' }, bird]);
+    expect(next.map(item => item.label)).toEqual(['鳥', '猫', '犬']);
+    expect(next.find(item => item.label === '猫')!.id).toBe(cat.id);
+    expect(report).toEqual({ added: 1, updated: 0, skipped: 1, rejected: [] });
+  });
+
+  it("picks up the file's pin and tags", () => {
+    const { next, report } = mergeHistory([{ ...dog, tags: ['animals'] }], [{ ...dog, pinned: true, tags: ['pets', 'animals'] }]);
+    expect(next[0]).toMatchObject({ pinned: true, tags: ['animals', 'pets'] });
+    expect(report.updated).toBe(1);
+  });
+
+  it('keeps ids unique when a different entry reuses one', () => {
+    const { next } = mergeHistory([dog], [{ ...bird, id: dog.id }]);
+    expect(new Set(next.map(item => item.id)).size).toBe(2);
+  });
+});
+
+describe('mergeCollections', () => {
+  it('matches lists by name, ignoring case, and adds only missing entries', () => {
+    const { next, report } = mergeCollections([list('l1', 'Animals', [dog])], [list('l9', 'animals', [dog, cat])]);
+    expect(next).toHaveLength(1);
+    expect(next[0].id).toBe('l1');
+    expect(next[0].items.map(item => item.label)).toEqual(['犬', '猫']);
+    expect(report).toEqual({ added: 0, updated: 1, skipped: 0, rejected: [] });
+  });
+
+  it('skips lists with nothing new and appends new lists with unique ids', () => {
+    const { next, report } = mergeCollections([list('l1', 'Animals', [dog])], [list('l1', 'Birds', [bird]), list('l2', 'ANIMALS', [dog])]);
+    expect(next.map(c => c.name)).toEqual(['Animals', 'Birds']);
+    expect(next[1].id).not.toBe('l1');
+    expect(report).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+  });
+});
+
+describe('restoreStudyState', () => {
+  beforeEach(() => storage.clear());
+
+  const study = (fields: Partial<BackupStudyState>): BackupStudyState =>
+    ({ srsCards: {}, quizScores: {}, drillStats: {}, knownWords: [], ...fields });
+
+  it('keeps whichever review card was reviewed last', () => {
+    saveCardStates({ a: card('a', 10), b: card('b', 10) });
+    const report = restoreStudyState(study({ srsCards: { a: card('a', 20), b: card('b', 5), c: card('c', 1) } }));
+    const cards = loadCardStates();
+    expect(cards.a.lastReviewedAt).toBe(20);
+    expect(cards.b.lastReviewedAt).toBe(10);
+    expect(cards.c).toBeDefined();
+    expect(report).toMatchObject({ added: 1, updated: 1, skipped: 1 });
+  });
+
+  it('keeps the drill stats with more practice and merges known words', () => {
+    saveDrillStats({ past: { attempts: 5, correct: 1 } });
+    saveKnownWords(['犬']);
+    const report = restoreStudyState(study({ drillStats: { past: { attempts: 2, correct: 2 } }, knownWords: ['犬', '猫', '猫'] }));
+    expect(loadDrillStats().past).toEqual({ attempts: 5, correct: 1 });
+    expect(loadKnownWords()).toEqual(['犬', '猫']);
+    expect(loadQuizScores()).toEqual({});
+    expect(report).toMatchObject({ added: 1, updated: 0 });
+  });
+});
+
+describe('importBackup', () => {
+  beforeEach(() => storage.clear());
+
+  it('stores one image per added entry', async () => {
+    let stored = 0;
+    const save = vi.spyOn(imageStore, 'save').mockImplementation(async () => `img-${++stored}`);
+    const image = (n: number) => `data:image/png;base64,${n}`;
+    const parsed = parseBackup(archive({
+      history: [{ ...dog, image: image(1) }, { ...cat, image: image(2) }, { ...cat, id: 'copy', tags: ['pets'], image: image(3) }],
+    }));
+
+    const { history, report } = await importBackup(parsed, { history: [dog], collections: [] });
+    expect(save.mock.calls).toEqual([[image(2)]]);
+    const { next } = mergeHistory([dog], history);
+    expect(next.find(item => item.label === '猫')).toMatchObject({ imageId: 'img-1', tags: ['pets'] });
+    expect(report.history).toMatchObject({ added: 1, updated: 1, skipped: 1 });
+  });
+});
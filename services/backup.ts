@@ -0,0 +1,308 @@
+import { Collection, HistoryItem } from "../types";
+import { contentKey, normalizeTags } from "./history";
+import { imageStore } from "./imageStore";
+import { isRecord, validTable, validateCollection, validateHistoryItem } from "./validation";
+import { CardState, ReviewSettings, isCardState, loadCardStates, loadReviewSettings, normalizeReviewSettings, saveCardStates, saveReviewSettings } from "./srs";
+import { WordScore, isWordScore, loadQuizScores, saveQuizScores } from "./quiz";
+import { FormStats, isFormStats, loadDrillStats, saveDrillStats } from "./drill";
+import { loadKnownWords, saveKnownWords } from "./reader";
+import { AnkiTemplate, loadAnkiTemplate, normalizeAnkiTemplate, saveAnkiTemplate } from "./ankiExport";
+import { PLAYBACK_RATES, PlaybackRate, audioPlayer } from "./audio";
+
+export const BACKUP_FORMAT = 'trilingua-backup';
+// Bump when the archive layout changes; older versions must stay readable
+export const BACKUP_VERSION = 1;
+
+// A history entry as archived: the stored image travels inline as a data: URL
+export type BackupHistoryItem = Omit<HistoryItem, 'imageId'> & { image?: string };
+
+export interface BackupSettings {
+  review: ReviewSettings;
+  anki: AnkiTemplate;
+  playbackRate: PlaybackRate;
+}
+
+export interface BackupStudyState {
+  srsCards: Record<string, CardState>;
+  quizScores: Record<string, WordScore>;
+  drillStats: Record<string, FormStats>;
+  knownWords: string[];
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  history: BackupHistoryItem[];
+  collections: Collection[];
+  settings: BackupSettings;
+  study: BackupStudyState;
+}
+
+// The file isn't a backup this version can read; nothing was imported
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+export interface SectionReport {
+  added: number;
+  updated: number; // Already present; the file's study record was newer, or its copy contributed pins, tags or list entries
+  skipped: number; // Already present and nothing to take from the file
+  rejected: string[]; // Why each broken record was left out
+}
+
+export interface ImportReport {
+  history: SectionReport;
+  collections: SectionReport;
+  study: SectionReport;
+  settingsRestored: boolean;
+}
+
+const emptySection = (): SectionReport => ({ added: 0, updated: 0, skipped: 0, rejected: [] });
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Everything the user has built up: history with full entries and stored images,
+ * collections, study progress and settings.
+ */
+export const createBackup = async (history: HistoryItem[], collections: Collection[]): Promise<BackupArchive> => {
+  const items: BackupHistoryItem[] = [];
+  for (const { imageId, ...item } of history) {
+    const blob = imageId ? await imageStore.getBlob(imageId) : null;
+    items.push(blob ? { ...item, image: await blobToDataUrl(blob) } : item);
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    history: items,
+    collections,
+    settings: { review: loadReviewSettings(), anki: loadAnkiTemplate(), playbackRate: audioPlayer.getState().rate },
+    study: { srsCards: loadCardStates(), quizScores: loadQuizScores(), drillStats: loadDrillStats(), knownWords: loadKnownWords() },
+  };
+};
+
+export const backupFileName = () => `trilingua_backup_${new Date().toISOString().slice(0, 10)}.json`;
+
+export interface ParsedBackup {
+  history: BackupHistoryItem[];
+  collections: Collection[];
+  settings: BackupSettings | null;
+  study: BackupStudyState;
+  rejected: { history: string[]; collections: string[]; study: string[] };
+}
+
+const describe = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+/**
+ * Reads and validates a backup file. Broken records are left out and listed in
+ * `rejected`; a file that isn't a readable backup at all throws a BackupFormatError.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("The file is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) throw new BackupFormatError("The file is not a TriLingua backup.");
+  if (typeof raw.version !== 'number' || raw.version < 1) throw new BackupFormatError("The backup has no valid version.");
+  if (raw.version > BACKUP_VERSION) throw new BackupFormatError(`The backup was made by a newer version of the app (format ${raw.version}). Update the app to restore it.`);
+
+  const rejected: ParsedBackup['rejected'] = { history: [], collections: [], study: [] };
+
+  const history: BackupHistoryItem[] = [];
+  (Array.isArray(raw.history) ? raw.history : []).forEach((entry: unknown, index: number) => {
+    try {
+      // Image IDs point into another browser's image store
+      const { imageId: _, ...item } = validateHistoryItem(entry, index);
+      const image = isRecord(entry) && typeof entry.image === 'string' && entry.image.startsWith('data:image/') ? entry.image : undefined;
+      history.push(image ? { ...item, image } : item);
+    } catch (e) {
+      rejected.history.push(`Entry #${index + 1}: ${describe(e)}`);
+    }
+  });
+
+  const collections: Collection[] = [];
+  (Array.isArray(raw.collections) ? raw.collections : []).forEach((entry: unknown, index: number) => {
+    try {
+      collections.push(validateCollection(entry, index));
+    } catch (e) {
+      rejected.collections.push(`List #${index + 1}: ${describe(e)}`);
+    }
+  });
+
+  const study = isRecord(raw.study) ? raw.study : {};
+  const knownWords = Array.isArray(study.knownWords) ? study.knownWords.filter((word: unknown): word is string => typeof word === 'string') : [];
+
+  const settings = isRecord(raw.settings) ? {
+    review: normalizeReviewSettings(raw.settings.review),
+    anki: normalizeAnkiTemplate(raw.settings.anki),
+    playbackRate: (PLAYBACK_RATES as readonly unknown[]).includes(raw.settings.playbackRate) ? raw.settings.playbackRate as PlaybackRate : 1,
+  } : null;
+
+  return {
+    history,
+    collections,
+    settings,
+    study: {
+      srsCards: validTable<CardState>(study.srsCards, 'Review card', isCardState, rejected.study),
+      quizScores: validTable<WordScore>(study.quizScores, 'Quiz score', isWordScore, rejected.study),
+      drillStats: validTable<FormStats>(study.drillStats, 'Drill stat', isFormStats, rejected.study),
+      knownWords,
+    },
+    rejected,
+  };
+};
+
+/**
+ * Stores the inline images of archived entries and swaps them for image IDs. Entries
+ * whose image can't be stored keep only their text; the image is generated again later.
+ */
+export const restoreImages = async (items: BackupHistoryItem[]): Promise<HistoryItem[]> => {
+  const restored: HistoryItem[] = [];
+  for (const { image, ...item } of items) {
+    const imageId = image ? await imageStore.save(image) : null;
+    restored.push(imageId ? { ...item, imageId, imageUrl: undefined } : item);
+  }
+  return restored;
+};
+
+/**
+ * Merges archived entries into history by content key. Entries already present are
+ * kept as they are, picking up the file's pin and tags; the rest are added. Newest first.
+ */
+export const mergeHistory = (current: HistoryItem[], incoming: HistoryItem[]): { next: HistoryItem[]; report: SectionReport } => {
+  const report = emptySection();
+  const byKey = new Map(current.map(item => [contentKey(item), item]));
+  const ids = new Set(current.map(item => item.id));
+
+  for (const item of incoming) {
+    const key = contentKey(item);
+    const existing = byKey.get(key);
+    if (!existing) {
+      // Keep ids unique; an id can repeat when both lists were started from the same backup
+      const added = ids.has(item.id) ? { ...item, id: `${item.id}-${ids.size}` } : item;
+      byKey.set(key, added);
+      ids.add(added.id);
+      report.added++;
+      continue;
+    }
+    const tags = normalizeTags([...(existing.tags ?? []), ...(item.tags ?? [])]);
+    const pinned = existing.pinned || item.pinned;
+    if (tags.length !== (existing.tags?.length ?? 0) || pinned !== existing.pinned) {
+      byKey.set(key, { ...existing, pinned, tags: tags.length ? tags : undefined });
+      report.updated++;
+    } else {
+      report.skipped++;
+    }
+  }
+  return { next: [...byKey.values()].sort((a, b) => b.timestamp - a.timestamp), report };
+};
+
+/**
+ * Lists are matched by name (ignoring case); a matching list gains the file's entries
+ * it doesn't have yet. New lists go after the existing ones.
+ */
+export const mergeCollections = (current: Collection[], incoming: Collection[]): { next: Collection[]; report: SectionReport } => {
+  const report = emptySection();
+  const next = [...current];
+  for (const collection of incoming) {
+    const index = next.findIndex(c => c.name.toLowerCase() === collection.name.toLowerCase());
+    if (index === -1) {
+      next.push(next.some(c => c.id === collection.id) ? { ...collection, id: `${collection.id}-${next.length}` } : collection);
+      report.added++;
+      continue;
+    }
+    const keys = new Set(next[index].items.map(contentKey));
+    const missing = collection.items.filter(item => !keys.has(contentKey(item)));
+    if (missing.length) {
+      next[index] = { ...next[index], items: [...next[index].items, ...missing] };
+      report.updated++;
+    } else {
+      report.skipped++;
+    }
+  }
+  return { next, report };
+};
+
+// Keyed merge: `newer` decides whether the file's record replaces the one already stored
+const mergeTable = <T>(current: Record<string, T>, incoming: Record<string, T>, newer: (file: T, stored: T) => boolean, report: SectionReport) => {
+  const next = { ...current };
+  for (const [key, value] of Object.entries(incoming)) {
+    if (!(key in next)) {
+      next[key] = value;
+      report.added++;
+    } else if (newer(value, next[key])) {
+      next[key] = value;
+      report.updated++;
+    } else {
+      report.skipped++;
+    }
+  }
+  return next;
+};
+
+/**
+ * Merges review, quiz and drill progress and known words into what's stored, keeping
+ * whichever record saw the most recent (or, for drill stats, the most) practice.
+ */
+export const restoreStudyState = (study: BackupStudyState): SectionReport => {
+  const report = emptySection();
+  saveCardStates(mergeTable(loadCardStates(), study.srsCards, (file, stored) => file.lastReviewedAt > stored.lastReviewedAt, report));
+  saveQuizScores(mergeTable(loadQuizScores(), study.quizScores, (file, stored) => file.lastAttemptAt > stored.lastAttemptAt, report));
+  saveDrillStats(mergeTable(loadDrillStats(), study.drillStats, (file, stored) => file.attempts > stored.attempts, report));
+
+  const known = loadKnownWords();
+  const newWords = [...new Set(study.knownWords)].filter(word => !known.includes(word));
+  report.added += newWords.length;
+  report.skipped += study.knownWords.length - newWords.length;
+  if (newWords.length) saveKnownWords([...known, ...newWords]);
+  return report;
+};
+
+// Settings have no per-record history to merge, so the file's settings replace the current ones
+export const restoreSettings = (settings: BackupSettings) => {
+  saveReviewSettings(settings.review);
+  saveAnkiTemplate(settings.anki);
+  audioPlayer.setRate(settings.playbackRate);
+};
+
+/**
+ * Restores a parsed backup on top of the current data. Study state and settings are
+ * written straight away; the returned entries and lists are for the caller to merge
+ * into its state with `mergeHistory` and `mergeCollections`, which is what the report
+ * describes.
+ */
+export const importBackup = async (
+  backup: ParsedBackup,
+  current: { history: HistoryItem[]; collections: Collection[] }
+): Promise<{ history: HistoryItem[]; collections: Collection[]; report: ImportReport }> => {
+  // Only entries that will be added need their images stored: mergeHistory adds the first
+  // copy of each entry that isn't present yet, and later copies only bring pins and tags
+  const seen = new Set(current.history.map(contentKey));
+  const history = await restoreImages(backup.history.map(item => {
+    const key = contentKey(item);
+    if (seen.has(key)) return { ...item, image: undefined };
+    seen.add(key);
+    return item;
+  }));
+
+  const report: ImportReport = {
+    history: { ...mergeHistory(current.history, history).report, rejected: backup.rejected.history },
+    collections: { ...mergeCollections(current.collections, backup.collections).report, rejected: backup.rejected.collections },
+    study: { ...restoreStudyState(backup.study), rejected: backup.rejected.study },
+    settingsRestored: Boolean(backup.settings),
+  };
+  if (backup.settings) restoreSettings(backup.settings);
+  return { history, collections: backup.collections, report };
+};
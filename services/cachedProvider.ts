@@ -0,0 +1,63 @@
+import { WordData, SentenceData, KanjiData } from "../types";
+import { LexiconProvider, RequestOptions, AnalyzeOptions, SpeechLang, SpeechOptions, DEFAULT_VOICES } from "./lexiconProvider";
+import { LookupCache } from "./lookupCache";
+
+/**
+ * Serves repeated lookups from the persistent LookupCache and only falls through
+ * to the wrapped provider on a miss (or when `refresh` is requested).
+ * Empty image/audio results are not cached so they get retried next time.
+ */
+export class CachedLexiconProvider implements LexiconProvider {
+  constructor(private inner: LexiconProvider, private cache: LookupCache) {}
+
+  async analyzeWord(query: string, options: AnalyzeOptions<WordData> = {}): Promise<WordData> {
+    if (!options.refresh) {
+      const cached = await this.cache.get<WordData>('dictionary', query);
+      if (cached) return cached;
+    }
+    const data = await this.inner.analyzeWord(query, options);
+    await this.cache.set('dictionary', query, data);
+    return data;
+  }
+
+  async analyzeSentence(sentence: string, options: AnalyzeOptions<SentenceData> = {}): Promise<SentenceData> {
+    if (!options.refresh) {
+      const cached = await this.cache.get<SentenceData>('sentence', sentence);
+      if (cached) return cached;
+    }
+    const data = await this.inner.analyzeSentence(sentence, options);
+    await this.cache.set('sentence', sentence, data);
+    return data;
+  }
+
+  async analyzeKanji(character: string, options: AnalyzeOptions<KanjiData> = {}): Promise<KanjiData> {
+    if (!options.refresh) {
+      const cached = await this.cache.get<KanjiData>('kanji', character);
+      if (cached) return cached;
+    }
+    const data = await this.inner.analyzeKanji(character, options);
+    await this.cache.set('kanji', character, data);
+    return data;
+  }
+
+  async generateImage(word: string, options: RequestOptions = {}): Promise<string | null> {
+    if (!options.refresh) {
+      const cached = await this.cache.get<string>('image', word);
+      if (cached) return cached;
+    }
+    const image = await this.inner.generateImage(word, options);
+    if (image) await this.cache.set('image', word, image);
+    return image;
+  }
+
+  async generateSpeech(text: string, lang: SpeechLang, options: SpeechOptions = {}): Promise<string | null> {
+    const key = `${lang}:${options.voice ?? DEFAULT_VOICES[lang]}:${text}`;
+    if (!options.refresh) {
+      const cached = await this.cache.get<string>('speech', key);
+      if (cached) return cached;
+    }
+    const audio = await this.inner.generateSpeech(text, lang, options);
+    if (audio) await this.cache.set('speech', key, audio);
+    return audio;
+  }
+}
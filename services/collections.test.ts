@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Collection } from '../types';
+import { collectionCsv, collectionFileName, moveCollection, toggleEntry } from './collections';
+import { entry, wordData } from './testFixtures';
+
+const list = (name: string, items = [entry(wordData('犬', 'dog', '狗'), 1)]): Collection => ({ id: name, name, createdAt: 1, items });
+
+describe('toggleEntry', () => {
+  it('adds an entry, and removes it again by content', () => {
+    const cat = entry(wordData('猫', 'cat', '猫'), 2);
+    const added = toggleEntry(list('Animals'), cat);
+    expect(added.items).toHaveLength(2);
+    expect(toggleEntry(added, { ...cat, id: 'other' }).items).toHaveLength(1);
+  });
+});
+
+describe('moveCollection', () => {
+  it('swaps with a neighbour and stops at either end', () => {
+    const lists = [list('a'), list('b'), list('c')];
+    expect(moveCollection(lists, 1, -1).map(c => c.name)).toEqual(['b', 'a', 'c']);
+    expect(moveCollection(lists, 2, 1)).toBe(lists);
+    expect(moveCollection(lists, 0, -1)).toBe(lists);
+  });
+});
+
+describe('collectionCsv', () => {
+  // Everything after the header, which may span lines
+  const row = (jp: string, en: string) => {
+    const csv = collectionCsv(list('x', [entry(wordData(jp, en, '狗', { definitions: { jp: '', jp_furigana: '', en: 'a pet', zh: '' } }), 1)]));
+    return csv.slice(csv.indexOf('\n') + 1);
+  };
+
+  it('writes a header and one quoted row per entry', () => {
+    const csv = collectionCsv(list('Animals'));
+    expect(csv.split('\n')).toEqual([
+      'Type,Japanese,Reading,English,Chinese,Definition',
+      '"word","犬","","dog","狗","definition of dog"',
+    ]);
+  });
+
+  it('doubles quotes and keeps commas and newlines inside the cell', () => {
+    expect(row('犬', 'say "woof", then\nsit')).toBe('"word","犬","","say ""woof"", then\nsit","狗","a pet"');
+  });
+
+  it('prefixes cells a spreadsheet would run as a formula', () => {
+    for (const start of ['=', '+', '-', '@', '\t', '\r']) {
+      expect(row('犬', `${start}HYPERLINK("x")`)).toContain(`"'${start}HYPERLINK(""x"")"`);
+    }
+  });
+
+  it('leaves other cells alone', () => {
+    expect(row('犬', 'a=b')).toContain('"a=b"');
+    expect(row('犬', ' =1')).toContain('" =1"');
+  });
+
+  it('writes sentences with their translations', () => {
+    const sentence = { ...entry(wordData('', '', ''), 1), type: 'sentence' as const, data: { original: '犬が好き', breakdown: [], grammarAnalysis: '', translations: { jp: '', jp_furigana: '', en: 'I like dogs', zh: '我喜欢狗' } } };
+    expect(collectionCsv(list('x', [sentence])).split('\n')[1]).toBe('"sentence","犬が好き","","I like dogs","我喜欢狗",""');
+  });
+});
+
+describe('collectionFileName', () => {
+  it('replaces characters file systems reject', () => {
+    expect(collectionFileName(list('JLPT N5: verbs/adj?'), 'csv')).toBe('JLPT_N5_verbs_adj_.csv');
+    expect(collectionFileName(list(''), 'txt')).toBe('list.txt');
+  });
+});
@@ -0,0 +1,97 @@
+import { AppMode, Collection, HistoryItem, SentenceData, WordData } from "../types";
+import { contentKey } from "./history";
+import { validateCollections } from "./validation";
+
+const COLLECTIONS_KEY = 'trilingua_collections';
+
+export type CollectionEntryType = 'word' | 'sentence';
+
+export const loadCollections = (): Collection[] => {
+  try {
+    const saved = localStorage.getItem(COLLECTIONS_KEY);
+    if (saved) return validateCollections(JSON.parse(saved));
+  } catch (e) {
+    console.warn("Failed to read collections, starting fresh", e);
+  }
+  return [];
+};
+
+export const saveCollections = (collections: Collection[]) => {
+  try {
+    localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+  } catch (e) {
+    console.warn("Failed to save collections:", e);
+  }
+};
+
+export const createCollection = (name: string): Collection => ({
+  id: `list-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim(),
+  createdAt: Date.now(),
+  items: [],
+});
+
+/**
+ * A collection entry for a word or sentence result, labelled the way history labels it.
+ * Images are left out; the entry is opened through history or looked up again.
+ */
+export const collectionEntry = (type: CollectionEntryType, data: WordData | SentenceData): HistoryItem => {
+  const label = type === 'word' ? (data as WordData).coreWord.jp
+    : (data as SentenceData).original.length > 20 ? (data as SentenceData).original.substring(0, 20) + '...' : (data as SentenceData).original;
+  return { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, timestamp: Date.now(), type, label, data };
+};
+
+export const hasEntry = (collection: Collection, key: string) =>
+  collection.items.some(item => contentKey(item) === key);
+
+/**
+ * Adds the entry to the collection, or removes it when the same content is already there.
+ */
+export const toggleEntry = (collection: Collection, entry: HistoryItem): Collection => {
+  const key = contentKey(entry);
+  return hasEntry(collection, key)
+    ? { ...collection, items: collection.items.filter(item => contentKey(item) !== key) }
+    : { ...collection, items: [...collection.items, entry] };
+};
+
+// Moves the collection at `index` one place up (-1) or down (1)
+export const moveCollection = (collections: Collection[], index: number, delta: -1 | 1): Collection[] => {
+  const target = index + delta;
+  if (target < 0 || target >= collections.length) return collections;
+  const next = [...collections];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// Spreadsheets run a cell starting with one of these as a formula; the leading ' keeps it text
+export const csvField = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+/**
+ * One row per entry with its headwords or translations in all three languages, ready
+ * for a spreadsheet or a handout.
+ */
+export const collectionCsv = (collection: Collection): string =>
+  "Type,Japanese,Reading,English,Chinese,Definition\n" + collection.items.map(item => {
+    if (item.type === 'word') {
+      const data = item.data as WordData;
+      return [item.type, data.coreWord.jp, data.pronunciation.jp, data.coreWord.en, data.coreWord.zh, data.definitions.en].map(csvField).join(',');
+    }
+    const data = item.data as SentenceData;
+    return [item.type, data.translations.jp || data.original, '', data.translations.en, data.translations.zh, ''].map(csvField).join(',');
+  }).join("\n");
+
+// File-name-safe version of a collection name
+export const collectionFileName = (collection: Collection, extension: string) =>
+  `${collection.name.replace(/[\\/:*?"<>|\s]+/g, '_') || 'list'}.${extension}`;
+
+// Study modes a collection can be studied in, in place of the whole history
+export type StudyMode = Extract<AppMode, 'review' | 'quiz' | 'drill'>;
+
+export const STUDY_MODES: { mode: StudyMode; label: string }[] = [
+  { mode: 'review', label: 'Review' },
+  { mode: 'quiz', label: 'Quiz' },
+  { mode: 'drill', label: 'Conjugation drill' },
+];
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { WordData } from '../types';
+import { checkInflections, conjugate, conjugationClass, formKey, surfaceOf } from './conjugator';
+
+describe('formKey', () => {
+  it('reads the labels the model uses, in any order or spelling', () => {
+    expect(formKey('Polite (Masu)')).toBe('polite');
+    expect(formKey('Past Negative')).toBe('pastNegative');
+    expect(formKey('Negative Past')).toBe('pastNegative');
+    expect(formKey('Polite Past Negative (ませんでした)')).toBe('politePastNegative');
+    expect(formKey('Te-form')).toBe('te');
+    expect(formKey('て形')).toBe('te');
+    expect(formKey('Non-past plain affirmative')).toBeNull();
+  });
+
+  it("returns null for forms the conjugator doesn't produce", () => {
+    expect(formKey('Potential Negative')).toBeNull();
+    expect(formKey('Causative Passive')).toBeNull();
+    expect(formKey('Conditional (Tara)')).toBeNull();
+  });
+});
+
+describe('conjugate', () => {
+  it('conjugates ichidan verbs, accepting ら抜き potentials', () => {
+    expect(conjugate('食べる', 'ichidan', 'past')).toEqual(['食べた']);
+    expect(conjugate('食べる', 'ichidan', 'potential')).toEqual(['食べられる', '食べれる']);
+  });
+
+  it('conjugates godan verbs by their ending', () => {
+    expect(conjugate('書く', 'godan', 'te')).toEqual(['書いて']);
+    expect(conjugate('泳ぐ', 'godan', 'past')).toEqual(['泳いだ']);
+    expect(conjugate('飲む', 'godan', 'negative')).toEqual(['飲まない']);
+    expect(conjugate('買う', 'godan', 'negative')).toEqual(['買わない']);
+    expect(conjugate('話す', 'godan', 'polite')).toEqual(['話します']);
+    expect(conjugate('待つ', 'godan', 'volitional')).toEqual(['待とう']);
+  });
+
+  it('knows the godan exceptions', () => {
+    expect(conjugate('行く', 'godan', 'te')).toEqual(['行って']);
+    expect(conjugate('出て行く', 'godan', 'past')).toEqual(['出て行った']);
+    expect(conjugate('ある', 'godan', 'negative')).toEqual(['ない']);
+    expect(conjugate('くださる', 'godan', 'polite')).toEqual(['くださいます']);
+    expect(conjugate('いらっしゃる', 'godan', 'imperative')).toEqual(['いらっしゃい']);
+  });
+
+  it('conjugates する and 来る compounds', () => {
+    expect(conjugate('勉強する', 'suru', 'potential')).toEqual(['勉強できる', '勉強出来る']);
+    expect(conjugate('来る', 'kuru', 'negative')).toEqual(['来ない']);
+    expect(conjugate('くる', 'kuru', 'negative')).toEqual(['こない']);
+    expect(conjugate('やって来る', 'kuru', 'conditional')).toEqual(['やって来れば']);
+  });
+
+  it('conjugates adjectives, with いい going through よい', () => {
+    expect(conjugate('高い', 'i-adj', 'past')).toEqual(['高かった']);
+    expect(conjugate('いい', 'i-adj', 'negative')).toEqual(['よくない']);
+    expect(conjugate('かっこいい', 'i-adj', 'past')).toEqual(['かっこよかった']);
+    expect(conjugate('静かな', 'na-adj', 'past')).toEqual(['静かだった']);
+  });
+
+  it("returns null for forms a class doesn't have or words that don't fit it", () => {
+    expect(conjugate('高い', 'i-adj', 'imperative')).toBeNull();
+    expect(conjugate('本', 'ichidan', 'past')).toBeNull();
+    expect(conjugate('食べる', 'suru', 'past')).toBeNull();
+  });
+});
+
+describe('conjugationClass', () => {
+  it('follows the part of speech', () => {
+    expect(conjugationClass('食べる', 'たべる', 'Ichidan verb')).toBe('ichidan');
+    expect(conjugationClass('帰る', 'かえる', 'Godan verb')).toBe('godan');
+    expect(conjugationClass('勉強する', 'べんきょうする', 'Noun / suru verb')).toBe('suru');
+    expect(conjugationClass('来る', 'くる', 'Irregular verb')).toBe('kuru');
+    expect(conjugationClass('静か', 'しずか', 'na-adjective')).toBe('na-adj');
+    expect(conjugationClass('高い', 'たかい', 'い形容詞')).toBe('i-adj');
+  });
+
+  it("falls back to the ending, but won't guess on -iru/-eru verbs", () => {
+    expect(conjugationClass('書く', 'かく', 'Verb')).toBe('godan');
+    expect(conjugationClass('作る', 'つくる', 'Verb')).toBe('godan');
+    expect(conjugationClass('帰る', 'かえる', 'Verb')).toBeNull();
+    expect(conjugationClass('見る', 'みる', 'Verb')).toBeNull();
+  });
+
+  it('only takes kana くる as kuru on its own or after te-form', () => {
+    expect(conjugationClass('めくる', 'めくる', 'Verb (Godan)')).toBe('godan');
+    expect(conjugate('めくる', conjugationClass('めくる', 'めくる', 'Verb (Godan)')!, 'negative')).toEqual(['めくらない']);
+    expect(conjugationClass('おくる', 'おくる', 'Verb')).toBe('godan');
+    expect(conjugationClass('くる', 'くる', 'Verb')).toBe('kuru');
+    expect(conjugationClass('やってくる', 'やってくる', 'Verb')).toBe('kuru');
+    expect(conjugationClass('持って来る', 'もってくる', 'Irregular verb')).toBe('kuru');
+  });
+
+  it('skips groups for other languages and non-conjugating words', () => {
+    expect(conjugationClass('食べる', 'たべる', 'English verb')).toBeNull();
+    expect(conjugationClass('本', 'ほん', 'Noun')).toBeNull();
+  });
+});
+
+describe('surfaceOf', () => {
+  it('drops the romaji or gloss after the form', () => {
+    expect(surfaceOf('食べます (tabemasu)')).toBe('食べます');
+    expect(surfaceOf('食べます（たべます）')).toBe('食べます');
+    expect(surfaceOf('食べます')).toBe('食べます');
+  });
+});
+
+describe('checkInflections', () => {
+  const verb = (forms: { label: string; value: string }[], partOfSpeech = 'Ichidan verb'): WordData => ({
+    inputWord: '食べる',
+    coreWord: { jp: '食べる', en: 'to eat', zh: '吃' },
+    pronunciation: { jp: 'たべる (taberu)', en: '', zh: '' },
+    definitions: { jp: '', jp_furigana: '', en: 'to eat', zh: '吃' },
+    examples: [],
+    etymology: '',
+    related: { synonyms: [], antonyms: [] },
+    inflections: [{ partOfSpeech, forms }],
+  });
+
+  it('accepts forms written in kanji or kana', () => {
+    expect(checkInflections(verb([
+      { label: 'Past', value: '食べた (tabeta)' },
+      { label: 'Negative', value: 'たべない' },
+    ]))).toEqual([]);
+  });
+
+  it('flags forms that disagree with the rules', () => {
+    const [issue, ...rest] = checkInflections(verb([{ label: 'Te-form', value: '食べって' }]));
+    expect(rest).toEqual([]);
+    expect(issue).toMatchObject({ label: 'Te-form', value: '食べって', expected: ['食べて'] });
+  });
+
+  it("skips forms and groups it can't check", () => {
+    expect(checkInflections(verb([{ label: 'Causative Passive', value: 'wrong' }, { label: 'Past', value: 'ate' }]))).toEqual([]);
+    expect(checkInflections(verb([{ label: 'Past', value: '食べった' }], 'Verb'))).toEqual([]);
+  });
+});
@@ -0,0 +1,316 @@
+import { WordData } from "../types";
+import { katakanaToHiragana, readingFromPronunciation } from "./kana";
+
+/**
+ * Offline, rule-based Japanese conjugator. It is used to cross-check the model's
+ * inflection tables and to accept kana answers in the conjugation drill.
+ * Only the regular patterns plus the well-known exceptions (する, 来る, 行く, ある,
+ * いい and the honorific godan verbs) are covered.
+ */
+
+export type ConjugationClass = 'ichidan' | 'godan' | 'suru' | 'kuru' | 'i-adj' | 'na-adj';
+
+export type FormKey =
+  | 'polite' | 'politePast' | 'politeNegative' | 'politePastNegative'
+  | 'te' | 'past' | 'negative' | 'pastNegative'
+  | 'potential' | 'passive' | 'causative' | 'volitional' | 'imperative' | 'conditional';
+
+export const FORM_LABELS: Record<FormKey, string> = {
+  polite: 'Polite',
+  politePast: 'Polite Past',
+  politeNegative: 'Polite Negative',
+  politePastNegative: 'Polite Past Negative',
+  te: 'Te-form',
+  past: 'Past',
+  negative: 'Negative',
+  pastNegative: 'Past Negative',
+  potential: 'Potential',
+  passive: 'Passive',
+  causative: 'Causative',
+  volitional: 'Volitional',
+  imperative: 'Imperative',
+  conditional: 'Conditional (-ba)',
+};
+
+// Spellings the model uses for one idea, folded to a single token. Compound words
+// expand to several: "mashita" is polite + past.
+const LABEL_SYNONYMS: Record<string, string[]> = {
+  masu: ['polite'], 'ます': ['polite'], '丁寧': ['polite'],
+  mashita: ['polite', 'past'], 'ました': ['polite', 'past'],
+  masen: ['polite', 'negative'], 'ません': ['polite', 'negative'],
+  masendeshita: ['polite', 'past', 'negative'], 'ませんでした': ['polite', 'past', 'negative'],
+  'て': ['te'],
+  ta: ['past'], 'た': ['past'], '過去': ['past'],
+  nai: ['negative'], 'ない': ['negative'], '否定': ['negative'],
+  nakatta: ['past', 'negative'], 'なかった': ['past', 'negative'], '過去否定': ['past', 'negative'],
+  '可能': ['potential'], '受身': ['passive'], '使役': ['causative'],
+  '意向': ['volitional'], ou: ['volitional'], you: ['volitional'], 'よう': ['volitional'],
+  '命令': ['imperative'],
+  ba: ['conditional'], 'ば': ['conditional'], '仮定': ['conditional'],
+};
+
+// Words that don't change which form is meant
+const LABEL_NOISE = new Set(['form', 'tense', 'plain', 'present', 'nonpast', 'affirmative', '']);
+
+// A label as its sorted set of tokens, so word order and spelling don't matter
+const labelTokens = (label: string) => [...new Set(label.toLowerCase()
+  .replace(/non[-\s]?past/g, 'nonpast')
+  .split(/[\s()（）/／・,、~～-]+/)
+  .map(word => word.replace(/形$/, ''))
+  .flatMap(word => LABEL_SYNONYMS[word] ?? [word])
+  .filter(word => !LABEL_NOISE.has(word)))]
+  .sort()
+  .join(' ');
+
+// Every label the conjugator models, as token sets. Anything else, such as
+// "Potential Negative", "Negative Te-form" or "Conditional (Tara)", is a form the
+// conjugator doesn't produce.
+const FORM_TABLE: Record<string, FormKey> = {
+  'polite': 'polite',
+  'past polite': 'politePast',
+  'negative polite': 'politeNegative',
+  'negative past polite': 'politePastNegative',
+  'te': 'te',
+  'past': 'past',
+  'negative': 'negative',
+  'negative past': 'pastNegative',
+  'potential': 'potential',
+  'passive': 'passive',
+  'causative': 'causative',
+  'volitional': 'volitional',
+  'imperative': 'imperative',
+  'conditional': 'conditional',
+};
+
+/**
+ * Maps a model label such as "Polite (Masu)" or "Past Negative" to a form key.
+ * Returns null for labels the conjugator doesn't model (e.g. "Causative Passive"
+ * or "Potential Negative").
+ */
+export const formKey = (label: string): FormKey | null => FORM_TABLE[labelTokens(label)] ?? null;
+
+// Godan endings and the kana they shift to, by row
+const GODAN_ROWS: Record<string, { a: string; i: string; e: string; o: string }> = {
+  'う': { a: 'わ', i: 'い', e: 'え', o: 'お' },
+  'く': { a: 'か', i: 'き', e: 'け', o: 'こ' },
+  'ぐ': { a: 'が', i: 'ぎ', e: 'げ', o: 'ご' },
+  'す': { a: 'さ', i: 'し', e: 'せ', o: 'そ' },
+  'つ': { a: 'た', i: 'ち', e: 'て', o: 'と' },
+  'ぬ': { a: 'な', i: 'に', e: 'ね', o: 'の' },
+  'ぶ': { a: 'ば', i: 'び', e: 'べ', o: 'ぼ' },
+  'む': { a: 'ま', i: 'み', e: 'め', o: 'も' },
+  'る': { a: 'ら', i: 'り', e: 'れ', o: 'ろ' },
+};
+
+const GODAN_TE: Record<string, [string, string]> = {
+  'う': ['って', 'った'], 'つ': ['って', 'った'], 'る': ['って', 'った'],
+  'く': ['いて', 'いた'], 'ぐ': ['いで', 'いだ'], 'す': ['して', 'した'],
+  'ぬ': ['んで', 'んだ'], 'ぶ': ['んで', 'んだ'], 'む': ['んで', 'んだ'],
+};
+
+// Honorific verbs whose masu stem and imperative use い instead of り
+const HONORIFIC_GODAN = /(?:なさ|くださ|下さ|いらっしゃ|おっしゃ|仰|ござ)る$/;
+
+const E_ROW = 'えけげせぜてでねへべぺめれ';
+const I_ROW = 'いきぎしじちぢにひびぴみり';
+
+const ichidan = (stem: string): Record<FormKey, string[]> => ({
+  polite: [stem + 'ます'],
+  politePast: [stem + 'ました'],
+  politeNegative: [stem + 'ません'],
+  politePastNegative: [stem + 'ませんでした'],
+  te: [stem + 'て'],
+  past: [stem + 'た'],
+  negative: [stem + 'ない'],
+  pastNegative: [stem + 'なかった'],
+  potential: [stem + 'られる', stem + 'れる'], // ら抜き is common enough to accept
+  passive: [stem + 'られる'],
+  causative: [stem + 'させる'],
+  volitional: [stem + 'よう'],
+  imperative: [stem + 'ろ', stem + 'よ'],
+  conditional: [stem + 'れば'],
+});
+
+const godan = (word: string): Record<FormKey, string[]> | null => {
+  const ending = word.slice(-1);
+  const row = GODAN_ROWS[ending];
+  if (!row) return null;
+  const stem = word.slice(0, -1);
+  const honorific = HONORIFIC_GODAN.test(word);
+  const masu = stem + (honorific ? 'い' : row.i);
+  // 行く is the one く-verb with a つ-style te-form
+  const iku = /(?:^|て)(?:行|い|ゆ)く$/.test(word);
+  const [te, ta] = iku ? ['って', 'った'] : GODAN_TE[ending];
+  // ある has no ら-row negative
+  const nai = /^(?:ある|有る|在る)$/.test(word) ? '' : stem + row.a;
+  const negative = nai ? nai + 'ない' : 'ない';
+  const pastNegative = nai ? nai + 'なかった' : 'なかった';
+  return {
+    polite: [masu + 'ます'],
+    politePast: [masu + 'ました'],
+    politeNegative: [masu + 'ません'],
+    politePastNegative: [masu + 'ませんでした'],
+    te: [stem + te],
+    past: [stem + ta],
+    negative: [negative],
+    pastNegative: [pastNegative],
+    potential: [stem + row.e + 'る'],
+    passive: [stem + row.a + 'れる'],
+    causative: [stem + row.a + 'せる', stem + row.a + 'す'],
+    volitional: [stem + row.o + 'う'],
+    imperative: [stem + (honorific ? 'い' : row.e)],
+    conditional: [stem + row.e + 'ば'],
+  };
+};
+
+const suru = (prefix: string): Record<FormKey, string[]> => ({
+  polite: [prefix + 'します'],
+  politePast: [prefix + 'しました'],
+  politeNegative: [prefix + 'しません'],
+  politePastNegative: [prefix + 'しませんでした'],
+  te: [prefix + 'して'],
+  past: [prefix + 'した'],
+  negative: [prefix + 'しない'],
+  pastNegative: [prefix + 'しなかった'],
+  potential: [prefix + 'できる', prefix + '出来る'],
+  passive: [prefix + 'される'],
+  causative: [prefix + 'させる'],
+  volitional: [prefix + 'しよう'],
+  imperative: [prefix + 'しろ', prefix + 'せよ'],
+  conditional: [prefix + 'すれば'],
+});
+
+const kuru = (prefix: string, kanji: boolean): Record<FormKey, string[]> => {
+  // With the kanji the stem vowel change is invisible: 来ます, 来ない, 来られる
+  const [ki, ko, ku] = kanji ? ['来', '来', '来'] : ['き', 'こ', 'く'];
+  return {
+    polite: [prefix + ki + 'ます'],
+    politePast: [prefix + ki + 'ました'],
+    politeNegative: [prefix + ki + 'ません'],
+    politePastNegative: [prefix + ki + 'ませんでした'],
+    te: [prefix + ki + 'て'],
+    past: [prefix + ki + 'た'],
+    negative: [prefix + ko + 'ない'],
+    pastNegative: [prefix + ko + 'なかった'],
+    potential: [prefix + ko + 'られる', prefix + ko + 'れる'],
+    passive: [prefix + ko + 'られる'],
+    causative: [prefix + ko + 'させる'],
+    volitional: [prefix + ko + 'よう'],
+    imperative: [prefix + ko + 'い'],
+    conditional: [prefix + ku + 'れば'],
+  };
+};
+
+const iAdjective = (word: string): Partial<Record<FormKey, string[]>> => {
+  // いい conjugates from よい
+  const stem = word.endsWith('いい') ? word.slice(0, -2) + 'よ' : word.slice(0, -1);
+  return {
+    polite: [word + 'です'],
+    politePast: [stem + 'かったです'],
+    politeNegative: [stem + 'くないです', stem + 'くありません'],
+    politePastNegative: [stem + 'くなかったです', stem + 'くありませんでした'],
+    te: [stem + 'くて'],
+    past: [stem + 'かった'],
+    negative: [stem + 'くない'],
+    pastNegative: [stem + 'くなかった'],
+    volitional: [stem + 'かろう'],
+    conditional: [stem + 'ければ'],
+  };
+};
+
+const naAdjective = (word: string): Partial<Record<FormKey, string[]>> => {
+  const stem = word.replace(/な$/, '');
+  return {
+    polite: [stem + 'です'],
+    politePast: [stem + 'でした'],
+    politeNegative: [stem + 'じゃないです', stem + 'ではありません', stem + 'じゃありません'],
+    politePastNegative: [stem + 'じゃなかったです', stem + 'ではありませんでした', stem + 'じゃありませんでした'],
+    te: [stem + 'で'],
+    past: [stem + 'だった'],
+    negative: [stem + 'じゃない', stem + 'ではない'],
+    pastNegative: [stem + 'じゃなかった', stem + 'ではなかった'],
+    volitional: [stem + 'だろう'],
+    conditional: [stem + 'なら', stem + 'ならば'],
+  };
+};
+
+/**
+ * Conjugates a dictionary form (kanji or kana; endings are always kana) into
+ * every accepted surface form, or null when the class can't produce that form.
+ */
+export const conjugate = (word: string, cls: ConjugationClass, form: FormKey): string[] | null => {
+  const table = cls === 'ichidan' ? (word.endsWith('る') ? ichidan(word.slice(0, -1)) : null)
+    : cls === 'godan' ? godan(word)
+    : cls === 'suru' ? (word.endsWith('する') ? suru(word.slice(0, -2)) : null)
+    : cls === 'kuru' ? (/(?:来る|くる)$/.test(word) ? kuru(word.replace(/(?:来る|くる)$/, ''), word.endsWith('来る')) : null)
+    : cls === 'i-adj' ? (word.endsWith('い') ? iAdjective(word) : null)
+    : naAdjective(word);
+  return table?.[form] ?? null;
+};
+
+/**
+ * Works out the conjugation class from the model's part-of-speech label, falling back
+ * to the word's ending. Returns null when the class can't be decided safely
+ * (e.g. an unlabelled verb ending in -eru, which could be either ichidan or godan).
+ */
+export const conjugationClass = (word: string, reading: string, partOfSpeech: string): ConjugationClass | null => {
+  const pos = partOfSpeech.toLowerCase();
+  if (/english|chinese|中文/.test(pos)) return null;
+  // Kana くる is only kuru as the whole word or after て/で (やってくる); めくる, つくる are godan
+  const kuru = word.endsWith('来る') || /(?:^|[てで])くる$/.test(word);
+  if (kuru && /verb|動詞|irregular|kuru/.test(pos) && !/godan|五段|ichidan|一段/.test(pos)) return 'kuru';
+  if (word.endsWith('する') && !/godan|五段/.test(pos)) return 'suru';
+  if (/na[-\s]?adj|な形容詞|形容動詞/.test(pos)) return 'na-adj';
+  if (/i[-\s]?adj|い形容詞|形容詞/.test(pos)) return word.endsWith('い') ? 'i-adj' : null;
+  if (/ichidan|ru[-\s]?verb|一段/.test(pos)) return 'ichidan';
+  if (/godan|u[-\s]?verb|五段/.test(pos)) return 'godan';
+  if (/adjective/.test(pos)) return word.endsWith('い') ? 'i-adj' : 'na-adj';
+  if (/verb|動詞/.test(pos)) {
+    if (!word.endsWith('る')) return GODAN_ROWS[word.slice(-1)] ? 'godan' : null;
+    const before = katakanaToHiragana(reading || word).slice(-2, -1);
+    return E_ROW.includes(before) || I_ROW.includes(before) ? null : 'godan';
+  }
+  return null;
+};
+
+/**
+ * The inflected value without any romaji or gloss the model added, e.g.
+ * "食べます (tabemasu)" -> "食べます".
+ */
+export const surfaceOf = (value: string) => value.replace(/\s*[（(].*$/, '').trim();
+
+export const isJapanese = (text: string) => /[぀-ヿ㐀-鿿]/.test(text);
+
+export interface Inconsistency {
+  partOfSpeech: string;
+  label: string;
+  value: string;
+  expected: string[];
+}
+
+/**
+ * Compares the model's inflection table with the rule-based conjugator and returns
+ * every form where they disagree. Groups and forms the conjugator can't classify
+ * are skipped rather than flagged.
+ */
+export const checkInflections = (data: WordData): Inconsistency[] => {
+  const word = data.coreWord.jp;
+  const reading = readingFromPronunciation(data.pronunciation.jp);
+  const issues: Inconsistency[] = [];
+  for (const group of data.inflections ?? []) {
+    const cls = conjugationClass(word, reading, group.partOfSpeech);
+    if (!cls) continue;
+    for (const form of group.forms ?? []) {
+      const key = formKey(form.label);
+      const value = surfaceOf(form.value);
+      if (!key || !isJapanese(value)) continue;
+      const expected = conjugate(word, cls, key);
+      if (!expected) continue;
+      const kana = reading ? conjugate(reading, cls, key) ?? [] : [];
+      if (![...expected, ...kana].includes(value)) {
+        issues.push({ partOfSpeech: group.partOfSpeech, label: form.label, value: form.value, expected });
+      }
+    }
+  }
+  return issues;
+};
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SentenceData, WordBreakdown } from '../types';
+import { DocumentSentence, analyzeDocument, combinedVocabulary, splitSentences } from './document';
+import { lexiconService } from './lexiconService';
+import { InvalidInputError, QuotaExceededError } from './errors';
+
+describe('splitSentences', () => {
+  it('splits Japanese and Chinese on full-width terminators without spaces', () => {
+    expect(splitSentences('今日は晴れです。明日は雨でしょう！本当？')).toEqual(['今日は晴れです。', '明日は雨でしょう！', '本当？']);
+    expect(splitSentences('我喜欢猫。你呢？')).toEqual(['我喜欢猫。', '你呢？']);
+  });
+
+  it('keeps quoted speech and closing brackets with their sentence', () => {
+    expect(splitSentences('「本当？」と彼は言った。それから帰った。')).toEqual(['「本当？」と彼は言った。', 'それから帰った。']);
+    expect(splitSentences('He said "Stop!" Then he left.')).toEqual(['He said "Stop!"', 'Then he left.']);
+  });
+
+  it("doesn't split English on abbreviations, initials, decimals or lowercase continuations", () => {
+    expect(splitSentences('Mr. Smith paid 3.5 dollars. J. R. R. Tolkien wrote it.')).toEqual(['Mr. Smith paid 3.5 dollars.', 'J. R. R. Tolkien wrote it.']);
+    expect(splitSentences('It costs approx. two yen. Visit example.com today!')).toEqual(['It costs approx. two yen.', 'Visit example.com today!']);
+  });
+
+  it('ends a sentence at every line break and drops punctuation-only pieces', () => {
+    expect(splitSentences('First line\n\nSecond line\n……\n')).toEqual(['First line', 'Second line']);
+  });
+
+  it('rejects empty text', () => {
+    expect(() => splitSentences('  \n ')).toThrow(InvalidInputError);
+  });
+});
+
+const token = (word: string, reading?: string): WordBreakdown => ({ word, reading, partOfSpeech: 'noun', meaning: word });
+
+const analyzed = (...breakdown: WordBreakdown[]): DocumentSentence => ({
+  text: '',
+  status: 'done',
+  data: { original: '', breakdown, grammarAnalysis: '', translations: { jp: '', jp_furigana: '', en: '', zh: '' } },
+});
+
+describe('combinedVocabulary', () => {
+  it('dedupes words by word and reading, in order of first appearance', () => {
+    const vocabulary = combinedVocabulary([
+      analyzed(token('猫', 'ねこ'), token('。'), token('猫', 'ねこ')),
+      { text: '', status: 'error' },
+      analyzed(token('犬', 'いぬ'), token('猫', 'ねこ'), token('日', 'ひ'), token('日', 'にち')),
+    ]);
+    expect(vocabulary.map(entry => [entry.word, entry.reading, entry.sentences])).toEqual([
+      ['猫', 'ねこ', [0, 2]],
+      ['犬', 'いぬ', [2]],
+      ['日', 'ひ', [2]],
+      ['日', 'にち', [2]],
+    ]);
+  });
+});
+
+describe('analyzeDocument', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs at most `concurrency` sentences at once and reports failures per sentence', async () => {
+    let running = 0;
+    let peak = 0;
+    vi.spyOn(lexiconService, 'analyzeSentence').mockImplementation(async text => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      if (text === 'bad') throw new QuotaExceededError();
+      return { original: text } as SentenceData;
+    });
+
+    const results: DocumentSentence[] = [];
+    const statuses: string[][] = [[], [], [], [], []];
+    await analyzeDocument(['a', 'b', 'bad', 'c', 'd'], (index, sentence) => {
+      results[index] = sentence;
+      statuses[index].push(sentence.status);
+    }, { concurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(statuses).toEqual([['analyzing', 'done'], ['analyzing', 'done'], ['analyzing', 'error'], ['analyzing', 'done'], ['analyzing', 'done']]);
+    expect(results[2].error).toBeInstanceOf(QuotaExceededError);
+    expect(results[4].data?.original).toBe('d');
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    vi.spyOn(lexiconService, 'analyzeSentence').mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    });
+    await expect(analyzeDocument(['a'], () => {}, { signal: controller.signal })).rejects.toThrow('Aborted');
+  });
+});
@@ -0,0 +1,164 @@
+import { SentenceData, WordBreakdown } from "../types";
+import { RequestOptions } from "./lexiconProvider";
+import { lexiconService } from "./lexiconService";
+import { LexiconError, isAbortError, toLexiconError } from "./errors";
+import { cleanUserInput } from "./prompts";
+
+// Sentences analyzed at the same time; more mostly just trips the rate limit
+export const DOCUMENT_CONCURRENCY = 3;
+
+export type SentenceStatus = 'pending' | 'analyzing' | 'done' | 'error';
+
+export interface DocumentSentence {
+  text: string;
+  status: SentenceStatus;
+  data?: SentenceData;
+  error?: LexiconError;
+}
+
+export interface DocumentAnalysis {
+  text: string; // The pasted text, as it appears in the URL
+  sentences: DocumentSentence[];
+}
+
+export interface VocabularyEntry {
+  word: string;
+  reading?: string;
+  partOfSpeech: string;
+  meaning: WordBreakdown['meaning'];
+  sentences: number[]; // Indexes of the sentences the word occurs in
+}
+
+// Full-width terminators end a sentence on their own; Japanese and Chinese don't put a space after them
+const CJK_TERMINATORS = '。！？．';
+const ASCII_TERMINATORS = '.!?…';
+// Closing quotes and brackets stay with the sentence they close
+const CLOSERS = '」』）】〕》〉)]"\'”’';
+// Terminators inside Japanese/Chinese brackets belong to quoted speech: 「本当？」と彼は言った。
+const CJK_OPENERS = '「『（【〔《〈';
+const CJK_CLOSERS = '」』）】〕》〉';
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'no', 'fig', 'inc', 'ltd', 'co', 'jan', 'feb', 'aug', 'sept', 'oct', 'nov', 'dec']);
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Whether the terminator run line[start, runEnd), plus any closing quotes up to `end`, ends the sentence
+const isBoundary = (line: string, start: number, runEnd: number, end: number): boolean => {
+  const run = line.slice(start, runEnd);
+  if ([...run].some(c => CJK_TERMINATORS.includes(c))) return true;
+
+  const next = line.slice(end).trimStart();
+  if (!next) return true;
+  // "3.5", "example.com": no space after the dot
+  if (!/\s/.test(line[end]) && !CJK_CHAR.test(line[end])) return false;
+  // A lowercase continuation means the dot was not the end ("approx. two")
+  if (/^\p{Ll}/u.test(next)) return false;
+
+  if (run === '.') {
+    const previous = /([\p{L}.]+)$/u.exec(line.slice(0, start))?.[1] ?? '';
+    // Initials ("J. R. R. Tolkien") and common abbreviations
+    if (/^\p{L}$/u.test(previous) || ABBREVIATIONS.has(previous.toLowerCase())) return false;
+  }
+  return true;
+};
+
+const splitLine = (line: string): string[] => {
+  const sentences: string[] = [];
+  let sentenceStart = 0;
+  let depth = 0;
+  let i = 0;
+  const isTerminator = (c: string) => CJK_TERMINATORS.includes(c) || ASCII_TERMINATORS.includes(c);
+  while (i < line.length) {
+    if (CJK_OPENERS.includes(line[i])) depth++;
+    else if (CJK_CLOSERS.includes(line[i])) depth = Math.max(0, depth - 1);
+    if (!isTerminator(line[i])) {
+      i++;
+      continue;
+    }
+    const runStart = i;
+    while (i < line.length && isTerminator(line[i])) i++;
+    const runEnd = i;
+    const quoted = depth > 0;
+    while (i < line.length && CLOSERS.includes(line[i])) {
+      if (CJK_CLOSERS.includes(line[i])) depth = Math.max(0, depth - 1);
+      i++;
+    }
+    if (!quoted && isBoundary(line, runStart, runEnd, i)) {
+      sentences.push(line.slice(sentenceStart, i));
+      sentenceStart = i;
+    }
+  }
+  sentences.push(line.slice(sentenceStart));
+  return sentences;
+};
+
+/**
+ * Splits pasted text into sentences. Line breaks always end a sentence. Japanese and
+ * Chinese full-width terminators (。！？) split without needing a following space; English
+ * punctuation only splits before whitespace and a non-lowercase word, skipping common
+ * abbreviations, initials and decimals. Throws InvalidInputError for empty or oversized text.
+ */
+export const splitSentences = (text: string): string[] =>
+  cleanUserInput(text, 'document')
+    .split(/\n+/)
+    .flatMap(splitLine)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+
+/**
+ * Analyzes one sentence of a document. Failures are returned as an `error` entry rather than
+ * thrown, so one bad sentence doesn't stop the rest; only aborting rejects.
+ */
+export const analyzeDocumentSentence = async (text: string, options: RequestOptions = {}): Promise<DocumentSentence> => {
+  try {
+    const data = await lexiconService.analyzeSentence(text, options);
+    return { text, status: 'done', data };
+  } catch (e) {
+    if (isAbortError(e) || options.signal?.aborted) throw e;
+    return { text, status: 'error', error: toLexiconError(e) };
+  }
+};
+
+/**
+ * Analyzes every sentence, at most `concurrency` at a time, reporting each change of a
+ * sentence's state through `onUpdate`. Resolves once all sentences are done or failed.
+ */
+export const analyzeDocument = async (
+  sentences: string[],
+  onUpdate: (index: number, sentence: DocumentSentence) => void,
+  options: RequestOptions & { concurrency?: number } = {},
+): Promise<void> => {
+  const { concurrency = DOCUMENT_CONCURRENCY, ...requestOptions } = options;
+  let next = 0;
+  const worker = async () => {
+    while (next < sentences.length) {
+      const index = next++;
+      onUpdate(index, { text: sentences[index], status: 'analyzing' });
+      onUpdate(index, await analyzeDocumentSentence(sentences[index], requestOptions));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, sentences.length) }, worker));
+};
+
+export const isDocumentFinished = (document: DocumentAnalysis) =>
+  document.sentences.every(sentence => sentence.status === 'done' || sentence.status === 'error');
+
+/**
+ * Breakdown tokens of all analyzed sentences, deduplicated by word and reading,
+ * in order of first appearance. Punctuation tokens are left out.
+ */
+export const combinedVocabulary = (sentences: DocumentSentence[]): VocabularyEntry[] => {
+  const entries = new Map<string, VocabularyEntry>();
+  sentences.forEach((sentence, index) => {
+    for (const token of sentence.data?.breakdown ?? []) {
+      const word = token.word.trim();
+      if (!/[\p{L}\p{N}]/u.test(word)) continue;
+      const key = `${word}\u0000${token.reading ?? ''}`;
+      const entry = entries.get(key);
+      if (!entry) {
+        entries.set(key, { word, reading: token.reading, partOfSpeech: token.partOfSpeech, meaning: token.meaning, sentences: [index] });
+      } else if (!entry.sentences.includes(index)) {
+        entry.sentences.push(index);
+      }
+    }
+  });
+  return [...entries.values()];
+};
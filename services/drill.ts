@@ -0,0 +1,167 @@
+import { HistoryItem } from "../types";
+import { quizWords } from "./quiz";
+import { normalizeKana, readingFromPronunciation } from "./kana";
+import {
+  FORM_LABELS,
+  checkInflections,
+  conjugate,
+  conjugationClass,
+  formKey,
+  isJapanese,
+  surfaceOf,
+} from "./conjugator";
+import { isCount, validTable } from "./validation";
+import { morae, wordPitchAccents } from "./pitch";
+
+const STATS_KEY = 'trilingua_drill_stats';
+
+export interface DrillItem {
+  kind: 'form';
+  id: string;
+  wordId: string;
+  dictionary: string;
+  reading: string;
+  partOfSpeech: string;
+  label: string; // The model's form label, e.g. "Potential Negative"
+  statsLabel: string; // Canonical form label when the conjugator knows it, so stats group across spellings
+  modelValue: string;
+  answers: string[]; // Normalized hiragana/kanji strings that count as correct
+  // Set when the rule-based conjugator disagrees with the model
+  expected?: string[];
+}
+
+// Swaps the kanji head of an inflected form for its reading: 食べて -> たべて
+const kanaVariant = (value: string, word: string, reading: string): string | null => {
+  let shared = 0;
+  while (shared < Math.min(word.length, reading.length) && word[word.length - 1 - shared] === reading[reading.length - 1 - shared]) shared++;
+  const head = word.slice(0, word.length - shared);
+  if (!head || !reading || !value.startsWith(head)) return null;
+  return reading.slice(0, reading.length - shared) + value.slice(head.length);
+};
+
+/**
+ * One drill item per Japanese inflected form of every verb and adjective in history.
+ * Accepted answers are the model's form and its kana reading. When the rule-based
+ * conjugator produces the same form, its variants (e.g. ら抜き potentials) count too.
+ */
+export const drillItems = (history: HistoryItem[]): DrillItem[] => {
+  const items: DrillItem[] = [];
+  for (const { id: wordId, data } of quizWords(history)) {
+    const word = data.coreWord.jp;
+    if (!word) continue;
+    const reading = readingFromPronunciation(data.pronunciation.jp);
+    const issues = checkInflections(data);
+
+    for (const group of data.inflections ?? []) {
+      const cls = conjugationClass(word, reading, group.partOfSpeech);
+      for (const form of group.forms ?? []) {
+        const value = surfaceOf(form.value);
+        if (!isJapanese(value)) continue;
+        const key = formKey(form.label);
+        const candidates = [value];
+        const kana = kanaVariant(value, word, reading);
+        if (kana) candidates.push(kana);
+        if (cls && key) {
+          const conjugated = [...conjugate(word, cls, key) ?? [], ...(reading ? conjugate(reading, cls, key) ?? [] : [])];
+          // Only when the conjugator agrees with the model; otherwise its forms may answer a different question
+          if (conjugated.includes(value)) candidates.push(...conjugated);
+        }
+        const issue = issues.find(i => i.partOfSpeech === group.partOfSpeech && i.label === form.label);
+        items.push({
+          kind: 'form',
+          id: `${wordId}|${group.partOfSpeech}|${form.label}`,
+          wordId,
+          dictionary: word,
+          reading,
+          partOfSpeech: group.partOfSpeech,
+          label: form.label,
+          statsLabel: key ? FORM_LABELS[key] : form.label,
+          modelValue: value,
+          answers: [...new Set(candidates.map(normalizeKana))],
+          expected: issue?.expected,
+        });
+      }
+    }
+  }
+  return items;
+};
+
+export const PITCH_LABEL = 'Pitch accent';
+
+export interface PitchDrillItem {
+  kind: 'pitch';
+  id: string;
+  wordId: string;
+  dictionary: string;
+  reading: string;
+  moraCount: number;
+  answers: number[]; // Accepted downstep positions
+  source: 'dictionary' | 'model';
+}
+
+/**
+ * One pitch accent question per Japanese word in history, for its first listed reading.
+ * Answers come from the bundled accent dictionary where it lists the word, otherwise
+ * from the model.
+ */
+export const pitchDrillItems = (history: HistoryItem[]): PitchDrillItem[] => {
+  const items: PitchDrillItem[] = [];
+  for (const { id: wordId, data } of quizWords(history)) {
+    const resolved = data.coreWord.jp ? wordPitchAccents(data) : null;
+    if (!resolved) continue;
+    const reading = resolved.accents[0].reading;
+    items.push({
+      kind: 'pitch',
+      id: `${wordId}|pitch`,
+      wordId,
+      dictionary: data.coreWord.jp,
+      reading,
+      moraCount: morae(reading).length,
+      answers: resolved.accents.filter(accent => accent.reading === reading).map(accent => accent.downstep),
+      source: resolved.source,
+    });
+  }
+  return items;
+};
+
+export const checkDrillAnswer = (item: DrillItem, input: string) => item.answers.includes(normalizeKana(input));
+
+export interface FormStats {
+  attempts: number;
+  correct: number;
+}
+
+export const isFormStats = (s: Record<string, unknown>) => isCount(s.attempts) && isCount(s.correct);
+
+export const loadDrillStats = (): Record<string, FormStats> => {
+  try {
+    const rejected: string[] = [];
+    const stats = validTable<FormStats>(JSON.parse(localStorage.getItem(STATS_KEY) || '{}'), 'Drill stat', isFormStats, rejected);
+    if (rejected.length) console.warn("Dropping invalid drill stats:", rejected);
+    return stats;
+  } catch (e) {
+    console.warn("Failed to read drill stats, starting fresh", e);
+  }
+  return {};
+};
+
+/**
+ * Records one answer against its form label and returns the updated stats table.
+ */
+export const recordDrillAnswer = (label: string, correct: boolean): Record<string, FormStats> => {
+  const stats = loadDrillStats();
+  const previous = stats[label] ?? { attempts: 0, correct: 0 };
+  stats[label] = { attempts: previous.attempts + 1, correct: previous.correct + (correct ? 1 : 0) };
+  saveDrillStats(stats);
+  return stats;
+};
+
+export const saveDrillStats = (stats: Record<string, FormStats>) => {
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.warn("Failed to save drill stats:", e);
+  }
+};
+
+export const clearDrillStats = () => localStorage.removeItem(STATS_KEY);
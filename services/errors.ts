@@ -0,0 +1,113 @@
+export const LEXICON_ERROR_KINDS = ['missing-key', 'invalid-input', 'quota', 'safety', 'network', 'malformed', 'unknown'] as const;
+export type LexiconErrorKind = typeof LEXICON_ERROR_KINDS[number];
+
+/**
+ * Base class for every failure the UI can explain to the user.
+ * `retryable` tells the retry loop (and the error UI) whether trying again can help.
+ */
+export class LexiconError extends Error {
+  constructor(
+    public kind: LexiconErrorKind,
+    message: string,
+    public retryable: boolean,
+    options: { cause?: unknown } = {}
+  ) {
+    super(message, options);
+    this.name = 'LexiconError';
+  }
+}
+
+export class MissingApiKeyError extends LexiconError {
+  constructor(message = "API key is missing or invalid.", options: { cause?: unknown } = {}) {
+    super('missing-key', message, false, options);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+// Empty or oversized input, rejected before any model call is made
+export class InvalidInputError extends LexiconError {
+  constructor(message = "The input can't be looked up.", options: { cause?: unknown } = {}) {
+    super('invalid-input', message, false, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class QuotaExceededError extends LexiconError {
+  constructor(message = "Rate limit or quota exceeded.", public retryAfterMs?: number, options: { cause?: unknown } = {}) {
+    super('quota', message, true, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockedError extends LexiconError {
+  constructor(message = "The request was blocked by the model's safety filters.", options: { cause?: unknown } = {}) {
+    super('safety', message, false, options);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NetworkError extends LexiconError {
+  constructor(message = "Could not reach the language service.", options: { cause?: unknown } = {}) {
+    super('network', message, true, options);
+    this.name = 'NetworkError';
+  }
+}
+
+// The model answered, but not with something we can use. Often succeeds on a second try.
+export class MalformedResponseError extends LexiconError {
+  constructor(message = "The model returned an unusable response.", options: { cause?: unknown } = {}) {
+    super('malformed', message, true, options);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * Cancellation is not a failure: callers should drop the result silently.
+ */
+export const isAbortError = (e: unknown): boolean =>
+  e instanceof Error && e.name === 'AbortError';
+
+// Parses "retry in 23.4s", "retryDelay": "23s" style hints from Gemini error messages
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps anything thrown by the SDK, fetch or our own code onto the taxonomy above.
+ */
+export const toLexiconError = (e: unknown): LexiconError => {
+  if (e instanceof LexiconError) return e;
+
+  const message = e instanceof Error ? e.message : String(e);
+  const status = typeof e === 'object' && e !== null && 'status' in e && typeof e.status === 'number' ? e.status : undefined;
+
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new QuotaExceededError(undefined, parseRetryDelay(message), { cause: e });
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+    return new MissingApiKeyError(undefined, { cause: e });
+  }
+  if ((status !== undefined && status >= 500) || e instanceof TypeError || /fetch failed|network|ECONNRESET|ETIMEDOUT|UNAVAILABLE/i.test(message)) {
+    return new NetworkError(undefined, { cause: e });
+  }
+  if (e instanceof SyntaxError) {
+    return new MalformedResponseError(undefined, { cause: e });
+  }
+  return new LexiconError('unknown', message || "Unexpected error.", false, { cause: e });
+};
+
+/**
+ * Rebuilds a typed error from its kind, e.g. when the proxy server reports one.
+ */
+export const errorFromKind = (kind: LexiconErrorKind, message: string, retryAfterMs?: number): LexiconError => {
+  switch (kind) {
+    case 'missing-key': return new MissingApiKeyError(message);
+    case 'invalid-input': return new InvalidInputError(message);
+    case 'quota': return new QuotaExceededError(message, retryAfterMs);
+    case 'safety': return new SafetyBlockedError(message);
+    case 'network': return new NetworkError(message);
+    case 'malformed': return new MalformedResponseError(message);
+    default: return new LexiconError('unknown', message, false);
+  }
+};
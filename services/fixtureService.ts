@@ -1,7 +1,9 @@
-import { WordData, SentenceData } from "../types";
-import { LexiconProvider, SpeechLang } from "./lexiconProvider";
+import { WordData, SentenceData, KanjiData } from "../types";
+import { LexiconProvider, SpeechLang, RequestOptions } from "./lexiconProvider";
+import { validateWordData, validateSentenceData, validateKanjiData } from "./validation";
 import wordFixtures from "../fixtures/words.json";
 import sentenceFixtures from "../fixtures/sentences.json";
+import kanjiFixtures from "../fixtures/kanji.json";
 
 export interface WordFixture {
   aliases?: string[]; // Extra queries that should resolve to this entry
@@ -15,9 +17,14 @@ export interface SentenceFixture {
   speech?: Record<string, string>;
 }
 
+export interface KanjiFixture {
+  data: KanjiData;
+}
+
 interface FixtureServiceOptions {
   words?: WordFixture[];
   sentences?: SentenceFixture[];
+  kanji?: KanjiFixture[];
   // Simulated network delay so loading states stay visible during demos and tests
   latencyMs?: number;
 }
@@ -25,22 +32,30 @@ interface FixtureServiceOptions {
 const normalize = (text: string) => text.trim().toLowerCase();
 
 /**
- * Replays recorded WordData/SentenceData responses. Needs no API key or network,
+ * Replays recorded WordData/SentenceData/KanjiData responses. Needs no API key or network,
  * so the UI can be developed, demoed and tested fully offline.
  */
 export class FixtureService implements LexiconProvider {
   private words: WordFixture[];
   private sentences: SentenceFixture[];
+  private kanji: KanjiFixture[];
   private latencyMs: number;
 
   constructor(options: FixtureServiceOptions = {}) {
     this.words = options.words ?? (wordFixtures as WordFixture[]);
     this.sentences = options.sentences ?? (sentenceFixtures as SentenceFixture[]);
+    this.kanji = options.kanji ?? (kanjiFixtures as KanjiFixture[]);
     this.latencyMs = options.latencyMs ?? 300;
   }
 
-  private delay(): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, this.latencyMs));
+  private delay(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, this.latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
   }
 
   private findWord(query: string): WordFixture | undefined {
@@ -51,24 +66,31 @@ export class FixtureService implements LexiconProvider {
     );
   }
 
-  async analyzeWord(query: string): Promise<WordData> {
-    await this.delay();
+  async analyzeWord(query: string, { signal }: RequestOptions = {}): Promise<WordData> {
+    await this.delay(signal);
     const fixture = this.findWord(query);
     if (!fixture) throw new Error(`No recorded fixture for word "${query}"`);
-    // Hand out copies so callers can't mutate the recorded data
-    return structuredClone(fixture.data);
+    // Validation also hands out a fresh copy, so callers can't mutate the recorded data
+    return validateWordData(fixture.data);
   }
 
-  async analyzeSentence(sentence: string): Promise<SentenceData> {
-    await this.delay();
+  async analyzeSentence(sentence: string, { signal }: RequestOptions = {}): Promise<SentenceData> {
+    await this.delay(signal);
     const key = normalize(sentence);
     const fixture = this.sentences.find(({ data }) => normalize(data.original) === key);
     if (!fixture) throw new Error(`No recorded fixture for sentence "${sentence}"`);
-    return structuredClone(fixture.data);
+    return validateSentenceData(fixture.data);
+  }
+
+  async analyzeKanji(character: string, { signal }: RequestOptions = {}): Promise<KanjiData> {
+    await this.delay(signal);
+    const fixture = this.kanji.find(({ data }) => data.character === character.trim());
+    if (!fixture) throw new Error(`No recorded fixture for kanji "${character}"`);
+    return validateKanjiData(fixture.data);
   }
 
-  async generateImage(word: string): Promise<string | null> {
-    await this.delay();
+  async generateImage(word: string, { signal }: RequestOptions = {}): Promise<string | null> {
+    await this.delay(signal);
     return this.findWord(word)?.imageUrl ?? null;
   }
 
@@ -1,15 +1,74 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { WordData, SentenceData } from "../types";
-import { LexiconProvider, SpeechLang } from "./lexiconProvider";
+import { GoogleGenAI, Type, Modality, GenerateContentParameters, GenerateContentResponse, FinishReason } from "@google/genai";
+import { WordData, SentenceData, KanjiData } from "../types";
+import { LexiconProvider, SpeechLang, AnalyzeOptions, RequestOptions, SpeechOptions, DEFAULT_VOICES } from "./lexiconProvider";
+import {
+  parseModelJson,
+  validateWordData,
+  validateSentenceData,
+  normalizePartialWordData,
+  normalizePartialSentenceData,
+  validateKanjiData,
+  normalizePartialKanjiData,
+  isRecord,
+} from "./validation";
+import { parsePartialJson } from "./partialJson";
+import { cleanUserInput, cleanKanjiInput, wordPrompt, sentencePrompt, kanjiPrompt, imagePrompt, imageSearchPrompt, speechText } from "./prompts";
+import { MissingApiKeyError, QuotaExceededError, SafetyBlockedError, LEXICON_ERROR_KINDS, LexiconErrorKind, errorFromKind, isAbortError, toLexiconError } from "./errors";
+import { RetryOptions, DEFAULT_RETRY, withRetry } from "./retry";
+
+// Bump whenever prompts or response schemas change so cached results from older prompts are ignored
+export const PROMPT_VERSION = 4;
+
+/**
+ * "direct" calls Google from wherever this runs (needs the key in that environment).
+ * "proxy" sends every request to our backend (server/index.ts), which holds the key.
+ */
+export type GeminiMode = 'direct' | 'proxy';
+
+export interface GeminiServiceOptions {
+  mode?: GeminiMode;
+  apiKey?: string;
+  proxyUrl?: string; // Base URL of the backend, e.g. "/api"
+  retry?: Partial<RetryOptions>;
+}
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+// Gemini reports blocked prompts/answers as a normal response, so detect them explicitly
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(`The request was blocked by the model's safety filters (${blockReason}).`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`The answer was blocked by the model's safety filters (${finishReason}).`);
+  }
+};
 
 export class GeminiService implements LexiconProvider {
   private ai: GoogleGenAI | null = null;
+  private mode: GeminiMode;
+  private apiKey: string | undefined;
+  private proxyUrl: string;
+  private retry: RetryOptions;
+
+  constructor(options: GeminiServiceOptions = {}) {
+    this.mode = options.mode ?? 'direct';
+    this.retry = { ...DEFAULT_RETRY, ...options.retry };
+    this.apiKey = options.apiKey ?? process.env.API_KEY;
+    this.proxyUrl = (options.proxyUrl ?? '/api').replace(/\/$/, '');
+
+    // In proxy mode the browser never touches the SDK
+    if (this.mode === 'proxy') return;
 
-  constructor() {
     // Attempt to initialize if key is present, but don't crash if not.
     // Initialization is deferred to actual usage to prevent load-time errors.
-    const apiKey = process.env.API_KEY;
+    const apiKey = this.apiKey;
     if (apiKey) {
       try {
         this.ai = new GoogleGenAI({ apiKey });
@@ -21,39 +80,90 @@ export class GeminiService implements LexiconProvider {
 
   private getClient(): GoogleGenAI {
     if (!this.ai) {
-      const apiKey = process.env.API_KEY;
+      const apiKey = this.apiKey;
       if (!apiKey) {
-        throw new Error("API Key is missing. Please set the API_KEY environment variable in your Vercel settings or .env file.");
+        throw new MissingApiKeyError("API Key is missing. Please set the API_KEY environment variable in your Vercel settings or .env file.");
       }
       this.ai = new GoogleGenAI({ apiKey });
     }
     return this.ai;
   }
 
-  async analyzeWord(query: string): Promise<WordData> {
-    const prompt = `
-      Analyze the following input: "${query}". 
-      Input language could be Japanese, English, or Chinese.
-      Identify the core vocabulary word intended by the user.
-      Provide a trilingual dictionary entry (Japanese, English, Chinese).
-      
-      For the Japanese Definition:
-      1. Provide a standard text version.
-      2. Provide a version with Furigana using HTML <ruby> tags (e.g., <ruby>日本<rt>にほん</rt></ruby>).
-      
-      For Example Sentences:
-      1. If the example is in Japanese, provide a standard 'text' version AND a 'text_furigana' version with HTML <ruby> tags.
-
-      For Inflections/Conjugations:
-      1. If the word is a Japanese Verb or Adjective, list common forms (Polite/Masu, Te-form, Past, Negative, Potential, Passive, Causative, Volitional, etc.).
-      2. If the word is an English Verb, list forms (Present, Past, Past Participle, Gerund/Present Participle, 3rd Person Singular).
-      3. If the word is an English Noun with irregular plural, list it.
-      4. If Chinese, leave empty unless there are specific variants.
-      
-      Include pronunciations, example sentences, inflections, etymology, synonyms, and antonyms.
-    `;
+  private async callProxy<T>(endpoint: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const response = await fetch(`${this.proxyUrl}/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
 
-    const response = await this.getClient().models.generateContent({
+    if (!response.ok) {
+      const payload: unknown = await response.json().catch(() => null);
+      const body = isRecord(payload) ? payload : {};
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      const kind: LexiconErrorKind = (LEXICON_ERROR_KINDS as readonly unknown[]).includes(body.kind) ? body.kind as LexiconErrorKind
+        : response.status === 429 ? 'quota' : response.status >= 500 ? 'network' : 'unknown';
+      const message = typeof body.error === 'string' && body.error ? body.error : `Proxy request to /${endpoint} failed (${response.status})`;
+      const error = errorFromKind(kind, message, retryAfter ? retryAfter * 1000 : undefined);
+      // The server already retried upstream failures; only quota waits are worth repeating here
+      if (kind !== 'quota') error.retryable = false;
+      throw error;
+    }
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Runs a JSON-mode request. With `onPartial`, the response is streamed and every
+   * parseable prefix is reported as it arrives. Returns the full response text.
+   */
+  private async generateJson(
+    request: GenerateContentParameters,
+    signal?: AbortSignal,
+    onPartial?: (raw: unknown) => void
+  ): Promise<string | undefined> {
+    request = { ...request, config: { ...request.config, abortSignal: signal } };
+    if (!onPartial) {
+      const response = await this.getClient().models.generateContent(request);
+      assertNotBlocked(response);
+      return response.text;
+    }
+
+    const stream = await this.getClient().models.generateContentStream(request);
+    let text = '';
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      assertNotBlocked(chunk);
+      text += chunk.text ?? '';
+      const partial = parsePartialJson(text);
+      if (partial !== undefined) onPartial(partial);
+    }
+    return text;
+  }
+
+  // Input is checked up front as well, so oversized text never leaves the browser in proxy mode
+  async analyzeWord(query: string, options: AnalyzeOptions<WordData> = {}): Promise<WordData> {
+    cleanUserInput(query, 'word');
+    return withRetry(() => this.requestWord(query, options), this.retry, options.signal);
+  }
+
+  async analyzeSentence(sentence: string, options: AnalyzeOptions<SentenceData> = {}): Promise<SentenceData> {
+    cleanUserInput(sentence, 'sentence');
+    return withRetry(() => this.requestSentence(sentence, options), this.retry, options.signal);
+  }
+
+  async analyzeKanji(character: string, options: AnalyzeOptions<KanjiData> = {}): Promise<KanjiData> {
+    cleanKanjiInput(character);
+    return withRetry(() => this.requestKanji(character, options), this.retry, options.signal);
+  }
+
+  private async requestWord(query: string, options: AnalyzeOptions<WordData>): Promise<WordData> {
+    // The proxy answers in one piece, so there are no partial results in that mode
+    const { onPartial, signal } = options;
+    if (this.mode === 'proxy') return validateWordData(await this.callProxy<unknown>('word', { query }, signal));
+
+    const prompt = wordPrompt(query);
+
+    const text = await this.generateJson({
       model: "gemini-2.5-flash",
       contents: prompt,
       config: {
@@ -79,6 +189,18 @@ export class GeminiService implements LexiconProvider {
                 zh: { type: Type.STRING, description: "Pinyin" },
               },
             },
+            pitchAccent: {
+              type: Type.ARRAY,
+              description: "Tokyo pitch accent patterns of the Japanese word",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  reading: { type: Type.STRING, description: "Hiragana reading" },
+                  downstep: { type: Type.INTEGER, description: "Mora after which the pitch falls; 0 for heiban" },
+                },
+                required: ["reading", "downstep"],
+              },
+            },
             definitions: {
               type: Type.OBJECT,
               properties: {
@@ -121,6 +243,15 @@ export class GeminiService implements LexiconProvider {
                 }
               }
             },
+            levels: {
+              type: Type.OBJECT,
+              properties: {
+                jlpt: { type: Type.STRING, description: "N5 to N1, empty if not in the JLPT lists" },
+                hsk: { type: Type.STRING, description: "1 to 9, empty if not in the HSK lists" },
+                cefr: { type: Type.STRING, description: "A1 to C2, empty if unknown" },
+                frequency: { type: Type.STRING, enum: ["very common", "common", "uncommon", "rare"] },
+              },
+            },
             etymology: { type: Type.STRING },
             related: {
               type: Type.OBJECT,
@@ -132,30 +263,25 @@ export class GeminiService implements LexiconProvider {
             },
           },
           required: ["coreWord", "pronunciation", "definitions", "examples", "etymology", "related"],
+          // Stream sections in the order WordCard lays them out
+          propertyOrdering: ["inputWord", "coreWord", "pronunciation", "pitchAccent", "levels", "definitions", "inflections", "etymology", "related", "examples"],
         },
       },
-    });
+    }, signal, onPartial && ((raw) => {
+      const partial = normalizePartialWordData(raw);
+      if (partial) onPartial(partial);
+    }));
 
-    if (!response.text) throw new Error("No text response from Gemini");
-    return JSON.parse(response.text) as WordData;
+    return validateWordData(parseModelJson(text));
   }
 
-  async analyzeSentence(sentence: string): Promise<SentenceData> {
-    const prompt = `
-      Analyze the following sentence deeply: "${sentence}".
-      The sentence could be in Japanese, English, or Chinese.
-      
-      1. Break down the sentence word by word (or by grammatical unit).
-      2. For each broken-down word, provide the meaning in Japanese, English, and Chinese.
-      3. Provide a detailed grammar analysis explaining the structure, tense, and nuances.
-      4. Provide the grammar analysis in THREE languages: Japanese, English, and Chinese.
-      5. Translate the full sentence into Japanese, English, and Chinese.
-      
-      For ANY Japanese text output (translations, grammar analysis, etc.):
-      Provide a version that uses HTML <ruby> tags for Furigana readings where appropriate (e.g. <ruby>私<rt>わたし</rt></ruby>は...).
-    `;
+  private async requestSentence(sentence: string, options: AnalyzeOptions<SentenceData>): Promise<SentenceData> {
+    const { onPartial, signal } = options;
+    if (this.mode === 'proxy') return validateSentenceData(await this.callProxy<unknown>('sentence', { sentence }, signal), sentence);
 
-    const response = await this.getClient().models.generateContent({
+    const prompt = sentencePrompt(sentence);
+
+    const text = await this.generateJson({
       model: "gemini-2.5-flash",
       contents: prompt,
       config: {
@@ -206,24 +332,104 @@ export class GeminiService implements LexiconProvider {
               required: ["jp", "jp_furigana", "en", "zh"]
             }
           },
-          required: ["original", "breakdown", "grammarAnalysis", "translations"]
+          required: ["original", "breakdown", "grammarAnalysis", "translations"],
+          propertyOrdering: ["original", "breakdown", "grammarAnalysis", "translations"]
         }
       }
-    });
+    }, signal, onPartial && ((raw) => {
+      const partial = normalizePartialSentenceData(raw, sentence);
+      if (partial) onPartial(partial);
+    }));
+
+    return validateSentenceData(parseModelJson(text), sentence);
+  }
+
+  private async requestKanji(character: string, options: AnalyzeOptions<KanjiData>): Promise<KanjiData> {
+    const { onPartial, signal } = options;
+    if (this.mode === 'proxy') return validateKanjiData(await this.callProxy<unknown>('kanji', { character }, signal), character);
+
+    const text = await this.generateJson({
+      model: "gemini-2.5-flash",
+      contents: kanjiPrompt(character),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            character: { type: Type.STRING },
+            meanings: {
+              type: Type.OBJECT,
+              properties: {
+                jp: { type: Type.STRING },
+                en: { type: Type.STRING },
+                zh: { type: Type.STRING },
+              },
+              required: ["jp", "en", "zh"],
+            },
+            onyomi: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Katakana" },
+            kunyomi: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Hiragana, okurigana after a dot" },
+            radical: {
+              type: Type.OBJECT,
+              properties: {
+                character: { type: Type.STRING },
+                meaning: { type: Type.STRING, description: "English name of the radical" },
+              },
+              required: ["character", "meaning"],
+            },
+            components: { type: Type.ARRAY, items: { type: Type.STRING } },
+            strokeCount: { type: Type.INTEGER },
+            jlpt: { type: Type.STRING, description: "N5 to N1, empty if not listed" },
+            grade: { type: Type.STRING, description: "Jōyō grade 1-6 or 'Secondary', empty if not Jōyō" },
+            chinese: {
+              type: Type.OBJECT,
+              properties: {
+                simplified: { type: Type.STRING },
+                traditional: { type: Type.STRING },
+                pinyin: { type: Type.STRING, description: "With tone marks" },
+              },
+              required: ["simplified", "traditional", "pinyin"],
+            },
+            compounds: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  reading: { type: Type.STRING, description: "Hiragana" },
+                  meaning: { type: Type.STRING, description: "Short English meaning" },
+                },
+                required: ["word", "reading", "meaning"],
+              },
+            },
+          },
+          required: ["character", "meanings", "onyomi", "kunyomi", "radical", "components", "strokeCount", "chinese", "compounds"],
+          propertyOrdering: ["character", "meanings", "onyomi", "kunyomi", "radical", "components", "strokeCount", "jlpt", "grade", "chinese", "compounds"],
+        },
+      },
+    }, signal, onPartial && ((raw) => {
+      const partial = normalizePartialKanjiData(raw, character);
+      if (partial) onPartial(partial);
+    }));
 
-    if (!response.text) throw new Error("No text response from Gemini");
-    return JSON.parse(response.text) as SentenceData;
+    return validateKanjiData(parseModelJson(text), character);
   }
 
-  async generateImage(word: string): Promise<string | null> {
+  async generateImage(word: string, { signal }: RequestOptions = {}): Promise<string | null> {
+    cleanUserInput(word, 'word');
+    if (this.mode === 'proxy') {
+      const { imageUrl } = await this.callProxy<{ imageUrl: string | null }>('image', { word }, signal);
+      return imageUrl;
+    }
+
     // 1. Try gemini-2.5-flash-image
     try {
       const response = await this.getClient().models.generateContent({
         model: 'gemini-2.5-flash-image',
         contents: {
-          parts: [{ text: `A clear, high-quality, photorealistic or artistic illustration representing the concept of: "${word}". The image should be wide and suitable for a header.` }],
+          parts: [{ text: imagePrompt(word) }],
         },
         config: {
+          abortSignal: signal,
           imageConfig: {
             aspectRatio: "16:9"
           }
@@ -238,9 +444,10 @@ export class GeminiService implements LexiconProvider {
       }
       // If we got a response but no image, it might be a safety filter or text response.
       console.warn("gemini-2.5-flash-image returned no inlineData");
-    } catch (e: any) {
+    } catch (e) {
+      if (isAbortError(e)) throw e;
       // Handle quota limit (429) specifically to avoid alarmist logs for free tier limits
-      if (e.message?.includes('429') || e.status === 429) {
+      if (toLexiconError(e) instanceof QuotaExceededError) {
           console.warn("gemini-2.5-flash-image quota exceeded (429), skipping to fallback.");
       } else {
           console.warn("gemini-2.5-flash-image failed, trying fallback:", e);
@@ -251,8 +458,9 @@ export class GeminiService implements LexiconProvider {
     try {
       const response = await this.getClient().models.generateImages({
         model: 'imagen-4.0-generate-001',
-        prompt: `A clear, high-quality, photorealistic or artistic illustration representing the concept of: "${word}".`,
+        prompt: imagePrompt(word, false),
         config: {
+          abortSignal: signal,
           numberOfImages: 1,
           outputMimeType: 'image/jpeg',
           aspectRatio: '16:9',
@@ -265,28 +473,25 @@ export class GeminiService implements LexiconProvider {
       }
       console.warn("imagen-4.0-generate-001 returned no imageBytes");
     } catch (e) {
+      if (isAbortError(e)) throw e;
       console.warn("Imagen generation failed, trying search:", e);
     }
 
     // 3. Fallback to Search
     // We return whatever searchImage returns (string or null).
     // If search also fails, it returns null, which App.tsx handles gracefully.
-    return this.searchImage(word);
+    return this.searchImage(word, signal);
   }
 
-  private async searchImage(word: string): Promise<string | null> {
+  private async searchImage(word: string, signal?: AbortSignal): Promise<string | null> {
     try {
-      const prompt = `
-        Find a direct image URL representing the word: "${word}".
-        Preferably from Wikimedia Commons or other public domain sources.
-        The URL MUST point directly to an image file (ending in .jpg, .png, .jpeg).
-        Return ONLY the URL string. Do not add any markdown, explanation, or JSON formatting.
-      `;
+      const prompt = imageSearchPrompt(word);
 
       const response = await this.getClient().models.generateContent({
         model: "gemini-2.5-flash",
         contents: prompt,
         config: {
+          abortSignal: signal,
           tools: [{ googleSearch: {} }],
         },
       });
@@ -307,35 +512,40 @@ export class GeminiService implements LexiconProvider {
       
       return null;
     } catch (e) {
+      if (isAbortError(e)) throw e;
       console.error("Image search fallback failed", e);
       return null;
     }
   }
 
-  async generateSpeech(text: string, lang: SpeechLang): Promise<string | null> {
-    // Strip HTML tags for speech generation (in case text contains ruby tags)
-    const cleanText = text.replace(/<[^>]*>?/gm, '');
-    
-    const voiceName = lang === 'jp' ? 'Kore' : lang === 'en' ? 'Fenrir' : 'Puck';
+  async generateSpeech(text: string, lang: SpeechLang, options: SpeechOptions = {}): Promise<string | null> {
+    speechText(text);
+    return withRetry(() => this.requestSpeech(text, lang, options), this.retry, options.signal);
+  }
+
+  private async requestSpeech(text: string, lang: SpeechLang, { voice, signal }: SpeechOptions): Promise<string | null> {
+    if (this.mode === 'proxy') {
+      const { audio } = await this.callProxy<{ audio: string | null }>('speech', { text, lang, voice }, signal);
+      return audio;
+    }
+
+    const voiceName = voice || DEFAULT_VOICES[lang];
     
-    try {
-      const response = await this.getClient().models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: cleanText }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: voiceName },
-            },
+    const response = await this.getClient().models.generateContent({
+      model: "gemini-2.5-flash-preview-tts",
+      contents: [{ parts: [{ text: speechText(text) }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voiceName },
           },
         },
-      });
+      },
+    });
+    assertNotBlocked(response);
 
-      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
-    } catch (e) {
-      console.error("TTS failed", e);
-      return null;
-    }
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
   }
 }
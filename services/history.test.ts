@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem } from '../types';
+import { allTags, contentKey, matchesDateRange, matchesSearch, normalizeTags, upsertHistoryItem } from './history';
+import { entry, wordData } from './testFixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const sentence = (original: string, en: string): HistoryItem => ({
+  id: original,
+  timestamp: 1,
+  type: 'sentence',
+  label: original,
+  data: { original, breakdown: [], grammarAnalysis: '', translations: { jp: original, jp_furigana: original, en, zh: '' } },
+});
+
+describe('contentKey', () => {
+  it('keys words on all three headwords, ignoring case and width', () => {
+    expect(contentKey(entry(wordData('本', 'Book', '书'), 1))).toBe(contentKey(entry(wordData('本', 'ｂｏｏｋ ', '书'), 2)));
+    expect(contentKey(entry(wordData('本', 'book', '书'), 1))).not.toBe(contentKey(entry(wordData('本', 'counter', '根'), 1)));
+  });
+
+  it('keeps kanji, words and sentences with the same text apart', () => {
+    const word = entry(wordData('本', '', ''), 1);
+    const kanji = { ...word, type: 'kanji' as const, data: { ...word.data, character: '本' } };
+    expect(new Set([contentKey(word), contentKey(kanji), contentKey(sentence('本', ''))]).size).toBe(3);
+  });
+});
+
+describe('matchesSearch', () => {
+  const dog = entry(wordData('犬', 'dog', '狗'), 1, { tags: ['pets'] });
+
+  it('needs every term to appear in the label, headwords, definitions or tags', () => {
+    expect(matchesSearch(dog, '')).toBe(true);
+    expect(matchesSearch(dog, 'DOG 狗')).toBe(true);
+    expect(matchesSearch(dog, 'definition pets')).toBe(true);
+    expect(matchesSearch(dog, 'dog cat')).toBe(false);
+  });
+
+  it('searches sentence translations', () => {
+    expect(matchesSearch(sentence('犬が好き', 'I like dogs'), 'like')).toBe(true);
+  });
+});
+
+describe('matchesDateRange', () => {
+  const now = new Date(2026, 0, 10, 12).getTime();
+  const at = (timestamp: number) => entry(wordData('犬', 'dog', '狗'), timestamp);
+
+  it('matches calendar days for today and rolling windows otherwise', () => {
+    expect(matchesDateRange(at(new Date(2026, 0, 10, 0, 5).getTime()), 'today', now)).toBe(true);
+    expect(matchesDateRange(at(now - DAY), 'today', now)).toBe(false);
+    expect(matchesDateRange(at(now - 7 * DAY), 'week', now)).toBe(true);
+    expect(matchesDateRange(at(now - 8 * DAY), 'week', now)).toBe(false);
+    expect(matchesDateRange(at(now - 30 * DAY), 'month', now)).toBe(true);
+    expect(matchesDateRange(at(0), 'all', now)).toBe(true);
+  });
+});
+
+describe('tags', () => {
+  it('trims, lowercases and dedupes tags', () => {
+    expect(normalizeTags([' N5 ', 'n5', '', 'Pets'])).toEqual(['n5', 'pets']);
+  });
+
+  it('lists every tag in use, sorted', () => {
+    expect(allTags([entry(wordData('犬', 'dog', '狗'), 1, { tags: ['pets', 'n5'] }), entry(wordData('猫', 'cat', '猫'), 2, { tags: ['pets'] })])).toEqual(['n5', 'pets']);
+  });
+});
+
+describe('upsertHistoryItem', () => {
+  it('puts a new entry first', () => {
+    const dog = entry(wordData('犬', 'dog', '狗'), 1);
+    const cat = entry(wordData('猫', 'cat', '猫'), 2);
+    expect(upsertHistoryItem([dog], cat)).toEqual({ next: [cat, dog], replaced: [] });
+  });
+
+  it('replaces the same content and carries over its pin and tags', () => {
+    const old = entry(wordData('犬', 'dog', '狗'), 1, { pinned: true, tags: ['pets'] });
+    const cat = entry(wordData('猫', 'cat', '猫'), 2);
+    const again = entry(wordData('犬', 'Dog', '狗'), 3, { tags: ['n5'] });
+    const { next, replaced } = upsertHistoryItem([cat, old], again);
+    expect(replaced).toEqual([old]);
+    expect(next.map(item => item.id)).toEqual([again.id, cat.id]);
+    expect(next[0]).toMatchObject({ pinned: true, tags: ['n5', 'pets'] });
+  });
+});
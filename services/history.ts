@@ -0,0 +1,95 @@
+import { HistoryItem, KanjiData, SentenceData, WordData } from "../types";
+
+export type HistoryType = HistoryItem['type'];
+export type DateRange = 'all' | 'today' | 'week' | 'month';
+
+export const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Same query typed slightly differently ("  Taberu", "taberu") counts as the same word
+ * when matching history entries or searching them.
+ */
+const normalizeQuery = (query: string) =>
+  query.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Identity of an entry's content, used to spot the same lookup saved twice.
+ * Words are keyed by all three headwords, so 本 (book) and 本 (counter) stay
+ * separate while the same word reached from another language is one entry.
+ */
+export const contentKey = (item: Pick<HistoryItem, 'type' | 'data'>): string => {
+  if (item.type === 'word') {
+    const { jp, en, zh } = (item.data as WordData).coreWord;
+    return `word:${normalizeQuery(jp)}|${normalizeQuery(en)}|${normalizeQuery(zh)}`;
+  }
+  if (item.type === 'kanji') return `kanji:${(item.data as KanjiData).character}`;
+  return `sentence:${normalizeQuery((item.data as SentenceData).original)}`;
+};
+
+// Everything the sidebar search looks at: label, headwords, definitions or translations, and tags
+const searchText = (item: HistoryItem): string => {
+  const parts = [item.label, ...(item.tags ?? [])];
+  if (item.type === 'word') {
+    const data = item.data as WordData;
+    parts.push(data.inputWord, ...Object.values(data.coreWord), data.pronunciation.jp, data.definitions.jp, data.definitions.en, data.definitions.zh);
+  } else if (item.type === 'kanji') {
+    const data = item.data as KanjiData;
+    parts.push(data.character, ...Object.values(data.meanings), ...data.onyomi, ...data.kunyomi);
+  } else {
+    const data = item.data as SentenceData;
+    parts.push(data.original, data.translations.jp, data.translations.en, data.translations.zh);
+  }
+  return normalizeQuery(parts.filter(Boolean).join(' '));
+};
+
+// Search text is rebuilt only when an item object changes
+const searchCache = new WeakMap<HistoryItem, string>();
+
+/**
+ * Every whitespace-separated term has to appear somewhere in the entry.
+ */
+export const matchesSearch = (item: HistoryItem, search: string): boolean => {
+  const terms = normalizeQuery(search).split(' ').filter(Boolean);
+  if (!terms.length) return true;
+  let text = searchCache.get(item);
+  if (text === undefined) {
+    text = searchText(item);
+    searchCache.set(item, text);
+  }
+  return terms.every(term => text!.includes(term));
+};
+
+export const matchesDateRange = (item: HistoryItem, range: DateRange, now = Date.now()): boolean => {
+  if (range === 'all') return true;
+  if (range === 'today') return new Date(item.timestamp).toDateString() === new Date(now).toDateString();
+  return now - item.timestamp <= (range === 'week' ? 7 : 30) * DAY_MS;
+};
+
+// Tags are trimmed, lowercased and kept unique
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const allTags = (history: HistoryItem[]): string[] =>
+  [...new Set(history.flatMap(item => item.tags ?? []))].sort();
+
+/**
+ * Adds an entry, replacing any entry with the same content. The replaced entry's pin
+ * and tags carry over; the list stays newest first.
+ */
+export const upsertHistoryItem = (history: HistoryItem[], item: HistoryItem): { next: HistoryItem[]; replaced: HistoryItem[] } => {
+  const key = contentKey(item);
+  const replaced = history.filter(existing => contentKey(existing) === key);
+  const merged: HistoryItem = replaced.length ? {
+    ...item,
+    pinned: replaced.some(r => r.pinned) || item.pinned,
+    tags: normalizeTags([...(item.tags ?? []), ...replaced.flatMap(r => r.tags ?? [])]),
+  } : item;
+  return { next: [merged, ...history.filter(existing => !replaced.includes(existing))], replaced };
+};
@@ -0,0 +1,89 @@
+import { HistoryItem } from "../types";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { validateHistory } from "./validation";
+
+const DB_NAME = 'trilingua_history';
+const STORE = 'items';
+// Where history lived before it moved to IndexedDB; migrated once, then removed
+const LEGACY_KEY = 'trilingua_history';
+
+/**
+ * Keeps study history in IndexedDB, without a size limit. The UI works on an in-memory
+ * list and hands every new version of it to `persist`, which writes only what changed.
+ */
+export class HistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+  // Item objects as last written, to tell changed items apart by identity
+  private written = new Map<string, HistoryItem>();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, 1, (db) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      });
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  // Moves history saved by older versions out of localStorage
+  private async migrateLegacy(db: IDBDatabase): Promise<void> {
+    const saved = localStorage.getItem(LEGACY_KEY);
+    if (!saved) return;
+    try {
+      const items = validateHistory(JSON.parse(saved));
+      const tx = db.transaction(STORE, 'readwrite');
+      items.forEach(item => tx.objectStore(STORE).put(item));
+      await transactionDone(tx);
+      localStorage.removeItem(LEGACY_KEY);
+    } catch (e) {
+      console.warn("Failed to migrate history from localStorage:", e);
+    }
+  }
+
+  /**
+   * All entries, newest first. Returns an empty list when IndexedDB is unavailable;
+   * history then only lasts for the session.
+   */
+  async load(): Promise<HistoryItem[]> {
+    try {
+      const db = await this.open();
+      await this.migrateLegacy(db);
+      const tx = db.transaction(STORE, 'readonly');
+      const raw = await requestToPromise(tx.objectStore(STORE).index('timestamp').getAll());
+      const items = validateHistory(raw).reverse();
+      this.written = new Map(items.map(item => [item.id, item]));
+      return items;
+    } catch (e) {
+      console.warn("Failed to load history:", e);
+      return [];
+    }
+  }
+
+  /**
+   * Writes entries that are new or changed since the last successful write and deletes
+   * the ones that are gone. A failed write is retried on the next call.
+   */
+  async persist(items: HistoryItem[]): Promise<void> {
+    const current = new Map(items.map(item => [item.id, item]));
+    const changed = items.filter(item => this.written.get(item.id) !== item);
+    const removed = [...this.written.keys()].filter(id => !current.has(id));
+    if (!changed.length && !removed.length) return;
+
+    try {
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      // Images are never kept inline; generated ones live in the image store
+      changed.forEach(item => store.put(item.imageUrl?.startsWith('data:') ? { ...item, imageUrl: undefined } : item));
+      removed.forEach(id => store.delete(id));
+      await transactionDone(tx);
+      this.written = current;
+    } catch (e) {
+      console.warn("Failed to save history:", e);
+    }
+  }
+}
+
+export const historyStore = new HistoryStore();
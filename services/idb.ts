@@ -0,0 +1,35 @@
+/**
+ * Minimal promise wrappers around IndexedDB. Each feature owns its own database
+ * so schema upgrades never have to be coordinated across modules.
+ */
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,197 @@
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+const DB_NAME = 'trilingua_images';
+const STORE = 'images';
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  size: number;
+  createdAt: number;
+  lastAccess: number;
+}
+
+export interface ImageStoreOptions {
+  maxBytes?: number;
+  maxWidth?: number; // Images are downscaled to this width before storing
+  quality?: number;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Keeps generated images for history entries as compressed blobs in IndexedDB,
+ * so reopening an entry shows the picture it was first generated with instead of
+ * paying for (and getting) a different one. History items only hold the image ID.
+ * Once the store grows past `maxBytes`, the least recently viewed images go first.
+ */
+export class ImageStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private maxBytes: number;
+  private maxWidth: number;
+  private quality: number;
+  // Object URLs handed out so far, reused so each image is only read once per session
+  private urls = new Map<string, string>();
+  private persistRequested = false;
+
+  constructor(options: ImageStoreOptions = {}) {
+    this.maxBytes = options.maxBytes ?? 30 * 1024 * 1024;
+    this.maxWidth = options.maxWidth ?? 960;
+    this.quality = options.quality ?? 0.8;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, 1, (db) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('lastAccess', 'lastAccess');
+      });
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  // Downscales and re-encodes as WebP (JPEG where the browser can't encode WebP)
+  private async compress(source: Blob): Promise<{ blob: Blob; width: number; height: number }> {
+    const bitmap = await createImageBitmap(source);
+    const scale = Math.min(1, this.maxWidth / bitmap.width);
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    let blob = await canvasToBlob(canvas, 'image/webp', this.quality);
+    // Unsupported types silently fall back to PNG, which is far larger
+    if (!blob || blob.type !== 'image/webp') blob = await canvasToBlob(canvas, 'image/jpeg', this.quality);
+    if (!blob) throw new Error("Could not encode image");
+    // Never store something bigger than what we were given
+    return { blob: blob.size < source.size ? blob : source, width, height };
+  }
+
+  /**
+   * Stores an image (usually a generated `data:` URL) and returns its ID,
+   * or null when it couldn't be stored.
+   */
+  async save(imageUrl: string): Promise<string | null> {
+    try {
+      const source = await (await fetch(imageUrl)).blob();
+      const { blob, width, height } = await this.compress(source);
+      const now = Date.now();
+      const entry: StoredImage = {
+        id: crypto.randomUUID(),
+        blob,
+        width,
+        height,
+        size: blob.size,
+        createdAt: now,
+        lastAccess: now,
+      };
+
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(entry);
+      await transactionDone(tx);
+      await this.evict();
+      this.requestPersistence();
+      return entry.id;
+    } catch (e) {
+      console.warn("Failed to store image:", e);
+      return null;
+    }
+  }
+
+  // Reads an entry and marks it as recently used
+  private async read(id: string): Promise<StoredImage | undefined> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entry = await requestToPromise(store.get(id)) as StoredImage | undefined;
+    if (!entry) return undefined;
+
+    store.put({ ...entry, lastAccess: Date.now() });
+    await transactionDone(tx);
+    return entry;
+  }
+
+  /**
+   * Returns an object URL for a stored image, or null if it was evicted or never stored.
+   */
+  async getUrl(id: string): Promise<string | null> {
+    try {
+      const entry = await this.read(id);
+      if (!entry) return null;
+
+      let url = this.urls.get(id);
+      if (!url) {
+        url = URL.createObjectURL(entry.blob);
+        this.urls.set(id, url);
+      }
+      return url;
+    } catch (e) {
+      console.warn("Failed to read stored image:", e);
+      return null;
+    }
+  }
+
+  // Raw image data, e.g. for exports
+  async getBlob(id: string): Promise<Blob | null> {
+    try {
+      return (await this.read(id))?.blob ?? null;
+    } catch (e) {
+      console.warn("Failed to read stored image:", e);
+      return null;
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (!ids.length) return;
+    try {
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      ids.forEach(id => tx.objectStore(STORE).delete(id));
+      await transactionDone(tx);
+      ids.forEach(id => this.revoke(id));
+    } catch (e) {
+      console.warn("Failed to delete stored images:", e);
+    }
+  }
+
+  private revoke(id: string) {
+    const url = this.urls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    this.urls.delete(id);
+  }
+
+  // Drops the least recently viewed images until the store fits the budget
+  private async evict(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const index = tx.objectStore(STORE).index('lastAccess');
+    const entries = await requestToPromise(index.getAll()) as StoredImage[];
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      if (total <= this.maxBytes) break;
+      tx.objectStore(STORE).delete(entry.id);
+      this.revoke(entry.id);
+      total -= entry.size;
+    }
+    await transactionDone(tx);
+  }
+
+  // Asks the browser not to clear our storage under pressure; it may say no
+  private requestPersistence() {
+    if (this.persistRequested) return;
+    this.persistRequested = true;
+    navigator.storage?.persist?.().catch(() => {});
+  }
+}
+
+export const imageStore = new ImageStore();
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { isKana, katakanaToHiragana, normalizeKana, readingFromPronunciation, romajiToHiragana } from './kana';
+
+describe('romajiToHiragana', () => {
+  it('converts Hepburn and common alternative spellings', () => {
+    expect(romajiToHiragana('tabemasu')).toBe('たべます');
+    expect(romajiToHiragana('shinjuku')).toBe('しんじゅく');
+    expect(romajiToHiragana('sinzyuku')).toBe('しんじゅく');
+    expect(romajiToHiragana('kyou')).toBe('きょう');
+  });
+
+  it('doubles consonants with a small tsu', () => {
+    expect(romajiToHiragana('kitte')).toBe('きって');
+    expect(romajiToHiragana('matcha')).toBe('まっちゃ');
+  });
+
+  it('tells ん apart from な-row syllables', () => {
+    expect(romajiToHiragana('konnichiwa')).toBe('こんにちわ');
+    expect(romajiToHiragana('kanji')).toBe('かんじ');
+    expect(romajiToHiragana("kon'ya")).toBe('こんや');
+    expect(romajiToHiragana('konya')).toBe('こにゃ');
+    expect(romajiToHiragana('hon')).toBe('ほん');
+    expect(romajiToHiragana('honn')).toBe('ほん');
+  });
+
+  it('expands macrons and passes other scripts through', () => {
+    expect(romajiToHiragana('tōkyō')).toBe('とうきょう');
+    expect(romajiToHiragana('食betai')).toBe('食べたい');
+  });
+});
+
+describe('normalizeKana', () => {
+  it('folds katakana, romaji, width and punctuation into plain hiragana', () => {
+    expect(normalizeKana(' タベマス ')).toBe('たべます');
+    expect(normalizeKana('ＴＡＢＥＭＡＳＵ。')).toBe('たべます');
+  });
+});
+
+describe('readingFromPronunciation', () => {
+  it('takes the first kana run as hiragana', () => {
+    expect(readingFromPronunciation('たべる (taberu)')).toBe('たべる');
+    expect(readingFromPronunciation('コーヒー (kōhī)')).toBe('こーひー');
+    expect(readingFromPronunciation('taberu')).toBe('');
+  });
+});
+
+describe('katakanaToHiragana', () => {
+  it('leaves the long vowel mark and non-kana alone', () => {
+    expect(katakanaToHiragana('カタカナ・ー漢字')).toBe('かたかな・ー漢字');
+    expect(isKana('かたカナ')).toBe(true);
+    expect(isKana('仮名')).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Kana/romaji helpers so typed answers can be compared regardless of input method:
+ * "tabete", "たべて" and "タベテ" all normalize to the same hiragana.
+ */
+
+const ROMAJI: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  sa: 'さ', shi: 'し', si: 'し', su: 'す', se: 'せ', so: 'そ',
+  ta: 'た', chi: 'ち', ti: 'ち', tsu: 'つ', tu: 'つ', te: 'て', to: 'と',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', fu: 'ふ', hu: 'ふ', he: 'へ', ho: 'ほ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  wa: 'わ', wo: 'を', n: 'ん',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  za: 'ざ', ji: 'じ', zi: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+  sha: 'しゃ', shu: 'しゅ', sho: 'しょ', sya: 'しゃ', syu: 'しゅ', syo: 'しょ', she: 'しぇ',
+  cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ', che: 'ちぇ',
+  nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  ja: 'じゃ', ju: 'じゅ', jo: 'じょ', je: 'じぇ', jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ', zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ',
+  bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ',
+  '-': 'ー',
+};
+
+// Hepburn long vowels as typed with macrons or circumflexes
+const LONG_VOWELS: Record<string, string> = {
+  'ā': 'aa', 'ī': 'ii', 'ū': 'uu', 'ē': 'ei', 'ō': 'ou',
+  'â': 'aa', 'î': 'ii', 'û': 'uu', 'ê': 'ei', 'ô': 'ou',
+};
+
+const isVowel = (char: string) => 'aiueo'.includes(char);
+
+/**
+ * Converts romaji to hiragana. Anything that isn't romaji (kana, kanji) passes through,
+ * so mixed input like "食betai" still works.
+ */
+export const romajiToHiragana = (input: string): string => {
+  const text = input.toLowerCase().replace(/[āīūēōâîûêô]/g, char => LONG_VOWELS[char]);
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    // Doubled consonant -> small tsu (but "nn" is ん)
+    if (next === char && /[bcdfghjkmpqrstvwxyz]/.test(char) && char !== 'n') {
+      result += 'っ';
+      i++;
+      continue;
+    }
+    // "tch" as in "matcha"
+    if (char === 't' && text.startsWith('ch', i + 1)) {
+      result += 'っ';
+      i++;
+      continue;
+    }
+    // n before a consonant, apostrophe, or at the end is ん. "nn" is ん too, unless a
+    // vowel follows: Hepburn "konnichiwa" is こんにちわ, not こんいちわ
+    if (char === 'n' && (next === undefined || next === "'" || (!isVowel(next) && next !== 'y'))) {
+      const after = text[i + 2];
+      const swallow = next === "'" || (next === 'n' && !(after && (isVowel(after) || after === 'y')));
+      result += 'ん';
+      i += swallow ? 2 : 1;
+      continue;
+    }
+
+    let matched = false;
+    for (const length of [3, 2, 1]) {
+      const chunk = text.slice(i, i + length);
+      if (ROMAJI[chunk] && !(chunk === 'n' && next && (isVowel(next) || next === 'y'))) {
+        result += ROMAJI[chunk];
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+};
+
+export const katakanaToHiragana = (text: string) =>
+  text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+export const isKana = (text: string) => /^[぀-ゟ゠-ヿ]+$/.test(text);
+
+/**
+ * Normalizes a typed Japanese answer: width and case folded, katakana and romaji
+ * turned into hiragana, whitespace and punctuation dropped.
+ */
+export const normalizeKana = (input: string) =>
+  katakanaToHiragana(romajiToHiragana(input.normalize('NFKC').trim()))
+    .replace(/[\s\p{P}]+/gu, '');
+
+/**
+ * Pulls the kana reading out of a pronunciation string such as "たべる (taberu)".
+ */
+export const readingFromPronunciation = (pronunciation: string) =>
+  katakanaToHiragana(pronunciation.match(/[぀-ゟ゠-ヿ]+/)?.[0] ?? '');
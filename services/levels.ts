@@ -0,0 +1,66 @@
+import { HistoryItem, KanjiData, WordData, FrequencyBand } from "../types";
+import bundledLevels from "../data/levels.json";
+
+export type LevelScale = 'jlpt' | 'hsk' | 'cefr';
+
+export interface ResolvedLevel {
+  value: string;
+  source: 'list' | 'model';
+}
+
+export interface ResolvedLevels {
+  jlpt: ResolvedLevel | null;
+  hsk: ResolvedLevel | null;
+  cefr: ResolvedLevel | null;
+  frequency: FrequencyBand;
+}
+
+export const LEVEL_SCALES: { scale: LevelScale; label: string; levels: string[] }[] = [
+  { scale: 'jlpt', label: 'JLPT', levels: ['N5', 'N4', 'N3', 'N2', 'N1'] },
+  { scale: 'hsk', label: 'HSK', levels: ['1', '2', '3', '4', '5', '6', '7', '8', '9'] },
+  { scale: 'cefr', label: 'CEFR', levels: ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] },
+];
+
+const LISTS = bundledLevels as Record<LevelScale, Record<string, string>>;
+
+// The bundled lists key English by the bare word, so "to eat" finds "eat"
+const listKey = (scale: LevelScale, data: WordData): string => {
+  if (scale === 'jlpt') return data.coreWord.jp.trim();
+  if (scale === 'hsk') return data.coreWord.zh.trim();
+  return data.coreWord.en.trim().toLowerCase().replace(/^to\s+/, '');
+};
+
+const resolve = (scale: LevelScale, data: WordData): ResolvedLevel | null => {
+  const listed = LISTS[scale][listKey(scale, data)];
+  if (listed) return { value: listed, source: 'list' };
+  const estimated = data.levels?.[scale];
+  return estimated ? { value: estimated, source: 'model' } : null;
+};
+
+/**
+ * Levels for a word: the bundled offline lists win wherever they have an entry,
+ * and the model's estimate fills the gaps. The frequency band always comes from the model.
+ */
+export const wordLevels = (data: WordData): ResolvedLevels => ({
+  jlpt: resolve('jlpt', data),
+  hsk: resolve('hsk', data),
+  cefr: resolve('cefr', data),
+  frequency: data.levels?.frequency ?? '',
+});
+
+export const levelLabel = (scale: LevelScale, value: string) =>
+  scale === 'jlpt' ? `JLPT ${value}` : scale === 'hsk' ? `HSK ${value}` : `CEFR ${value}`;
+
+// Filter keys look like "jlpt:N5"
+export type LevelFilter = `${LevelScale}:${string}`;
+
+/**
+ * Whether a history entry is at the given level. Kanji entries carry their own JLPT
+ * level; sentences have none and never match.
+ */
+export const matchesLevel = (item: HistoryItem, filter: LevelFilter): boolean => {
+  const [scale, value] = filter.split(':') as [LevelScale, string];
+  if (item.type === 'kanji') return scale === 'jlpt' && (item.data as KanjiData).jlpt === value;
+  if (item.type !== 'word') return false;
+  return wordLevels(item.data as WordData)[scale]?.value === value;
+};
@@ -1,16 +1,36 @@
-import { WordData, SentenceData } from "../types";
+import { WordData, SentenceData, KanjiData } from "../types";
 
 export type SpeechLang = 'jp' | 'en' | 'zh';
 
+export interface RequestOptions {
+  // Skip any cached result and ask the backend again
+  refresh?: boolean;
+  // Aborting rejects the call with an AbortError (see isAbortError) and stops any work still in flight
+  signal?: AbortSignal;
+}
+
+export interface SpeechOptions extends RequestOptions {
+  voice?: string; // Prebuilt TTS voice name, defaults to DEFAULT_VOICES[lang]
+}
+
+export const DEFAULT_VOICES: Record<SpeechLang, string> = { jp: 'Kore', en: 'Fenrir', zh: 'Puck' };
+
+export interface AnalyzeOptions<T> extends RequestOptions {
+  // Called with a normalized snapshot each time more of a streamed response arrives
+  onPartial?: (partial: T) => void;
+}
+
 /**
  * Everything the UI needs from a language backend.
- * Implementations: GeminiService (live model) and FixtureService (recorded JSON, works offline).
+ * Implementations: GeminiService (live model) and FixtureService (recorded JSON, works offline),
+ * optionally wrapped by CachedLexiconProvider.
  */
 export interface LexiconProvider {
-  analyzeWord(query: string): Promise<WordData>;
-  analyzeSentence(sentence: string): Promise<SentenceData>;
+  analyzeWord(query: string, options?: AnalyzeOptions<WordData>): Promise<WordData>;
+  analyzeSentence(sentence: string, options?: AnalyzeOptions<SentenceData>): Promise<SentenceData>;
+  analyzeKanji(character: string, options?: AnalyzeOptions<KanjiData>): Promise<KanjiData>;
   // Returns a displayable URL (data: or http) or null when no image could be produced
-  generateImage(word: string): Promise<string | null>;
+  generateImage(word: string, options?: RequestOptions): Promise<string | null>;
   // Returns base64 encoded 16-bit PCM (24kHz, mono) or null when no audio is available
-  generateSpeech(text: string, lang: SpeechLang): Promise<string | null>;
+  generateSpeech(text: string, lang: SpeechLang, options?: SpeechOptions): Promise<string | null>;
 }
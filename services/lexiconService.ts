@@ -1,12 +1,16 @@
 import { LexiconProvider } from "./lexiconProvider";
-import { GeminiService } from "./geminiService";
+import { GeminiService, PROMPT_VERSION } from "./geminiService";
 import { FixtureService } from "./fixtureService";
+import { CachedLexiconProvider } from "./cachedProvider";
+import { LookupCache } from "./lookupCache";
 
 export type ProviderName = 'gemini' | 'fixture';
 
 /**
  * Picks the backend from the LEXICON_PROVIDER setting (see vite.config.ts).
- * Anything other than "fixture" falls back to the live Gemini service.
+ * Anything other than "fixture" falls back to the live Gemini service,
+ * which talks to Google directly or through our backend depending on GEMINI_MODE.
+ * Live results are cached in IndexedDB; fixtures are not, to keep them deterministic.
  */
 export const createLexiconProvider = (name: string | undefined = process.env.LEXICON_PROVIDER): LexiconProvider => {
   switch (name) {
@@ -14,7 +18,13 @@ export const createLexiconProvider = (name: string | undefined = process.env.LEX
       return new FixtureService();
     case 'gemini':
     default:
-      return new GeminiService();
+      return new CachedLexiconProvider(
+        new GeminiService({
+          mode: process.env.GEMINI_MODE === 'proxy' ? 'proxy' : 'direct',
+          proxyUrl: process.env.API_PROXY_URL,
+        }),
+        new LookupCache(PROMPT_VERSION)
+      );
   }
 };
 
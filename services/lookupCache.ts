@@ -0,0 +1,138 @@
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+const DB_NAME = 'trilingua_cache';
+const STORE = 'lookups';
+
+export type CacheKind = 'dictionary' | 'sentence' | 'kanji' | 'image' | 'speech';
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  createdAt: number;
+  lastAccess: number;
+  size: number; // Approximate bytes, used for the size budget
+}
+
+export interface LookupCacheOptions {
+  ttlMs?: number;
+  maxBytes?: number;
+}
+
+// Cache keys keep case: "Polish" and "polish" or "US" and "us" are different lookups,
+// and a speech clip has to say exactly the text it was made for
+const cacheQuery = (query: string) => query.normalize('NFKC').trim();
+
+/**
+ * IndexedDB-backed store for model results (word/sentence analyses, images and TTS audio).
+ * Entries expire after `ttlMs` and the least recently used ones are evicted once the
+ * store grows past `maxBytes`. Every operation degrades to a cache miss on failure,
+ * so a broken or unavailable IndexedDB never blocks a lookup.
+ */
+export class LookupCache {
+  private db: Promise<IDBDatabase> | null = null;
+  private ttlMs: number;
+  private maxBytes: number;
+
+  constructor(private version: number, options: LookupCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, 1, (db) => {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      });
+      // Allow a later retry if opening failed (e.g. blocked by another tab)
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+
+  // The prompt version is part of the key so prompt changes never serve stale shapes
+  key(kind: CacheKind, query: string): string {
+    return `${kind}:v${this.version}:${cacheQuery(query)}`;
+  }
+
+  async get<T>(kind: CacheKind, query: string): Promise<T | undefined> {
+    try {
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      const entry = await requestToPromise(store.get(this.key(kind, query))) as CacheEntry<T> | undefined;
+      if (!entry) return undefined;
+
+      const now = Date.now();
+      if (now - entry.createdAt > this.ttlMs) {
+        store.delete(entry.key);
+        await transactionDone(tx);
+        return undefined;
+      }
+
+      store.put({ ...entry, lastAccess: now });
+      await transactionDone(tx);
+      return entry.value;
+    } catch (e) {
+      console.warn("Lookup cache read failed:", e);
+      return undefined;
+    }
+  }
+
+  async set<T>(kind: CacheKind, query: string, value: T): Promise<void> {
+    try {
+      const db = await this.open();
+      const now = Date.now();
+      const entry: CacheEntry<T> = {
+        key: this.key(kind, query),
+        value,
+        createdAt: now,
+        lastAccess: now,
+        size: JSON.stringify(value).length * 2, // UTF-16 estimate
+      };
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(entry);
+      await transactionDone(tx);
+      await this.evict();
+    } catch (e) {
+      console.warn("Lookup cache write failed:", e);
+    }
+  }
+
+  async delete(kind: CacheKind, query: string): Promise<void> {
+    try {
+      const db = await this.open();
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).delete(this.key(kind, query));
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn("Lookup cache delete failed:", e);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+
+  // Drops expired entries, then least recently used ones until under the size budget
+  private async evict(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const index = tx.objectStore(STORE).index('lastAccess');
+    const entries = await requestToPromise(index.getAll()) as CacheEntry[];
+
+    const now = Date.now();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    // Sorted oldest access first by the index
+    for (const entry of entries) {
+      const expired = now - entry.createdAt > this.ttlMs;
+      if (!expired && total <= this.maxBytes) continue;
+      tx.objectStore(STORE).delete(entry.key);
+      total -= entry.size;
+    }
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,27 @@
+import { WordBreakdown } from "../types";
+
+export interface MiniDefinition {
+  headword: string;
+  reading: string;
+  jp: string;
+  en: string;
+  zh: string;
+}
+
+const firstSentence = (text: string) => text.split(/(?<=[.。!！?？;；])\s*/)[0] ?? '';
+
+/**
+ * Short definition for hover popovers, built from what the sentence analysis already
+ * says about the token. Hovering never calls the model; the full entry is only looked
+ * up when the token is clicked.
+ */
+export const miniDefinition = (item: WordBreakdown): MiniDefinition => {
+  const meaning = typeof item.meaning === 'string' ? { jp: '', en: item.meaning, zh: '' } : item.meaning;
+  return {
+    headword: item.word,
+    reading: item.reading ?? '',
+    jp: firstSentence(meaning.jp),
+    en: firstSentence(meaning.en),
+    zh: firstSentence(meaning.zh),
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * Parses a JSON document that is still being streamed, e.g. `{"coreWord": {"jp": "食べ`.
+ * Open strings, arrays and objects are closed; if the tail is an unfinished key or
+ * literal, the text is cut back to the last complete value. Returns undefined when
+ * nothing useful can be recovered yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const source = text.trimStart().replace(/^```(?:json)?\s*/i, '');
+  if (!source) return undefined;
+
+  try {
+    return JSON.parse(source);
+  } catch {
+    // Still incomplete, repair below
+  }
+
+  const stack: string[] = [];
+  // Positions where the prefix can be cut and closed with the recorded closers
+  const cutPoints: { index: number; closers: string }[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      cutPoints.push({ index: i + 1, closers: [...stack].reverse().join('') });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      cutPoints.push({ index: i + 1, closers: [...stack].reverse().join('') });
+    } else if (char === ',') {
+      cutPoints.push({ index: i, closers: [...stack].reverse().join('') });
+    }
+  }
+
+  // A dangling backslash would escape our closing quote, so drop it
+  const body = inString && escaped ? source.slice(0, -1) : source;
+  const candidates = [
+    body + (inString ? '"' : '') + [...stack].reverse().join(''),
+    ...cutPoints.reverse().map(point => source.slice(0, point.index) + point.closers),
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, shorter candidate
+    }
+  }
+  return undefined;
+};
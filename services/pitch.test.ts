@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PitchAccent } from '../types';
+import { accentType, describeAccent, dictionaryAccents, morae, pitchLevels, wordPitchAccents } from './pitch';
+import { wordData } from './testFixtures';
+
+const word = (jp: string, pitchAccent?: PitchAccent[]) => wordData(jp, '', '', { pitchAccent });
+
+describe('morae', () => {
+  it('joins small kana to the mora before them', () => {
+    expect(morae('きょう')).toEqual(['きょ', 'う']);
+    expect(morae('がっこう')).toEqual(['が', 'っ', 'こ', 'う']);
+    expect(morae('コーヒー')).toEqual(['コ', 'ー', 'ヒ', 'ー']);
+    expect(morae('ゃあ')).toEqual(['ゃ', 'あ']);
+  });
+});
+
+describe('accentType', () => {
+  it('names the pattern from the downstep and length', () => {
+    expect(accentType(0, 2)).toBe('heiban');
+    expect(accentType(1, 2)).toBe('atamadaka');
+    expect(accentType(2, 3)).toBe('nakadaka');
+    expect(accentType(2, 2)).toBe('odaka');
+  });
+});
+
+describe('pitchLevels', () => {
+  it('follows the Tokyo rules, with the particle telling heiban from odaka', () => {
+    expect(pitchLevels(0, 2)).toEqual({ morae: [false, true], particle: true });
+    expect(pitchLevels(2, 2)).toEqual({ morae: [false, true], particle: false });
+    expect(pitchLevels(1, 3)).toEqual({ morae: [true, false, false], particle: false });
+    expect(pitchLevels(2, 3)).toEqual({ morae: [false, true, false], particle: false });
+  });
+});
+
+describe('dictionaryAccents', () => {
+  it('looks up the bundled patterns, narrowed to a reading', () => {
+    expect(dictionaryAccents('箸')).toEqual([{ reading: 'はし', downstep: 1 }]);
+    expect(dictionaryAccents(' 昨日 ', 'キノウ')).toEqual([{ reading: 'きのう', downstep: 2 }, { reading: 'きのう', downstep: 0 }]);
+  });
+
+  it('ignores a reading the dictionary lacks and returns null for unlisted words', () => {
+    expect(dictionaryAccents('箸', 'ばし')).toEqual([{ reading: 'はし', downstep: 1 }]);
+    expect(dictionaryAccents('未登録語')).toBeNull();
+  });
+});
+
+describe('wordPitchAccents', () => {
+  it('prefers the dictionary and keeps a disagreeing model answer as disputed', () => {
+    expect(wordPitchAccents(word('橋', [{ reading: 'はし', downstep: 2 }]))).toEqual({
+      accents: [{ reading: 'はし', downstep: 2 }], source: 'dictionary', disputed: undefined,
+    });
+    expect(wordPitchAccents(word('橋', [{ reading: 'はし', downstep: 1 }]))).toMatchObject({
+      source: 'dictionary', disputed: [{ reading: 'はし', downstep: 1 }],
+    });
+  });
+
+  it("falls back to the model's patterns, or null when there are none", () => {
+    const model = [{ reading: 'みとうろくご', downstep: 0 }];
+    expect(wordPitchAccents(word('未登録語', model))).toEqual({ accents: model, source: 'model' });
+    expect(wordPitchAccents(word('未登録語'))).toBeNull();
+  });
+});
+
+describe('describeAccent', () => {
+  it('labels the pattern with its downstep', () => {
+    expect(describeAccent({ reading: 'きょう', downstep: 1 })).toBe('Atamadaka 頭高 [1]');
+    expect(describeAccent({ reading: 'にほん', downstep: 2 })).toBe('Nakadaka 中高 [2]');
+  });
+});
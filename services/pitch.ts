@@ -0,0 +1,81 @@
+import { PitchAccent, WordData } from "../types";
+import { katakanaToHiragana } from "./kana";
+import bundledAccents from "../data/accents.json";
+
+export type PitchAccentType = 'heiban' | 'atamadaka' | 'nakadaka' | 'odaka';
+
+export const ACCENT_LABELS: Record<PitchAccentType, string> = {
+  heiban: 'Heiban 平板',
+  atamadaka: 'Atamadaka 頭高',
+  nakadaka: 'Nakadaka 中高',
+  odaka: 'Odaka 尾高',
+};
+
+export interface ResolvedAccents {
+  accents: PitchAccent[];
+  source: 'dictionary' | 'model';
+  // The model's patterns when the bundled dictionary disagrees with them
+  disputed?: PitchAccent[];
+}
+
+// Headword -> hiragana reading -> downstep positions
+const DICTIONARY = bundledAccents as Record<string, Record<string, number[]>>;
+
+// Small kana belong to the mora before them: きょ is one mora, っ and ー are one each
+const SMALL_KANA = /^[ゃゅょぁぃぅぇぉゎャュョァィゥェォヮ]$/;
+
+export const morae = (reading: string): string[] => {
+  const result: string[] = [];
+  for (const char of reading) {
+    if (SMALL_KANA.test(char) && result.length) result[result.length - 1] += char;
+    else result.push(char);
+  }
+  return result;
+};
+
+export const accentType = (downstep: number, moraCount: number): PitchAccentType =>
+  downstep === 0 ? 'heiban' : downstep === 1 ? 'atamadaka' : downstep >= moraCount ? 'odaka' : 'nakadaka';
+
+/**
+ * High (true) or low pitch for each mora, plus for the particle that follows, which is
+ * where heiban and odaka differ. Standard Tokyo rules: the first mora is low unless the
+ * accent is on it, and everything after the downstep is low.
+ */
+export const pitchLevels = (downstep: number, moraCount: number): { morae: boolean[]; particle: boolean } => ({
+  morae: Array.from({ length: moraCount }, (_, i) =>
+    downstep === 1 ? i === 0 : i > 0 && (downstep === 0 || i < downstep)),
+  particle: downstep === 0,
+});
+
+const sameAccent = (a: PitchAccent, b: PitchAccent) => a.reading === b.reading && a.downstep === b.downstep;
+
+/**
+ * Patterns for a headword from the bundled dictionary, narrowed to `reading` when the
+ * headword has several. Null when the word isn't listed.
+ */
+export const dictionaryAccents = (word: string, reading = ''): PitchAccent[] | null => {
+  const entry = DICTIONARY[word.trim()];
+  if (!entry) return null;
+  const wanted = katakanaToHiragana(reading);
+  const readings = Object.keys(entry).filter(r => !wanted || r === wanted);
+  const accents = (readings.length ? readings : Object.keys(entry))
+    .flatMap(r => entry[r].map(downstep => ({ reading: r, downstep })));
+  return accents.length ? accents : null;
+};
+
+/**
+ * Pitch accent for a word entry: the bundled dictionary wins wherever it lists the word
+ * (keeping the model's answer as `disputed` if it differs), the model fills the gaps.
+ */
+export const wordPitchAccents = (data: WordData): ResolvedAccents | null => {
+  const model = data.pitchAccent ?? [];
+  const listed = data.coreWord.jp ? dictionaryAccents(data.coreWord.jp, model[0]?.reading) : null;
+  if (listed) {
+    const agrees = model.every(accent => listed.some(l => sameAccent(l, accent)));
+    return { accents: listed, source: 'dictionary', disputed: agrees ? undefined : model };
+  }
+  return model.length ? { accents: model, source: 'model' } : null;
+};
+
+export const describeAccent = ({ reading, downstep }: PitchAccent) =>
+  `${ACCENT_LABELS[accentType(downstep, morae(reading).length)]} [${downstep}]`;
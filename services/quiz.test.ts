@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BLANK, BlankQuestion, ChoiceQuestion, generateQuiz, loadQuizScores, normalizeAnswer, quizWords } from './quiz';
+import { entry, history as historyOf, wordData } from './testFixtures';
+
+const basics = [
+  wordData('犬', 'dog', '狗'),
+  wordData('猫', 'cat', '猫'),
+  wordData('鳥', 'bird', '鸟'),
+  wordData('魚', 'fish', '鱼'),
+  wordData('馬', 'horse', '马'),
+];
+
+describe('quizWords', () => {
+  it('keeps one word per card, taking the newest lookup', () => {
+    const newer = wordData('犬', 'dog', '狗', { etymology: 'newer' });
+    const words = quizWords(historyOf(newer, wordData('犬', 'dog', '狗')));
+    expect(words).toHaveLength(1);
+    expect(words[0].data.etymology).toBe('newer');
+  });
+
+  it('keeps homographs with different meanings apart', () => {
+    expect(quizWords(historyOf(wordData('本', 'book', '书'), wordData('本', 'counter for long objects', '根')))).toHaveLength(2);
+  });
+
+  it('skips sentences and kanji', () => {
+    const sentence = entry(basics[0], 1, { type: 'sentence' });
+    expect(quizWords([sentence])).toEqual([]);
+  });
+});
+
+describe('generateQuiz', () => {
+  const history = historyOf(...basics);
+
+  it('returns nothing without kinds or directions', () => {
+    expect(generateQuiz(history, { kinds: [], directions: [['jp', 'en']], count: 5 })).toEqual([]);
+    expect(generateQuiz(history, { kinds: ['choice'], directions: [], count: 5 })).toEqual([]);
+  });
+
+  it('builds choice questions with the answer among distinct options', () => {
+    const questions = generateQuiz(history, { kinds: ['choice'], directions: [['jp', 'en']], count: 5 }) as ChoiceQuestion[];
+    expect(questions.length).toBeGreaterThan(0);
+    for (const question of questions) {
+      expect(question.options).toHaveLength(4);
+      expect(new Set(question.options).size).toBe(4);
+      const word = basics.find(data => data.coreWord.jp === question.prompt || data.definitions.jp === question.prompt);
+      if (question.source === 'word') expect(question.options[question.answer]).toBe(word!.coreWord.en);
+    }
+  });
+
+  it('never asks the same question twice', () => {
+    const questions = generateQuiz(history, { kinds: ['choice'], directions: [['jp', 'en']], count: 50 }) as ChoiceQuestion[];
+    const keys = questions.map(q => `${q.wordId}:${q.source}:${q.from}:${q.to}`);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('needs enough words for the distractors', () => {
+    expect(generateQuiz(history.slice(0, 3), { kinds: ['choice'], directions: [['jp', 'en']], count: 5 })).toEqual([]);
+  });
+
+  it('never shows a blank prompt for synonym questions', () => {
+    const englishOnly = historyOf(...basics.map(data => ({ ...data, coreWord: { ...data.coreWord, jp: '' }, related: { synonyms: ['a', 'b'], antonyms: [] } })));
+    const questions = generateQuiz(englishOnly, { kinds: ['choice'], directions: [['jp', 'en']], count: 20 }) as ChoiceQuestion[];
+    expect(questions.every(question => question.prompt)).toBe(true);
+  });
+
+  it('asks for related words only in the answer language, among headwords in that language', () => {
+    const words = basics.map(data => data.coreWord.en === 'dog'
+      ? { ...data, related: { synonyms: ['hound', 'わんこ', '犬子'], antonyms: [] } }
+      : data);
+    const enToZh = generateQuiz(historyOf(...words), { kinds: ['choice'], directions: [['en', 'zh']], count: 50 }) as ChoiceQuestion[];
+    const zhSynonym = enToZh.find(question => question.source === 'synonym');
+    expect(zhSynonym).toMatchObject({ prompt: 'dog', from: 'en', to: 'zh' });
+    expect(zhSynonym!.options[zhSynonym!.answer]).toBe('犬子');
+    expect(zhSynonym!.options.filter(option => option !== '犬子').every(option => basics.some(data => data.coreWord.zh === option))).toBe(true);
+
+    const jpToEn = generateQuiz(historyOf(...words), { kinds: ['choice'], directions: [['jp', 'en']], count: 50 }) as ChoiceQuestion[];
+    const enSynonym = jpToEn.find(question => question.source === 'synonym');
+    expect(enSynonym).toMatchObject({ prompt: '犬', from: 'jp', to: 'en' });
+    expect(enSynonym!.options[enSynonym!.answer]).toBe('hound');
+  });
+
+  it('skips related words in another language than the answer', () => {
+    const words = basics.map(data => ({ ...data, related: { synonyms: ['synonym'], antonyms: ['antonym'] } }));
+    const questions = generateQuiz(historyOf(...words), { kinds: ['choice'], directions: [['en', 'jp']], count: 50 }) as ChoiceQuestion[];
+    expect(questions.some(question => question.source === 'synonym' || question.source === 'antonym')).toBe(false);
+  });
+
+  it('asks each word more than one kind of question', () => {
+    const words = basics.slice(0, 4).map(data => ({
+      ...data,
+      examples: [{ text: `A ${data.coreWord.en} is here.`, translation: '', lang: 'en' as const }],
+    }));
+    const questions = generateQuiz(historyOf(...words), { kinds: ['choice', 'blank'], directions: [['jp', 'en']], count: 8 });
+    for (const word of quizWords(historyOf(...words))) {
+      expect(new Set(questions.filter(q => 'wordId' in q && q.wordId === word.id).map(q => q.kind))).toEqual(new Set(['choice', 'blank']));
+    }
+  });
+
+  it('builds matching questions from four words', () => {
+    const [question] = generateQuiz(history, { kinds: ['matching'], directions: [['jp', 'zh']], count: 1 });
+    expect(question.kind).toBe('matching');
+    if (question.kind !== 'matching') return;
+    expect(question.pairs).toHaveLength(4);
+    expect([...question.rightOrder].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('blanks every occurrence of the word in an example', () => {
+    const data = wordData('犬', 'dog', '狗', {
+      examples: [{ text: 'The dog saw another dog.', translation: '狗看到了另一只狗。', lang: 'en' }],
+    });
+    const [question] = generateQuiz(historyOf(data), { kinds: ['blank'], directions: [['jp', 'en']], count: 1 }) as BlankQuestion[];
+    expect(question.sentence).toBe(`The ${BLANK} saw another ${BLANK}.`);
+    expect(question.answer).toBe('dog');
+  });
+
+  it('matches whole English words only', () => {
+    const data = wordData('猫', 'cat', '猫', {
+      examples: [{ text: 'The category is wrong.', translation: '', lang: 'en' }],
+    });
+    expect(generateQuiz(historyOf(data), { kinds: ['blank'], directions: [['jp', 'en']], count: 1 })).toEqual([]);
+  });
+
+  it('blanks inflected Japanese forms, longest first', () => {
+    const data = wordData('食べる', 'eat', '吃', {
+      inflections: [{ partOfSpeech: 'Ichidan verb', forms: [{ label: 'Past', value: '食べた (tabeta)' }] }],
+      examples: [{ text: '昨日すしを食べた。', translation: 'I ate sushi yesterday.', lang: 'jp' }],
+    });
+    const [question] = generateQuiz(historyOf(data), { kinds: ['blank'], directions: [['jp', 'en']], count: 1 }) as BlankQuestion[];
+    expect(question.sentence).toBe(`昨日すしを${BLANK}。`);
+    expect(question.answer).toBe('食べた');
+  });
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores width, case, whitespace and punctuation', () => {
+    expect(normalizeAnswer(' Ｄｏｇ! ')).toBe(normalizeAnswer('dog'));
+    expect(normalizeAnswer('食べた。')).toBe('食べた');
+  });
+});
+
+describe('loadQuizScores', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('drops stored scores with missing or invalid fields', () => {
+    const score = { label: '犬', attempts: 2, correct: 1, byKind: { choice: { attempts: 2, correct: 1 } }, lastAttemptAt: 5, lastCorrect: true };
+    const saved = { dog: score, cat: { ...score, attempts: -1 }, bird: { ...score, byKind: undefined } };
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(saved) });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadQuizScores()).toEqual({ dog: score });
+  });
+});
@@ -0,0 +1,274 @@
+import { HistoryItem, WordData } from "../types";
+import { cardId } from "./srs";
+import { surfaceOf } from "./conjugator";
+import { isCount, isRecord, validTable } from "./validation";
+
+const SCORES_KEY = 'trilingua_quiz_scores';
+
+export type QuizLang = 'jp' | 'en' | 'zh';
+export type QuizKind = 'choice' | 'matching' | 'blank';
+
+export const QUIZ_LANGS: QuizLang[] = ['jp', 'en', 'zh'];
+export const LANG_LABELS: Record<QuizLang, string> = { jp: 'Japanese', en: 'English', zh: 'Chinese' };
+
+// Every ordered pair of languages, e.g. jp→zh and zh→jp
+export const QUIZ_DIRECTIONS: [QuizLang, QuizLang][] = QUIZ_LANGS.flatMap(from =>
+  QUIZ_LANGS.filter(to => to !== from).map(to => [from, to] as [QuizLang, QuizLang]));
+
+export interface QuizWord {
+  id: string; // Same key as review cards
+  label: string;
+  data: WordData;
+}
+
+export interface ChoiceQuestion {
+  kind: 'choice';
+  // What the prompt shows: the headword, its definition, or a "synonym of"/"antonym of" cue
+  source: 'word' | 'definition' | 'synonym' | 'antonym';
+  wordId: string;
+  prompt: string;
+  from: QuizLang;
+  to: QuizLang;
+  options: string[];
+  answer: number;
+}
+
+export interface MatchingQuestion {
+  kind: 'matching';
+  from: QuizLang;
+  to: QuizLang;
+  pairs: { wordId: string; left: string; right: string }[];
+  rightOrder: number[]; // Shuffled indexes into `pairs` for the right column
+}
+
+export interface BlankQuestion {
+  kind: 'blank';
+  wordId: string;
+  lang: 'jp' | 'en';
+  sentence: string; // Example sentence with the target replaced by BLANK
+  hint: string; // Translation of the sentence
+  answer: string;
+}
+
+export type QuizQuestion = ChoiceQuestion | MatchingQuestion | BlankQuestion;
+
+export interface QuizOptions {
+  kinds: QuizKind[];
+  directions: [QuizLang, QuizLang][];
+  count: number;
+}
+
+export const BLANK = '＿＿＿';
+const CHOICES = 4;
+const MATCHING_PAIRS = 4;
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Word entries from history, one per word (latest lookup wins).
+ */
+export const quizWords = (history: HistoryItem[]): QuizWord[] => {
+  const words = new Map<string, QuizWord>();
+  for (const item of history) {
+    if (item.type !== 'word') continue;
+    const data = item.data as WordData;
+    const id = cardId(data);
+    if (id && !words.has(id)) words.set(id, { id, label: data.coreWord.jp || data.coreWord.en, data });
+  }
+  return [...words.values()];
+};
+
+// The answer shuffled in with CHOICES - 1 distinct distractors; null if the pool is too small
+const buildOptions = (answer: string, pool: string[]): { options: string[]; answer: number } | null => {
+  const distractors = shuffle([...new Set(pool)].filter(option => option && option !== answer)).slice(0, CHOICES - 1);
+  if (distractors.length < CHOICES - 1) return null;
+  const options = shuffle([answer, ...distractors]);
+  return { options, answer: options.indexOf(answer) };
+};
+
+// Related words come back in whatever language the model chose; kanji-only words
+// could be Japanese or Chinese and are taken for either
+const isInLang = (text: string, lang: QuizLang) =>
+  lang === 'en' ? /^[\p{Script=Latin}\s'-]+$/u.test(text)
+    : lang === 'zh' ? /\p{Script=Han}/u.test(text) && !/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)
+    : /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text);
+
+const choiceQuestion = (word: QuizWord, words: QuizWord[], [from, to]: [QuizLang, QuizLang]): ChoiceQuestion | null => {
+  const others = words.filter(other => other.id !== word.id);
+  const related = word.data.related;
+  // Only related words in the answer language can be asked for, or the answer would stand out
+  const synonyms = related.synonyms.filter(w => isInLang(w, to));
+  const antonyms = related.antonyms.filter(w => isInLang(w, to));
+  const sources: ChoiceQuestion['source'][] = ['word', 'definition'];
+  if (synonyms.length) sources.push('synonym');
+  if (antonyms.length) sources.push('antonym');
+  const source = pick(sources);
+
+  if (source === 'synonym' || source === 'antonym') {
+    const prompt = word.data.coreWord[from];
+    if (!prompt) return null;
+    const excluded = new Set([...related.synonyms, ...related.antonyms, word.data.coreWord[to]]);
+    const pool = others.map(other => other.data.coreWord[to]).filter(w => !excluded.has(w));
+    const built = buildOptions(pick(source === 'synonym' ? synonyms : antonyms), pool);
+    return built && { kind: 'choice', source, wordId: word.id, prompt, from, to, ...built };
+  }
+
+  const prompt = source === 'word' ? word.data.coreWord[from] : word.data.definitions[from];
+  const answer = word.data.coreWord[to];
+  if (!prompt || !answer) return null;
+  const built = buildOptions(answer, others.map(other => other.data.coreWord[to]));
+  return built && { kind: 'choice', source, wordId: word.id, prompt, from, to, ...built };
+};
+
+const matchingQuestion = (words: QuizWord[], [from, to]: [QuizLang, QuizLang]): MatchingQuestion | null => {
+  const pairs = shuffle(words)
+    .filter(word => word.data.coreWord[from] && word.data.coreWord[to])
+    .slice(0, MATCHING_PAIRS)
+    .map(word => ({ wordId: word.id, left: word.data.coreWord[from], right: word.data.coreWord[to] }));
+  if (pairs.length < 3) return null;
+  return { kind: 'matching', from, to, pairs, rightOrder: shuffle(pairs.map((_, i) => i)) };
+};
+
+// Surface forms the target may take inside an example: the headword and its inflections
+const surfaceForms = (data: WordData, lang: 'jp' | 'en'): string[] => {
+  const base = lang === 'jp' ? data.coreWord.jp : data.coreWord.en.replace(/^to\s+/i, '');
+  const forms = (data.inflections ?? []).flatMap(group => group.forms.map(form => surfaceOf(form.value)));
+  const isJapanese = (text: string) => /[\u3040-\u30ff\u4e00-\u9fff]/.test(text);
+  return [base, ...forms]
+    .filter(form => form && (lang === 'jp') === isJapanese(form))
+    .sort((a, b) => b.length - a.length); // Longest first, so 食べなかった wins over 食べ
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const blankQuestion = (word: QuizWord): BlankQuestion | null => {
+  for (const example of shuffle(word.data.examples)) {
+    for (const form of surfaceForms(word.data, example.lang)) {
+      // Japanese has no word boundaries to anchor on. Global, so a second occurrence is blanked too.
+      const pattern = example.lang === 'jp'
+        ? new RegExp(escapeRegExp(form), 'g')
+        : new RegExp(`\\b${escapeRegExp(form)}\\b`, 'gi');
+      const match = example.text.match(pattern);
+      if (!match) continue;
+      return {
+        kind: 'blank',
+        wordId: word.id,
+        lang: example.lang,
+        sentence: example.text.replace(pattern, BLANK),
+        hint: example.translation,
+        answer: match[0],
+      };
+    }
+  }
+  return null;
+};
+
+/**
+ * Builds up to `count` questions, cycling through the requested kinds and directions.
+ * Words without usable material for a kind (e.g. no example containing the word)
+ * are skipped for that kind.
+ */
+export const generateQuiz = (history: HistoryItem[], options: QuizOptions): QuizQuestion[] => {
+  const words = quizWords(history);
+  const questions: QuizQuestion[] = [];
+  if (!options.kinds.length || !options.directions.length) return questions;
+
+  const queue = shuffle(words);
+  const seen = new Set<string>();
+  let attempts = 0;
+  // Bounded so sparse histories can't loop forever
+  while (questions.length < options.count && attempts < options.count * 10 && queue.length) {
+    // Each pass over the queue shifts the kinds by one, so every word gets every kind
+    const index = attempts % queue.length;
+    const pass = Math.floor(attempts / queue.length);
+    const kind = options.kinds[(index + pass) % options.kinds.length];
+    const direction = pick(options.directions);
+    const word = queue[index];
+    attempts++;
+
+    const question = kind === 'choice' ? choiceQuestion(word, words, direction)
+      : kind === 'matching' ? matchingQuestion(words, direction)
+      : blankQuestion(word);
+    if (!question) continue;
+
+    // Small histories run out of material quickly; don't ask the same thing twice
+    const key = question.kind === 'choice' ? `${question.wordId}:${question.source}:${question.from}:${question.to}`
+      : question.kind === 'matching' ? `${question.from}:${question.to}:${question.pairs.map(p => p.wordId).sort().join()}`
+      : `${question.wordId}:${question.sentence}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    questions.push(question);
+  }
+  return questions;
+};
+
+/**
+ * Forgiving comparison for typed answers: width, case, whitespace and punctuation don't matter.
+ */
+export const normalizeAnswer = (text: string) =>
+  text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}]+/gu, '');
+
+export interface WordScore {
+  label: string;
+  attempts: number;
+  correct: number;
+  byKind: Partial<Record<QuizKind, { attempts: number; correct: number }>>;
+  lastAttemptAt: number;
+  lastCorrect: boolean;
+}
+
+export const isWordScore = (s: Record<string, unknown>) =>
+  typeof s.label === 'string' && isCount(s.attempts) && isCount(s.correct) && isCount(s.lastAttemptAt) && isRecord(s.byKind);
+
+export const loadQuizScores = (): Record<string, WordScore> => {
+  try {
+    const rejected: string[] = [];
+    const scores = validTable<WordScore>(JSON.parse(localStorage.getItem(SCORES_KEY) || '{}'), 'Quiz score', isWordScore, rejected);
+    if (rejected.length) console.warn("Dropping invalid quiz scores:", rejected);
+    return scores;
+  } catch (e) {
+    console.warn("Failed to read quiz scores, starting fresh", e);
+  }
+  return {};
+};
+
+/**
+ * Records one answer for one word and returns the updated score table.
+ */
+export const recordQuizAnswer = (wordId: string, label: string, kind: QuizKind, correct: boolean): Record<string, WordScore> => {
+  const scores = loadQuizScores();
+  const previous = scores[wordId];
+  const kindScore = previous?.byKind[kind] ?? { attempts: 0, correct: 0 };
+  scores[wordId] = {
+    label,
+    attempts: (previous?.attempts ?? 0) + 1,
+    correct: (previous?.correct ?? 0) + (correct ? 1 : 0),
+    byKind: {
+      ...previous?.byKind,
+      [kind]: { attempts: kindScore.attempts + 1, correct: kindScore.correct + (correct ? 1 : 0) },
+    },
+    lastAttemptAt: Date.now(),
+    lastCorrect: correct,
+  };
+  saveQuizScores(scores);
+  return scores;
+};
+
+export const saveQuizScores = (scores: Record<string, WordScore>) => {
+  try {
+    localStorage.setItem(SCORES_KEY, JSON.stringify(scores));
+  } catch (e) {
+    console.warn("Failed to save quiz scores:", e);
+  }
+};
+
+export const clearQuizScores = () => localStorage.removeItem(SCORES_KEY);
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { WordBreakdown } from '../types';
+import { alignTokens, isFunctionWord, knownWordSet, loadKnownWords, toggleKnownWord, wordKey } from './reader';
+import { history, wordData } from './testFixtures';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); },
+});
+
+const token = (word: string, partOfSpeech = 'noun'): WordBreakdown => ({ word, partOfSpeech, meaning: '' });
+
+describe('alignTokens', () => {
+  it('covers the sentence exactly, keeping text between tokens', () => {
+    const [cat, ga, sleeps] = [token('猫'), token('が', 'particle'), token('寝る', 'verb')];
+    expect(alignTokens('「猫」が寝る。', [cat, ga, sleeps])).toEqual([
+      { text: '「' }, { text: '猫', token: cat }, { text: '」' }, { text: 'が', token: ga }, { text: '寝る', token: sleeps }, { text: '。' },
+    ]);
+  });
+
+  it("drops tokens the model normalized and can't be found", () => {
+    const segments = alignTokens('食べました', [token('食べる'), token('ました')]);
+    expect(segments.map(segment => segment.text).join('')).toBe('食べました');
+    expect(segments.filter(segment => segment.token).map(segment => segment.text)).toEqual(['ました']);
+  });
+
+  it('treats a match far past the last token as a false hit', () => {
+    const sentence = `犬${'あ'.repeat(20)}犬`;
+    const segments = alignTokens(sentence, [token('猫'), token('犬'), token('犬')]);
+    expect(segments.filter(segment => segment.token)).toHaveLength(1);
+    expect(segments.map(segment => segment.text).join('')).toBe(sentence);
+  });
+});
+
+describe('known words', () => {
+  beforeEach(() => storage.clear());
+
+  it('toggles a word by its normalized key', () => {
+    expect(toggleKnownWord(' Ｄｏｇ ')).toEqual(['dog']);
+    expect(loadKnownWords()).toEqual(['dog']);
+    expect(toggleKnownWord('dog')).toEqual([]);
+  });
+
+  it('ignores stored values that are not a list of words', () => {
+    storage.set('trilingua_known_words', JSON.stringify(['dog', 3, null]));
+    expect(loadKnownWords()).toEqual(['dog']);
+    storage.set('trilingua_known_words', '{');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadKnownWords()).toEqual([]);
+  });
+});
+
+describe('knownWordSet', () => {
+  it('knows marked words and the headwords of history in all three languages', () => {
+    const known = knownWordSet(history(wordData('犬', 'Dog', '狗')), ['Cat']);
+    expect([...known].sort()).toEqual(['cat', 'dog', '犬', '狗'].sort());
+  });
+
+  it('knows every conjugated form of a Japanese verb in history', () => {
+    const drink = wordData('飲む', 'drink', '喝', {
+      pronunciation: { jp: 'のむ (nomu)', en: '', zh: '' },
+      inflections: [{ partOfSpeech: 'Godan verb', forms: [{ label: 'Past', value: '飲んだ (nonda)' }] }],
+    });
+    const known = knownWordSet(history(drink), []);
+    expect(known.has(wordKey('飲んだ'))).toBe(true);
+    expect(known.has(wordKey('飲みました'))).toBe(true);
+    expect(known.has(wordKey('飲まない'))).toBe(true);
+  });
+});
+
+describe('isFunctionWord', () => {
+  it('recognizes particles and auxiliaries in any of the three languages', () => {
+    expect(isFunctionWord(token('が', 'Particle'))).toBe(true);
+    expect(isFunctionWord(token('ます', '助動詞'))).toBe(true);
+    expect(isFunctionWord(token('的', '助词'))).toBe(true);
+    expect(isFunctionWord(token('猫'))).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { HistoryItem, WordBreakdown } from "../types";
+import { quizWords } from "./quiz";
+import { readingFromPronunciation } from "./kana";
+import { FORM_LABELS, FormKey, conjugate, conjugationClass, surfaceOf } from "./conjugator";
+
+const KNOWN_KEY = 'trilingua_known_words';
+
+// Unmatched text allowed between two tokens before a match is treated as a false hit further on
+const MAX_GAP = 12;
+
+export interface ReaderSegment {
+  text: string;
+  token?: WordBreakdown; // Unset for punctuation and text the breakdown didn't cover
+}
+
+/**
+ * Lays the breakdown tokens over the sentence text, so the reader shows the original
+ * text exactly while words carry their gloss. Tokens the model normalized (and so can't
+ * be found in the text) are dropped; the text they covered stays plain.
+ */
+export const alignTokens = (sentence: string, breakdown: WordBreakdown[]): ReaderSegment[] => {
+  const segments: ReaderSegment[] = [];
+  let cursor = 0;
+  for (const token of breakdown) {
+    const word = token.word.trim();
+    if (!word) continue;
+    const index = sentence.indexOf(word, cursor);
+    if (index === -1 || index - cursor > MAX_GAP) continue;
+    if (index > cursor) segments.push({ text: sentence.slice(cursor, index) });
+    segments.push({ text: word, token });
+    cursor = index + word.length;
+  }
+  if (cursor < sentence.length) segments.push({ text: sentence.slice(cursor) });
+  return segments;
+};
+
+export const wordKey = (word: string) => word.normalize('NFKC').trim().toLowerCase();
+
+export const loadKnownWords = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KNOWN_KEY) || '[]');
+    if (Array.isArray(saved)) return saved.filter((word): word is string => typeof word === 'string');
+  } catch (e) {
+    console.warn("Failed to read known words, starting fresh", e);
+  }
+  return [];
+};
+
+/**
+ * Marks a word as known, or unmarks it, and returns the updated list.
+ */
+export const toggleKnownWord = (word: string): string[] => {
+  const key = wordKey(word);
+  const known = loadKnownWords();
+  const next = known.includes(key) ? known.filter(k => k !== key) : [...known, key];
+  saveKnownWords(next);
+  return next;
+};
+
+export const saveKnownWords = (words: string[]) => {
+  try {
+    localStorage.setItem(KNOWN_KEY, JSON.stringify(words));
+  } catch (e) {
+    console.warn("Failed to save known words:", e);
+  }
+};
+
+/**
+ * Every surface form that counts as known: words marked known, plus the headwords of
+ * word entries in history in all three languages, the inflected forms the model listed
+ * and, for Japanese verbs and adjectives, every form the conjugator produces.
+ * So 飲みました in a text is known once 飲む is in history.
+ */
+export const knownWordSet = (history: HistoryItem[], marked: string[]): Set<string> => {
+  const known = new Set(marked.map(wordKey));
+  const add = (word: string) => {
+    if (word.trim()) known.add(wordKey(word));
+  };
+  for (const { data } of quizWords(history)) {
+    [data.inputWord, data.coreWord.jp, data.coreWord.en, data.coreWord.zh].forEach(add);
+    const word = data.coreWord.jp;
+    const reading = readingFromPronunciation(data.pronunciation.jp);
+    for (const group of data.inflections ?? []) {
+      group.forms?.forEach(form => add(surfaceOf(form.value)));
+      const cls = word && conjugationClass(word, reading, group.partOfSpeech);
+      if (!cls) continue;
+      for (const form of Object.keys(FORM_LABELS) as FormKey[]) {
+        conjugate(word, cls, form)?.forEach(add);
+      }
+    }
+  }
+  return known;
+};
+
+// Particles and auxiliaries are never styled as unknown; they would light up every sentence
+export const isFunctionWord = (token: WordBreakdown) =>
+  /particle|auxiliary|punctuation|助詞|助動詞|記号|助词|标点/i.test(token.partOfSpeech);
@@ -0,0 +1,51 @@
+import { LexiconError, QuotaExceededError, isAbortError, toLexiconError } from "./errors";
+
+export interface RetryOptions {
+  retries: number; // Extra attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number; // Also the longest quota wait we sit out before giving up
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 500, maxDelayMs: 8000 };
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with full jitter, so parallel clients don't retry in lockstep
+export const backoffDelay = (attempt: number, options: RetryOptions) =>
+  Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+/**
+ * Runs `fn`, retrying retryable LexiconErrors. Quota errors that ask us to wait
+ * longer than `maxDelayMs` are surfaced immediately so the UI can show a countdown.
+ * Rejects with a LexiconError, or with the abort reason once `signal` fires.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      const error: LexiconError = toLexiconError(e);
+      if (!error.retryable || attempt >= options.retries) throw error;
+
+      let delay = backoffDelay(attempt, options);
+      if (error instanceof QuotaExceededError && error.retryAfterMs !== undefined) {
+        if (error.retryAfterMs > options.maxDelayMs) throw error;
+        delay = Math.max(delay, error.retryAfterMs);
+      }
+      console.warn(`Attempt ${attempt + 1} failed (${error.kind}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { decodeEntities, parseRuby, rubyPlainText } from './ruby';
+
+const text = (value: string) => ({ type: 'text', text: value });
+const ruby = (base: string, reading: string) => ({ type: 'ruby', base, reading });
+
+describe('parseRuby', () => {
+  it('returns plain text as one token', () => {
+    expect(parseRuby('日本語を勉強する')).toEqual([text('日本語を勉強する')]);
+  });
+
+  it('returns no tokens for an empty string', () => {
+    expect(parseRuby('')).toEqual([]);
+  });
+
+  it('parses a ruby element between text', () => {
+    expect(parseRuby('毎日<ruby>日本語<rt>にほんご</rt></ruby>を話す')).toEqual([
+      text('毎日'), ruby('日本語', 'にほんご'), text('を話す'),
+    ]);
+  });
+
+  it('parses consecutive ruby elements', () => {
+    expect(parseRuby('<ruby>日本<rt>にほん</rt></ruby><ruby>語<rt>ご</rt></ruby>')).toEqual([
+      ruby('日本', 'にほん'), ruby('語', 'ご'),
+    ]);
+  });
+
+  it('splits several base/reading pairs in one ruby element', () => {
+    expect(parseRuby('<ruby>漢<rt>かん</rt>字<rt>じ</rt></ruby>を')).toEqual([
+      ruby('漢', 'かん'), ruby('字', 'じ'), text('を'),
+    ]);
+  });
+
+  it('keeps base text after the last reading as text', () => {
+    expect(parseRuby('<ruby>漢<rt>かん</rt>字</ruby>')).toEqual([ruby('漢', 'かん'), text('字')]);
+  });
+
+  it('treats an empty reading as plain base text', () => {
+    expect(parseRuby('<ruby>日<rt></rt></ruby>本')).toEqual([text('日本')]);
+  });
+
+  it('accepts upper-case tag names and whitespace before the closing bracket', () => {
+    expect(parseRuby('<RUBY>日<RT >ひ</rt ></Ruby>')).toEqual([ruby('日', 'ひ')]);
+  });
+
+  it('drops <rp> fallback parentheses', () => {
+    expect(parseRuby('<ruby>漢<rp>(</rp><rt>かん</rt><rp>)</rp></ruby>字')).toEqual([ruby('漢', 'かん'), text('字')]);
+  });
+
+  it('decodes entities in text, bases and readings', () => {
+    expect(parseRuby('A &amp; B <ruby>&#x65E5;<rt>&#12402;</rt></ruby> &lt;3')).toEqual([
+      text('A & B '), ruby('日', 'ひ'), text(' <3'),
+    ]);
+  });
+
+  it('keeps a < that does not open a tag', () => {
+    expect(parseRuby('a<b')).toEqual([text('a<b')]);
+    expect(parseRuby('1 < 2 <ruby>日<rt>ひ</rt></ruby>')).toEqual([text('1 < 2 '), ruby('日', 'ひ')]);
+    expect(parseRuby('x <= y')).toEqual([text('x <= y')]);
+  });
+
+  describe('malformed markup', () => {
+    it('falls back to text for other tags', () => {
+      expect(parseRuby('<ruby>日本<rt>にほん</rt></ruby><img src=x onerror=alert(1)>語')).toEqual([text('日本語')]);
+      expect(parseRuby('<b>強調</b>')).toEqual([text('強調')]);
+      expect(parseRuby('<script>alert(1)</script>')).toEqual([text('alert(1)')]);
+    });
+
+    it('falls back to text for attributes on furigana tags', () => {
+      expect(parseRuby('<ruby class="x">日<rt>ひ</rt></ruby>')).toEqual([text('日')]);
+      expect(parseRuby('<ruby>日<rt onclick="x()">ひ</rt></ruby>')).toEqual([text('日')]);
+    });
+
+    it('falls back to text for nested ruby elements', () => {
+      expect(parseRuby('<ruby><ruby>日<rt>ひ</rt></ruby></ruby>')).toEqual([text('日')]);
+      expect(parseRuby('<ruby>日<rt><ruby>本<rt>ほん</rt></ruby></rt></ruby>')).toEqual([text('日')]);
+    });
+
+    it('falls back to text for stray readings and closing tags', () => {
+      expect(parseRuby('日<rt>ひ</rt>本')).toEqual([text('日本')]);
+      expect(parseRuby('日本</ruby>語')).toEqual([text('日本語')]);
+      expect(parseRuby('<ruby><rt>ひ</rt></ruby>')).toEqual([]);
+    });
+
+    it('falls back to text for unclosed tags', () => {
+      expect(parseRuby('<ruby>日本<rt>にほん</ruby>')).toEqual([text('日本')]);
+      expect(parseRuby('<ruby>日本<rt>にほん</rt>')).toEqual([text('日本')]);
+    });
+
+    it('falls back to text for comments and doctypes', () => {
+      expect(parseRuby('<!-- note -->日本')).toEqual([text('日本')]);
+      expect(parseRuby('<!DOCTYPE html>日本')).toEqual([text('日本')]);
+    });
+  });
+
+  describe('streaming', () => {
+    it('hides a reading that is still being written', () => {
+      expect(parseRuby('<ruby>日本<rt>に')).toEqual([text('日本')]);
+    });
+
+    it('drops a furigana tag cut off at the end', () => {
+      expect(parseRuby('<ruby>日本<rt>にほん</rt></ruby>語<ru')).toEqual([ruby('日本', 'にほん'), text('語')]);
+      expect(parseRuby('<ruby>日本<rt>にほん</r')).toEqual([text('日本')]);
+      expect(parseRuby('語</')).toEqual([text('語')]);
+    });
+
+    it('keeps a trailing < that is not the start of a furigana tag', () => {
+      expect(parseRuby('a <')).toEqual([text('a <')]);
+    });
+  });
+});
+
+describe('rubyPlainText', () => {
+  it('removes tags, readings and parentheses', () => {
+    expect(rubyPlainText('<ruby>漢<rp>(</rp><rt>かん</rt><rp>)</rp></ruby>字<b>!</b>')).toBe('漢字!');
+  });
+
+  it('keeps text that only looks like a tag start', () => {
+    expect(rubyPlainText('a<b <i>c</i>')).toBe('a<b c');
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hex references', () => {
+    expect(decodeEntities('&amp;&lt;&gt;&quot;&apos;&#26085;&#x672C;')).toBe('&<>"\'日本');
+  });
+
+  it('leaves unknown and out-of-range references alone', () => {
+    expect(decodeEntities('&bogus; &#0; &#x110000;')).toBe('&bogus; &#0; &#x110000;');
+  });
+
+  it('does not decode twice', () => {
+    expect(decodeEntities('&amp;lt;')).toBe('&lt;');
+  });
+});
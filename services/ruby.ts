@@ -0,0 +1,119 @@
+/**
+ * Furigana markup (`<ruby>日本<rt>にほん</rt></ruby>語`) as data, so model output is
+ * never rendered as HTML. Only bare <ruby>, <rt> and <rp> tags are understood; any
+ * other tag makes the whole string fall back to plain text.
+ */
+export type RubyToken =
+  | { type: 'text'; text: string }
+  | { type: 'ruby'; base: string; reading: string };
+
+// A complete tag, comment or doctype. A `<` that doesn't open one, as in `a<b`, is text.
+const TAG_PATTERN = /<(?:!--[\s\S]*?-->|[!?][^<>]*>|(\/?)([a-zA-Z][\w:-]*)([^<>]*)>)/g;
+
+// The start of a furigana tag cut off at the end of a streamed response: `<r`, `</rt`
+const TRUNCATED_TAG = /<(?:\/(?:r(?:u(?:by?)?|[tp])?)?|r(?:u(?:by?)?|[tp])?)$/i;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Decodes the character references a model or an HTML source is likely to use.
+ * Unknown references are left as written.
+ */
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, ref: string) => {
+    if (ref[0] !== '#') return NAMED_ENTITIES[ref.toLowerCase()] ?? entity;
+    const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+
+/**
+ * The text of any markup, readings and <rp> fallback parentheses left out: what
+ * malformed furigana is shown as. An unfinished reading or tag at the end (e.g. while
+ * streaming) is left out too.
+ */
+export const rubyPlainText = (markup: string): string =>
+  decodeEntities(markup
+    .replace(/<(rt|rp)\b[^<>]*>[\s\S]*?(?:<\/\1\s*>|$)/gi, '')
+    .replace(TAG_PATTERN, '')
+    .replace(TRUNCATED_TAG, ''));
+
+class MalformedRubyError extends Error {}
+
+// Joins neighbouring text tokens and drops empty ones
+const compact = (tokens: RubyToken[]): RubyToken[] =>
+  tokens.reduce<RubyToken[]>((result, token) => {
+    const last = result[result.length - 1];
+    if (token.type === 'text' && !token.text) return result;
+    if (token.type === 'text' && last?.type === 'text') result[result.length - 1] = { type: 'text', text: last.text + token.text };
+    else result.push(token);
+    return result;
+  }, []);
+
+const tokenize = (markup: string): RubyToken[] => {
+  const tokens: RubyToken[] = [];
+  // Where we are: plain text, the base of a <ruby>, its <rt> reading, or an <rp> that
+  // only browsers without ruby support would show
+  let state: 'text' | 'base' | 'reading' | 'paren' = 'text';
+  let base = '';
+  let reading = '';
+  let position = 0;
+
+  const addText = (raw: string) => {
+    const text = decodeEntities(raw);
+    if (state === 'text') tokens.push({ type: 'text', text });
+    else if (state === 'base') base += text;
+    else if (state === 'reading') reading += text;
+  };
+
+  for (const match of markup.matchAll(TAG_PATTERN)) {
+    addText(markup.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const [, slash, name, rest] = match;
+    // Comments, doctypes, unknown tags and attributes are all rejected
+    if (!name || rest.trim()) throw new MalformedRubyError();
+    const tag = `${slash ? '/' : ''}${name.toLowerCase()}`;
+
+    if (state === 'text' && tag === 'ruby') {
+      state = 'base';
+      base = '';
+    } else if (state === 'base' && tag === 'rt') {
+      // A reading needs something to sit on
+      if (!base.trim()) throw new MalformedRubyError();
+      state = 'reading';
+      reading = '';
+    } else if (state === 'reading' && tag === '/rt') {
+      // <ruby>漢<rt>かん</rt>字<rt>じ</rt></ruby> holds several base/reading pairs
+      tokens.push(reading.trim() ? { type: 'ruby', base, reading } : { type: 'text', text: base });
+      state = 'base';
+      base = '';
+    } else if (state === 'base' && tag === 'rp') {
+      state = 'paren';
+    } else if (state === 'paren' && tag === '/rp') {
+      state = 'base';
+    } else if (state === 'base' && tag === '/ruby') {
+      // Base text after the last reading has no reading of its own
+      tokens.push({ type: 'text', text: base });
+      state = 'text';
+    } else {
+      throw new MalformedRubyError();
+    }
+  }
+  addText(markup.slice(position).replace(TRUNCATED_TAG, ''));
+  if (state !== 'text') throw new MalformedRubyError();
+  return compact(tokens);
+};
+
+/**
+ * Parses furigana markup into text and ruby tokens. Markup that isn't well-formed
+ * <ruby>/<rt>/<rp> (other tags, attributes, nesting, unclosed tags) becomes a single
+ * text token with the tags and readings removed.
+ */
+export const parseRuby = (markup: string): RubyToken[] => {
+  try {
+    return tokenize(markup);
+  } catch (e) {
+    if (!(e instanceof MalformedRubyError)) throw e;
+    return compact([{ type: 'text', text: rubyPlainText(markup) }]);
+  }
+};
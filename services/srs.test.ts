@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WordData } from '../types';
+import { CardState, DEFAULT_REVIEW_SETTINGS, buildReviewQueue, cardId, formatInterval, loadCardStates, schedule, startOfDay } from './srs';
+import { history, wordData } from './testFixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 0, 10, 15, 30).getTime();
+const today = startOfDay(now);
+
+const state = (data: WordData, fields: Partial<CardState>): CardState =>
+  ({ id: cardId(data), ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: today, introducedAt: 0, lastReviewedAt: 0, ...fields });
+
+const dog = wordData('犬', 'dog', '狗');
+const cat = wordData('猫', 'cat', '猫');
+const bird = wordData('鳥', 'bird', '鸟');
+
+describe('schedule', () => {
+  const review = (grades: ('again' | 'hard' | 'good' | 'easy')[]) =>
+    grades.reduce<CardState | undefined>((previous, grade) => schedule({ id: 'card', state: previous }, grade, now), undefined)!;
+
+  it('goes 1 day, 6 days, then grows by the ease factor', () => {
+    expect(review(['good']).interval).toBe(1);
+    expect(review(['good', 'good']).interval).toBe(6);
+    expect(review(['good', 'good', 'good'])).toMatchObject({ interval: 15, repetitions: 3, ease: 2.5 });
+  });
+
+  it('is due at the start of the day the interval ends', () => {
+    expect(review(['good', 'good']).due).toBe(today + 6 * DAY);
+  });
+
+  it('restarts failed cards and counts the lapse', () => {
+    const card = review(['good', 'good', 'again']);
+    expect(card).toMatchObject({ interval: 1, repetitions: 0, lapses: 1, ease: 1.96 });
+    expect(review(['again']).lapses).toBe(0); // A new card can't lapse
+  });
+
+  it('jumps easy answers further ahead', () => {
+    expect(review(['easy'])).toMatchObject({ interval: 4, ease: 2.6 });
+    expect(review(['good', 'good', 'easy']).interval).toBe(Math.round(Math.round(6 * 2.5) * 1.3));
+  });
+
+  it('never lets ease drop below 1.3', () => {
+    expect(review(['again', 'again', 'again', 'again', 'again']).ease).toBe(1.3);
+  });
+
+  it('keeps when the card was first introduced', () => {
+    const first = schedule({ id: 'card' }, 'good', now - DAY);
+    expect(schedule({ id: 'card', state: first }, 'good', now)).toMatchObject({ introducedAt: now - DAY, lastReviewedAt: now });
+  });
+});
+
+describe('buildReviewQueue', () => {
+  it('puts due cards first, most overdue first, then new words oldest first', () => {
+    const states = {
+      [cardId(dog)]: state(dog, { due: today - DAY }),
+      [cardId(cat)]: state(cat, { due: today - 3 * DAY }),
+    };
+    const fish = wordData('魚', 'fish', '鱼');
+    const queue = buildReviewQueue(history(fish, dog, bird, cat), states, DEFAULT_REVIEW_SETTINGS, now);
+    expect(queue.map(card => card.data.coreWord.en)).toEqual(['cat', 'dog', 'bird', 'fish']);
+  });
+
+  it('leaves out cards due on a later day', () => {
+    const states = { [cardId(dog)]: state(dog, { due: today + DAY }) };
+    expect(buildReviewQueue(history(dog), states, DEFAULT_REVIEW_SETTINGS, now)).toEqual([]);
+  });
+
+  it('counts cards introduced today against the new-card limit', () => {
+    const states = { [cardId(dog)]: state(dog, { due: today + DAY, introducedAt: now - 60_000 }) };
+    const queue = buildReviewQueue(history(cat, bird, dog), states, { ...DEFAULT_REVIEW_SETTINGS, newPerDay: 2 }, now);
+    expect(queue.map(card => card.data.coreWord.en)).toEqual(['bird']);
+  });
+
+  it('makes one card per word, from its latest lookup, and keeps homographs apart', () => {
+    const newer = { ...dog, etymology: 'newer' };
+    const queue = buildReviewQueue(history(newer, dog, wordData('本', 'book', '书'), wordData('本', 'counter for long objects', '根')), {}, DEFAULT_REVIEW_SETTINGS, now);
+    expect(queue).toHaveLength(3);
+    expect(queue.find(card => card.data.coreWord.en === 'dog')!.data.etymology).toBe('newer');
+  });
+
+  it("doesn't share progress stored under a bare headword between homographs", () => {
+    const book = wordData('本', 'book', '书');
+    const states = { '本': state(book, { id: '本', due: today - DAY }) };
+    const queue = buildReviewQueue(history(book, wordData('本', 'counter for long objects', '根')), states, DEFAULT_REVIEW_SETTINGS, now);
+    expect(queue.every(card => !card.state)).toBe(true);
+  });
+});
+
+describe('formatInterval', () => {
+  it('shows days, months and years', () => {
+    expect(formatInterval(6)).toBe('6d');
+    expect(formatInterval(90)).toBe('3mo');
+    expect(formatInterval(400)).toBe('1.1y');
+  });
+});
+
+describe('loadCardStates', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('drops stored cards with missing or invalid fields', () => {
+    const good = state(dog, {});
+    const { due: _, ...noDue } = state(cat, {});
+    const saved = { [good.id]: good, [noDue.id]: noDue, bird: { ...state(bird, {}), introducedAt: 'yesterday' }, fish: null };
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(saved) });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadCardStates()).toEqual({ [good.id]: good });
+    expect(console.warn).toHaveBeenCalledWith("Dropping invalid review state:", expect.arrayContaining([`Review card "${noDue.id}" is malformed`]));
+  });
+
+  it('starts fresh when the stored state is not a table', () => {
+    vi.stubGlobal('localStorage', { getItem: () => '[1, 2]' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadCardStates()).toEqual({});
+  });
+});
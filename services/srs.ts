@@ -0,0 +1,194 @@
+import { HistoryItem, WordData } from "../types";
+import { contentKey } from "./history";
+import { isCount, isRecord, validTable } from "./validation";
+
+const CARDS_KEY = 'trilingua_srs_cards';
+const SETTINGS_KEY = 'trilingua_srs_settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CardField = 'coreWord.jp' | 'coreWord.en' | 'coreWord.zh' | 'pronunciation' | 'definitions';
+
+export const CARD_FIELDS: { value: CardField; label: string }[] = [
+  { value: 'coreWord.jp', label: 'Japanese' },
+  { value: 'coreWord.en', label: 'English' },
+  { value: 'coreWord.zh', label: 'Chinese' },
+  { value: 'pronunciation', label: 'Pronunciation' },
+  { value: 'definitions', label: 'Definitions' },
+];
+
+export interface ReviewSettings {
+  front: CardField[];
+  back: CardField[];
+  newPerDay: number;
+}
+
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  front: ['coreWord.jp'],
+  back: ['pronunciation', 'coreWord.en', 'coreWord.zh', 'definitions'],
+  newPerDay: 20,
+};
+
+/**
+ * Per-card SM-2 state. `interval` is in days; `due` is the start of the day
+ * the card should be shown again.
+ */
+export interface CardState {
+  id: string;
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  due: number;
+  introducedAt: number;
+  lastReviewedAt: number;
+}
+
+// The four answer buttons mapped onto SM-2's 0-5 quality scale
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export interface ReviewCard {
+  id: string;
+  data: WordData;
+  state?: CardState; // Missing for cards that were never reviewed
+}
+
+export const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/**
+ * A card is keyed like its history entry, on all three headwords: the same word looked
+ * up twice is one card, while homographs (本 "book" and 本 the counter) stay apart.
+ */
+export const cardId = (data: WordData) =>
+  data.coreWord.jp || data.coreWord.en || data.coreWord.zh ? contentKey({ type: 'word', data }) : '';
+
+/**
+ * SM-2: failed cards restart at one day, passed cards go 1 day, 6 days, then
+ * grow by the card's ease factor. Ease drops on hard answers and never goes below 1.3.
+ */
+export const schedule = (card: { id: string; state?: CardState }, grade: ReviewGrade, now = Date.now()): CardState => {
+  const previous = card.state;
+  const quality = QUALITY[grade];
+  let ease = previous?.ease ?? 2.5;
+  let repetitions = previous?.repetitions ?? 0;
+  let interval = previous?.interval ?? 0;
+  let lapses = previous?.lapses ?? 0;
+
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+    if (previous?.repetitions) lapses++;
+  } else {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+    // Easy answers jump ahead a little further than SM-2 alone would
+    if (grade === 'easy') interval = Math.max(interval, repetitions === 0 ? 4 : Math.round(interval * 1.3));
+    repetitions++;
+  }
+  ease = Math.max(1.3, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return {
+    id: card.id,
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    due: startOfDay(now) + interval * DAY_MS,
+    introducedAt: previous?.introducedAt ?? now,
+    lastReviewedAt: now,
+  };
+};
+
+export const isCardState = (s: Record<string, unknown>) =>
+  ['ease', 'interval', 'repetitions', 'lapses', 'due', 'introducedAt', 'lastReviewedAt'].every(key => isCount(s[key]));
+
+// Broken cards are dropped (with a warning) so they can't turn into NaN due dates
+export const loadCardStates = (): Record<string, CardState> => {
+  try {
+    const rejected: string[] = [];
+    const states = validTable<CardState>(JSON.parse(localStorage.getItem(CARDS_KEY) || '{}'), 'Review card', isCardState, rejected);
+    if (rejected.length) console.warn("Dropping invalid review state:", rejected);
+    return states;
+  } catch (e) {
+    console.warn("Failed to read review state, starting fresh", e);
+  }
+  return {};
+};
+
+export const saveCardStates = (states: Record<string, CardState>) => {
+  try {
+    localStorage.setItem(CARDS_KEY, JSON.stringify(states));
+  } catch (e) {
+    console.warn("Failed to save review state:", e);
+  }
+};
+
+// Settings from storage or a backup file, with defaults for anything missing or invalid
+export const normalizeReviewSettings = (saved: unknown): ReviewSettings => {
+  const { front, back, newPerDay } = isRecord(saved) ? saved : {};
+  const fields = (value: unknown) =>
+    Array.isArray(value) ? value.filter((f): f is CardField => CARD_FIELDS.some(c => c.value === f)) : null;
+  const frontFields = fields(front);
+  return {
+    front: frontFields?.length ? frontFields : DEFAULT_REVIEW_SETTINGS.front,
+    back: fields(back) ?? DEFAULT_REVIEW_SETTINGS.back,
+    newPerDay: typeof newPerDay === 'number' && newPerDay >= 0 ? newPerDay : DEFAULT_REVIEW_SETTINGS.newPerDay,
+  };
+};
+
+export const loadReviewSettings = (): ReviewSettings => {
+  try {
+    return normalizeReviewSettings(JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}'));
+  } catch {
+    return DEFAULT_REVIEW_SETTINGS;
+  }
+};
+
+export const saveReviewSettings = (settings: ReviewSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Today's queue: every card due by the end of today (most overdue first), followed
+ * by new words from history (oldest lookup first) up to the daily new-card limit.
+ */
+export const buildReviewQueue = (
+  history: HistoryItem[],
+  states: Record<string, CardState>,
+  settings: ReviewSettings,
+  now = Date.now()
+): ReviewCard[] => {
+  const cards = new Map<string, ReviewCard>();
+  // History is newest first; the latest lookup of a word provides its content
+  for (const item of history) {
+    if (item.type !== 'word') continue;
+    const data = item.data as WordData;
+    const id = cardId(data);
+    if (id && !cards.has(id)) cards.set(id, { id, data, state: states[id] });
+  }
+
+  const today = startOfDay(now);
+  const due = [...cards.values()]
+    .filter(card => card.state && card.state.due <= today)
+    .sort((a, b) => a.state!.due - b.state!.due);
+
+  const introducedToday = Object.values(states).filter(state => startOfDay(state.introducedAt) === today).length;
+  const newCards = [...cards.values()]
+    .filter(card => !card.state)
+    .reverse()
+    .slice(0, Math.max(0, settings.newPerDay - introducedToday));
+
+  return [...due, ...newCards];
+};
+
+/**
+ * Human-readable interval for the grade buttons ("1d", "6d", "3mo").
+ */
+export const formatInterval = (days: number) => {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,290 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryItem } from '../types';
+import { SafetyBlockedError } from './errors';
+import { contentKey } from './history';
+import { SyncBackend, SyncEngine, SyncRequestError, applySyncOps } from './sync';
+import { MAX_PULL_OPS, PullResponse, StoredSyncOp, SyncOp, compareVersions, parseSyncOp } from './syncProtocol';
+import { entry, wordData } from './testFixtures';
+import { ResponseValidationError } from './validation';
+
+// The engine only needs somewhere to save; every engine starts with a fresh device ID
+vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} });
+
+const dog = entry(wordData('犬', 'dog', '狗'), 1);
+const cat = entry(wordData('猫', 'cat', '猫'), 2);
+// Furigana with markup the ruby renderer won't accept
+const unsafeDog = entry(wordData('犬', 'dog', '狗', { definitions: { jp: '', jp_furigana: '<img src=x onerror=alert(1)>', en: 'definition of dog', zh: '狗的定义' } }), 1);
+
+// Same rules as server/syncStore.ts, kept in memory: the newest op per entry wins and gets the next seq
+const memoryServer = (pageSize = MAX_PULL_OPS) => {
+  const entries = new Map<string, StoredSyncOp>();
+  let cursor = 0;
+  const extra: StoredSyncOp[] = [];
+  const backend: SyncBackend = {
+    async push(ops) {
+      let accepted = 0;
+      for (const op of ops) {
+        const current = entries.get(op.key);
+        if (current && compareVersions(op, current) <= 0) continue;
+        entries.set(op.key, { ...op, seq: ++cursor });
+        accepted++;
+      }
+      return { accepted, cursor };
+    },
+    async pull(since): Promise<PullResponse> {
+      const changed = [...entries.values(), ...extra].filter(op => op.seq > since).sort((a, b) => a.seq - b.seq);
+      const ops = changed.slice(0, pageSize);
+      const more = changed.length > ops.length;
+      return { ops, cursor: more ? ops[ops.length - 1].seq : cursor, more };
+    },
+  };
+  // Lets a test slip in an op the server would never have accepted
+  const inject = (op: unknown) => extra.push({ ...(op as StoredSyncOp), seq: ++cursor });
+  return { backend, entries, inject };
+};
+
+// Resolves once the engine's current sync round is over
+const settled = (engine: SyncEngine) => new Promise<void>(resolve => {
+  if (engine.getState().status !== 'syncing') return resolve();
+  const stop = engine.subscribe(() => {
+    if (engine.getState().status === 'syncing') return;
+    stop();
+    resolve();
+  });
+});
+
+// A device as the app wires it up: remote changes are applied to its history, local edits are tracked
+const connect = (server: ReturnType<typeof memoryServer>, initial: HistoryItem[] = []) => {
+  const engine = new SyncEngine(() => server.backend);
+  let history = initial;
+  engine.onRemoteChanges(ops => { history = applySyncOps(history, ops); });
+  engine.configure({ serverUrl: 'https://sync.example.com', key: 'test-key-0123456789' });
+  const device = {
+    engine,
+    get history() { return history; },
+    keys: () => history.map(contentKey).sort(),
+    // The first call of a session syncs by itself; later edits are synced explicitly
+    edit: async (next: HistoryItem[]) => {
+      history = next;
+      engine.track(next);
+      if (engine.getState().status === 'syncing') await settled(engine);
+      else await engine.sync();
+    },
+    sync: () => engine.sync(),
+  };
+  return device;
+};
+
+describe('compareVersions', () => {
+  it('orders by timestamp, then device ID', () => {
+    expect(compareVersions({ timestamp: 1, deviceId: 'b' }, { timestamp: 2, deviceId: 'a' })).toBeLessThan(0);
+    expect(compareVersions({ timestamp: 2, deviceId: 'a' }, { timestamp: 2, deviceId: 'b' })).toBeLessThan(0);
+    expect(compareVersions({ timestamp: 2, deviceId: 'b' }, { timestamp: 2, deviceId: 'a' })).toBeGreaterThan(0);
+    expect(compareVersions({ timestamp: 2, deviceId: 'a' }, { timestamp: 2, deviceId: 'a' })).toBe(0);
+  });
+});
+
+describe('parseSyncOp', () => {
+  const put = { key: contentKey(dog), timestamp: 5, deviceId: 'a', deleted: false, item: dog };
+
+  it('accepts puts and tombstones', () => {
+    expect(parseSyncOp(put)).toMatchObject({ key: put.key, deleted: false, item: { label: '犬' } });
+    expect(parseSyncOp({ key: 'word:x||', timestamp: 5, deviceId: 'a', deleted: true })).toEqual({ key: 'word:x||', timestamp: 5, deviceId: 'a', deleted: true });
+  });
+
+  it('drops device-local image IDs', () => {
+    expect(parseSyncOp({ ...put, item: { ...dog, imageId: 'local' } }).item).not.toHaveProperty('imageId');
+  });
+
+  it('rejects malformed ops', () => {
+    for (const raw of [null, 'op', { ...put, key: '' }, { ...put, timestamp: NaN }, { ...put, deviceId: 1 }, { ...put, item: { type: 'word' } }]) {
+      expect(() => parseSyncOp(raw)).toThrow(ResponseValidationError);
+    }
+  });
+
+  it('refuses an entry with unsafe furigana markup', () => {
+    expect(() => parseSyncOp({ ...put, item: unsafeDog })).toThrow(SafetyBlockedError);
+  });
+
+  it("rejects an entry that doesn't match its key", () => {
+    expect(() => parseSyncOp({ ...put, key: contentKey(cat) })).toThrow(/doesn't match/);
+  });
+});
+
+describe('applySyncOps', () => {
+  const op = (item: HistoryItem, timestamp: number, deleted = false): SyncOp =>
+    ({ key: contentKey(item), timestamp, deviceId: 'a', deleted, item: deleted ? undefined : item });
+
+  it('replaces entries by content key and keeps newest first', () => {
+    const renamed = { ...dog, id: 'other', label: 'いぬ', timestamp: 3 };
+    const history = applySyncOps([cat, dog], [op(renamed, 3)]);
+    expect(history.map(item => item.label)).toEqual(['いぬ', '猫']);
+  });
+
+  it('removes deleted entries', () => {
+    expect(applySyncOps([cat, dog], [op(dog, 3, true)])).toEqual([cat]);
+  });
+
+  it('keeps the locally stored image of a replaced entry', () => {
+    const [item] = applySyncOps([{ ...dog, imageId: 'img-1' }], [op({ ...dog, label: 'いぬ' }, 3)]);
+    expect(item).toMatchObject({ label: 'いぬ', imageId: 'img-1' });
+  });
+});
+
+describe('SyncEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(1_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('brings two devices to the same history', async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    const b = connect(server);
+    await a.edit([dog]);
+    await b.edit([cat]);
+    await a.sync();
+    expect(a.keys()).toEqual(b.keys());
+    expect(a.keys()).toEqual([contentKey(dog), contentKey(cat)].sort());
+    expect(a.engine.getState()).toMatchObject({ status: 'idle', pending: 0 });
+  });
+
+  it("doesn't send pulled entries back as local changes", async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    const b = connect(server);
+    await a.edit([dog]);
+    await b.edit([]);
+    const pushed = vi.spyOn(server.backend, 'push');
+    await b.edit(b.history);
+    expect(pushed).not.toHaveBeenCalled();
+  });
+
+  it('lets a later deletion win over an older copy of the entry', async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    const b = connect(server);
+    await a.edit([dog]);
+    await b.edit([]);
+    expect(b.keys()).toEqual([contentKey(dog)]);
+
+    vi.setSystemTime(2_000);
+    await a.edit([]);
+    await b.sync();
+    expect(b.history).toEqual([]);
+    expect(server.entries.get(contentKey(dog))).toMatchObject({ deleted: true });
+
+    // A copy stamped before the deletion can't bring the entry back
+    vi.setSystemTime(1_500);
+    const stale = connect(server, [dog]);
+    await stale.edit([dog]);
+    expect(stale.history).toEqual([]);
+    expect(server.entries.get(contentKey(dog))).toMatchObject({ deleted: true });
+  });
+
+  it('keeps the later of two conflicting edits on both devices', async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    const b = connect(server);
+    await a.edit([dog]);
+    await b.edit([]);
+
+    // Both edit the same entry before hearing from each other; b's edit is later
+    vi.setSystemTime(2_000);
+    a.engine.track([{ ...dog, tags: ['from-a'] }]);
+    vi.setSystemTime(3_000);
+    b.engine.track([{ ...b.history[0], tags: ['from-b'] }]);
+    await a.sync();
+    await b.sync();
+    await a.sync();
+
+    expect(a.history[0].tags).toEqual(['from-b']);
+    expect(b.engine.getState().pending).toBe(0);
+    expect(a.engine.getState().pending).toBe(0);
+  });
+
+  it('pulls in pages until the server has nothing more', async () => {
+    const server = memoryServer(1);
+    const a = connect(server);
+    await a.edit([dog, cat]);
+    const b = connect(server);
+    await b.edit([]);
+    expect(b.keys()).toEqual(a.keys());
+  });
+
+  it('skips invalid ops from the server and moves past them', async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    await a.edit([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.inject({ key: 'word:x||', timestamp: 5, deviceId: 'z', deleted: false, item: { type: 'word' } });
+    server.inject({ key: contentKey(dog), timestamp: 5, deviceId: 'z', deleted: false, item: dog });
+    await a.sync();
+    expect(a.keys()).toEqual([contentKey(dog)]);
+    expect(a.engine.getState()).toMatchObject({ status: 'idle', skipped: 1 });
+
+    const pulled = vi.spyOn(server.backend, 'pull');
+    await a.sync();
+    expect(a.engine.getState().skipped).toBe(0);
+    expect(pulled).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips ops with unsafe markup instead of failing the pull', async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    await a.edit([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.inject({ key: contentKey(dog), timestamp: 5, deviceId: 'z', deleted: false, item: unsafeDog });
+    server.inject({ key: contentKey(cat), timestamp: 5, deviceId: 'z', deleted: false, item: cat });
+    await a.sync();
+    expect(a.keys()).toEqual([contentKey(cat)]);
+    expect(a.engine.getState()).toMatchObject({ status: 'idle', skipped: 1 });
+  });
+
+  it('drops local changes the server refuses and still pulls', async () => {
+    const server = memoryServer();
+    const accept = server.backend.push;
+    server.backend.push = async (ops, signal) => {
+      if (ops.some(op => op.key === contentKey(cat))) throw new SyncRequestError('Op #1: Malformed history entry', 400);
+      return accept(ops, signal);
+    };
+    const a = connect(server);
+    await a.edit([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    server.inject({ key: contentKey(dog), timestamp: 5, deviceId: 'z', deleted: false, item: dog });
+    const bird = entry(wordData('鳥', 'bird', '鸟'), 3);
+    await a.edit([bird, cat]);
+    expect([...server.entries.keys()]).toEqual([contentKey(bird)]);
+    expect(a.keys()).toEqual([bird, cat, dog].map(contentKey).sort());
+    expect(a.engine.getState()).toMatchObject({ status: 'idle', skipped: 1, pending: 0 });
+  });
+
+  it('keeps changes queued when the server may take them later', async () => {
+    const server = memoryServer();
+    server.backend.push = async () => { throw new SyncRequestError('Rate limit exceeded', 429); };
+    const a = connect(server);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await a.edit([dog]);
+    expect(a.engine.getState()).toMatchObject({ status: 'error', pending: 1 });
+  });
+
+  it('fails the sync on a malformed pull response', async () => {
+    const server = memoryServer();
+    const a = connect(server);
+    await a.edit([]);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const pulled = vi.spyOn(server.backend, 'pull').mockResolvedValue({ ops: [] } as unknown as PullResponse);
+    await a.sync();
+    expect(a.engine.getState()).toMatchObject({ status: 'error', error: 'Malformed pull response from the sync server' });
+
+    pulled.mockRestore();
+    const since = vi.spyOn(server.backend, 'pull');
+    await a.sync();
+    expect(since).toHaveBeenCalledWith(0);
+  });
+});
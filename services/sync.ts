@@ -0,0 +1,373 @@
+import { HistoryItem } from "../types";
+import { contentKey } from "./history";
+import {
+  MAX_PUSH_OPS,
+  PullResponse,
+  PushResponse,
+  SYNC_KEY_HEADER,
+  SyncOp,
+  SyncVersion,
+  compareVersions,
+  parseSyncOp,
+} from "./syncProtocol";
+import { SafetyBlockedError } from "./errors";
+import { ResponseValidationError, isRecord } from "./validation";
+
+const STATE_KEY = 'trilingua_sync';
+// Local changes are pushed once editing pauses for this long
+const PUSH_DELAY_MS = 2000;
+const POLL_INTERVAL_MS = 60_000;
+
+/**
+ * Where a sync engine sends and fetches ops. `HttpSyncBackend` talks to the reference
+ * server (server/syncServer.ts); anything with the same two calls can replace it.
+ */
+export interface SyncBackend {
+  push(ops: SyncOp[], signal?: AbortSignal): Promise<PushResponse>;
+  pull(since: number, signal?: AbortSignal): Promise<PullResponse>;
+}
+
+export class SyncRequestError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+// A 4xx means the server will never take these ops; a bad key, a wrong URL, a timeout or rate limiting may pass
+const refusedByServer = (e: unknown): e is SyncRequestError =>
+  e instanceof SyncRequestError && e.status !== undefined && e.status >= 400 && e.status < 500 && ![401, 404, 408, 429].includes(e.status);
+
+export class HttpSyncBackend implements SyncBackend {
+  private baseUrl: string;
+
+  constructor(baseUrl: string, private key: string) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  private async request<T>(path: string, init: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', [SYNC_KEY_HEADER]: this.key },
+    });
+    if (!response.ok) {
+      const payload: unknown = await response.json().catch(() => null);
+      const message = isRecord(payload) && typeof payload.error === 'string' && payload.error ? payload.error : `Sync request to ${path} failed (${response.status})`;
+      throw new SyncRequestError(message, response.status);
+    }
+    return response.json();
+  }
+
+  push(ops: SyncOp[], signal?: AbortSignal): Promise<PushResponse> {
+    return this.request('/push', { method: 'POST', body: JSON.stringify({ ops }), signal });
+  }
+
+  pull(since: number, signal?: AbortSignal): Promise<PullResponse> {
+    return this.request(`/pull?since=${since}`, { method: 'GET', signal });
+  }
+}
+
+export interface SyncSettings {
+  serverUrl: string; // Base URL of the sync API, e.g. "https://sync.example.com/sync"
+  key: string;
+}
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: number; // Local changes not yet pushed
+  lastSyncedAt?: number;
+  error?: string;
+  skipped?: number; // Invalid ops from the server and local changes it refused, left out of the last sync
+}
+
+// What the engine keeps between sessions
+interface StoredSyncState {
+  settings: SyncSettings | null;
+  deviceId: string;
+  cursor: number;
+  // Version of the last change applied to each entry, tombstones included
+  versions: Record<string, SyncVersion & { deleted: boolean }>;
+  outbox: SyncOp[];
+}
+
+const loadStoredState = (): StoredSyncState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATE_KEY) || '{}');
+    if (saved && typeof saved.deviceId === 'string') {
+      return {
+        settings: saved.settings?.serverUrl && saved.settings?.key ? saved.settings : null,
+        deviceId: saved.deviceId,
+        cursor: typeof saved.cursor === 'number' ? saved.cursor : 0,
+        versions: saved.versions && typeof saved.versions === 'object' ? saved.versions : {},
+        outbox: Array.isArray(saved.outbox) ? saved.outbox : [],
+      };
+    }
+  } catch (e) {
+    console.warn("Failed to read sync state, starting fresh", e);
+  }
+  return { settings: null, deviceId: crypto.randomUUID(), cursor: 0, versions: {}, outbox: [] };
+};
+
+// A fresh random sync key to share between devices
+export const generateSyncKey = () => crypto.randomUUID().replace(/-/g, '') + crypto.randomUUID().replace(/-/g, '').slice(0, 8);
+
+// The part of an entry that syncs: image IDs point into this browser's image store, and generated images stay local
+const syncedItem = ({ imageId: _, ...item }: HistoryItem): HistoryItem =>
+  item.imageUrl?.startsWith('data:') ? { ...item, imageUrl: undefined } : item;
+
+const signature = (item: HistoryItem) => JSON.stringify({ ...syncedItem(item), id: undefined });
+
+/**
+ * Applies ops that won against the local versions: puts replace the entry with the same
+ * content key (keeping a locally stored image), deletions remove it. Newest first.
+ */
+export const applySyncOps = (history: HistoryItem[], ops: SyncOp[]): HistoryItem[] => {
+  const byKey = new Map(history.map(item => [contentKey(item), item]));
+  for (const op of ops) {
+    const existing = byKey.get(op.key);
+    if (op.deleted || !op.item) byKey.delete(op.key);
+    else byKey.set(op.key, existing?.imageId ? { ...op.item, imageId: existing.imageId } : op.item);
+  }
+  return [...byKey.values()].sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Syncs history between devices. `track` is handed every new version of the history
+ * list and records what changed as ops in an outbox, stamped with a version newer than
+ * anything seen for that entry. `sync` pushes the outbox, then pulls ops from other
+ * devices; for every entry the op with the highest version wins, on every device alike.
+ */
+export class SyncEngine {
+  private stored: StoredSyncState;
+  private state: SyncState;
+  private listeners = new Set<() => void>();
+  private remoteHandler: ((ops: SyncOp[]) => void) | null = null;
+  // Signature of each entry as last tracked or applied, by content key
+  private known: Map<string, { item: HistoryItem; signature: string }> | null = null;
+  private running: Promise<void> | null = null;
+  private again = false;
+  private pushTimer: ReturnType<typeof setTimeout> | undefined;
+  private pollTimer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(private createBackend: (settings: SyncSettings) => SyncBackend = s => new HttpSyncBackend(s.serverUrl, s.key)) {
+    this.stored = typeof localStorage !== 'undefined' ? loadStoredState() : { settings: null, deviceId: crypto.randomUUID(), cursor: 0, versions: {}, outbox: [] };
+    this.state = { status: this.stored.settings ? 'idle' : 'off', pending: this.stored.outbox.length };
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.sync());
+      this.startPolling();
+    }
+  }
+
+  getState = (): SyncState => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getSettings = (): SyncSettings | null => this.stored.settings;
+
+  private setState(patch: Partial<SyncState>) {
+    this.state = { ...this.state, ...patch, pending: this.stored.outbox.length };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STATE_KEY, JSON.stringify(this.stored));
+    } catch (e) {
+      console.warn("Failed to save sync state:", e);
+    }
+  }
+
+  // Other devices' changes arrive by polling; only in the browser, where the engine lives for the whole session
+  private startPolling() {
+    clearInterval(this.pollTimer);
+    if (this.stored.settings && typeof window !== 'undefined') this.pollTimer = setInterval(() => this.sync(), POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Receives the ops from other devices that won; the handler applies them to history
+   * (usually with `applySyncOps`).
+   */
+  onRemoteChanges(handler: (ops: SyncOp[]) => void) {
+    this.remoteHandler = handler;
+    return () => { if (this.remoteHandler === handler) this.remoteHandler = null; };
+  }
+
+  /**
+   * Turns sync on with new settings, or off with null. A different server or key starts
+   * over: every local entry is pushed again and everything on the server is pulled.
+   */
+  configure(settings: SyncSettings | null) {
+    const previous = this.stored.settings;
+    const changed = !settings || !previous || settings.serverUrl !== previous.serverUrl || settings.key !== previous.key;
+    this.stored = changed
+      ? { settings, deviceId: this.stored.deviceId, cursor: 0, versions: {}, outbox: [] }
+      : { ...this.stored, settings };
+    if (changed) this.known = null; // The next track() records every entry
+    this.save();
+    this.startPolling();
+    this.setState({ status: settings ? 'idle' : 'off', error: undefined, lastSyncedAt: changed ? undefined : this.state.lastSyncedAt });
+  }
+
+  // A version newer than both the clock and anything seen for the entry
+  private nextVersion(key: string): SyncVersion {
+    const seen = this.stored.versions[key]?.timestamp ?? 0;
+    return { timestamp: Math.max(Date.now(), seen + 1), deviceId: this.stored.deviceId };
+  }
+
+  private record(op: SyncOp) {
+    this.stored.versions[op.key] = { timestamp: op.timestamp, deviceId: op.deviceId, deleted: op.deleted };
+    // Only the newest pending change of an entry needs to go out
+    this.stored.outbox = [...this.stored.outbox.filter(pending => pending.key !== op.key), op];
+  }
+
+  /**
+   * Records changes since the previous call. The first call of a session only records
+   * entries the server has never seen; the rest are assumed unchanged.
+   */
+  track(history: HistoryItem[]) {
+    if (!this.stored.settings) return;
+    const current = new Map(history.map(item => [contentKey(item), item]));
+    const baseline = !this.known;
+    const known = this.known ?? new Map();
+    let recorded = false;
+
+    for (const [key, item] of current) {
+      const previous = known.get(key);
+      if (previous?.item === item) continue;
+      const itemSignature = signature(item);
+      known.set(key, { item, signature: itemSignature });
+      const unchanged = baseline ? this.stored.versions[key] && !this.stored.versions[key].deleted : previous?.signature === itemSignature;
+      if (unchanged) continue;
+      this.record({ key, ...this.nextVersion(key), deleted: false, item: syncedItem(item) });
+      recorded = true;
+    }
+    for (const key of [...known.keys()]) {
+      if (current.has(key)) continue;
+      known.delete(key);
+      this.record({ key, ...this.nextVersion(key), deleted: true });
+      recorded = true;
+    }
+
+    this.known = known;
+    if (recorded) {
+      this.save();
+      this.setState({});
+    }
+    // The session's first sync waits for the baseline, so pulled changes land on the full history
+    if (baseline) this.sync();
+    else if (recorded) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = setTimeout(() => this.sync(), PUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Pushes pending changes and pulls everyone else's. Calls made while a sync is running
+   * are folded into one more round afterwards.
+   */
+  sync(): Promise<void> {
+    if (!this.stored.settings || !this.known) return Promise.resolve();
+    if (this.running) {
+      this.again = true;
+      return this.running;
+    }
+    this.running = this.run().finally(() => {
+      this.running = null;
+      if (this.again) {
+        this.again = false;
+        this.sync();
+      }
+    });
+    return this.running;
+  }
+
+  private async run() {
+    const settings = this.stored.settings!;
+    const backend = this.createBackend(settings);
+    this.setState({ status: 'syncing', error: undefined });
+    let skipped = 0;
+    try {
+      while (this.stored.outbox.length) {
+        const batch = this.stored.outbox.slice(0, MAX_PUSH_OPS);
+        skipped += await this.push(backend, batch);
+        // Entries changed again during the push keep their newer pending op
+        this.stored.outbox = this.stored.outbox.filter(op => !batch.includes(op));
+        this.save();
+      }
+
+      let more = true;
+      while (more) {
+        const response: unknown = await backend.pull(this.stored.cursor);
+        if (this.stored.settings !== settings) return; // Reconfigured meanwhile
+        if (!isRecord(response) || !Array.isArray(response.ops) || typeof response.cursor !== 'number' || typeof response.more !== 'boolean') {
+          throw new ResponseValidationError("Malformed pull response from the sync server");
+        }
+        this.applyRemote(response.ops.flatMap(raw => {
+          // One bad op must not hold back the batch, or the cursor would never move past it
+          try {
+            return [parseSyncOp(raw)];
+          } catch (e) {
+            if (!(e instanceof ResponseValidationError || e instanceof SafetyBlockedError)) throw e;
+            console.warn("Skipping invalid sync op from the server:", e.message, raw);
+            skipped++;
+            return [];
+          }
+        }));
+        this.stored.cursor = response.cursor;
+        more = response.more;
+        this.save();
+      }
+      this.setState({ status: 'idle', lastSyncedAt: Date.now(), skipped });
+    } catch (e) {
+      console.warn("Sync failed:", e);
+      const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+      this.setState({ status: offline ? 'offline' : 'error', error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  /**
+   * Pushes a batch. When the server refuses it, the ops are sent one at a time and the
+   * ones it refuses on their own are dropped, so they can't hold back the rest of the
+   * outbox. Returns how many were dropped.
+   */
+  private async push(backend: SyncBackend, batch: SyncOp[]): Promise<number> {
+    try {
+      await backend.push(batch);
+      return 0;
+    } catch (e) {
+      if (!refusedByServer(e)) throw e;
+      if (batch.length === 1) {
+        console.warn("Dropping a change the sync server refused:", e.message, batch[0]);
+        return 1;
+      }
+    }
+    let dropped = 0;
+    for (const op of batch) dropped += await this.push(backend, [op]);
+    return dropped;
+  }
+
+  private applyRemote(ops: SyncOp[]) {
+    const winners = ops.filter(op => {
+      const local = this.stored.versions[op.key];
+      return !local || compareVersions(op, local) > 0;
+    });
+    if (!winners.length) return;
+
+    for (const op of winners) {
+      this.stored.versions[op.key] = { timestamp: op.timestamp, deviceId: op.deviceId, deleted: op.deleted };
+      // A pending local change to the same entry lost
+      this.stored.outbox = this.stored.outbox.filter(pending => pending.key !== op.key);
+      // Applied entries aren't local changes; track() must not send them back
+      if (op.deleted || !op.item) this.known?.delete(op.key);
+      else this.known?.set(op.key, { item: op.item, signature: signature(op.item) });
+    }
+    this.remoteHandler?.(winners);
+  }
+}
+
+export const syncEngine = new SyncEngine();
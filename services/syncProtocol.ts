@@ -0,0 +1,70 @@
+import { HistoryItem } from "../types";
+import { contentKey } from "./history";
+import { ResponseValidationError, isRecord, validateHistoryItem } from "./validation";
+
+// Shared by the client sync engine (services/sync.ts) and the reference server (server/syncServer.ts)
+
+// Sync keys are long random secrets; everyone who knows one shares the same history
+export const SYNC_KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+export const SYNC_KEY_HEADER = 'X-Sync-Key';
+export const MAX_PUSH_OPS = 200;
+export const MAX_PULL_OPS = 500;
+
+/**
+ * When and where a change was made. Versions are totally ordered by timestamp, then
+ * device ID, so every device and the server pick the same winner for an entry.
+ */
+export interface SyncVersion {
+  timestamp: number;
+  deviceId: string;
+}
+
+/**
+ * One change to one history entry. Entries are identified by their content key, so the
+ * same word looked up on two devices is one entry. Deletions are kept as tombstones,
+ * so an older copy of the entry can't bring it back.
+ */
+export interface SyncOp extends SyncVersion {
+  key: string;
+  deleted: boolean;
+  item?: HistoryItem; // Set unless deleted; never carries a device-local image ID
+}
+
+// An op as stored by the server; `seq` orders the server's log for incremental pulls
+export interface StoredSyncOp extends SyncOp {
+  seq: number;
+}
+
+export interface PushResponse {
+  accepted: number; // Ops that were newer than what the server had
+  cursor: number;
+}
+
+export interface PullResponse {
+  ops: StoredSyncOp[];
+  cursor: number; // Pass back as `since` to continue
+  more: boolean;
+}
+
+export const compareVersions = (a: SyncVersion, b: SyncVersion): number =>
+  a.timestamp - b.timestamp || (a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0);
+
+/**
+ * Validates an op received over the wire. Throws a ResponseValidationError when it is
+ * malformed, or when its entry doesn't match its key, and a SafetyBlockedError when its
+ * entry carries markup that isn't allowed.
+ */
+export const parseSyncOp = (raw: unknown): SyncOp => {
+  if (!isRecord(raw)) throw new ResponseValidationError("Sync op must be an object");
+  const op = raw;
+  if (typeof op.key !== 'string' || !op.key) throw new ResponseValidationError("Sync op has no key");
+  if (typeof op.timestamp !== 'number' || !Number.isFinite(op.timestamp)) throw new ResponseValidationError("Sync op has no timestamp");
+  if (typeof op.deviceId !== 'string' || !op.deviceId) throw new ResponseValidationError("Sync op has no device ID");
+
+  const version = { key: op.key, timestamp: op.timestamp, deviceId: op.deviceId };
+  if (op.deleted === true) return { ...version, deleted: true };
+
+  const { imageId: _, ...item } = validateHistoryItem(op.item);
+  if (contentKey(item) !== op.key) throw new ResponseValidationError("Sync op key doesn't match its entry");
+  return { ...version, deleted: false, item };
+};
@@ -0,0 +1,27 @@
+import { HistoryItem, WordData } from '../types';
+
+// Builders shared by the service tests
+
+/**
+ * A word entry with English and Chinese definitions and nothing else filled in;
+ * `extra` overrides any field.
+ */
+export const wordData = (jp: string, en: string, zh: string, extra: Partial<WordData> = {}): WordData => ({
+  inputWord: jp || en,
+  coreWord: { jp, en, zh },
+  pronunciation: { jp: '', en: '', zh: '' },
+  definitions: { jp: '', jp_furigana: '', en: `definition of ${en}`, zh: `${zh}的定义` },
+  examples: [],
+  etymology: '',
+  related: { synonyms: [], antonyms: [] },
+  ...extra,
+});
+
+export const entry = (data: WordData, timestamp: number, extra: Partial<HistoryItem> = {}): HistoryItem => {
+  const label = data.coreWord.jp || data.coreWord.en;
+  return { id: `${label}-${timestamp}`, timestamp, type: 'word', label, data, ...extra };
+};
+
+// History is newest first, so the first word given is the latest lookup
+export const history = (...words: WordData[]): HistoryItem[] =>
+  words.map((data, i) => entry(data, words.length - i));
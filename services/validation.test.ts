@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SafetyBlockedError } from './errors';
+import { entry, wordData } from './testFixtures';
+import {
+  ResponseValidationError,
+  findDisallowedMarkup,
+  normalizePartialSentenceData,
+  normalizePartialWordData,
+  parseModelJson,
+  validateCollections,
+  validateHistory,
+  validateKanjiData,
+  validateSentenceData,
+  validateWordData,
+} from './validation';
+
+const sentence = (jp_furigana: string) => ({
+  original: '犬が好き',
+  breakdown: [],
+  grammarAnalysis: { jp: '', en: 'grammar', zh: '' },
+  translations: { jp: '犬が好き', jp_furigana, en: 'I like dogs', zh: '我喜欢狗' },
+});
+
+describe('parseModelJson', () => {
+  it('parses JSON with or without markdown fences', () => {
+    expect(parseModelJson('{"a":1}')).toEqual({ a: 1 });
+    expect(parseModelJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(parseModelJson('  ```\n[1]\n```  ')).toEqual([1]);
+  });
+
+  it('throws on empty or invalid text', () => {
+    expect(() => parseModelJson(undefined)).toThrow(/Empty response/);
+    expect(() => parseModelJson('  ')).toThrow(ResponseValidationError);
+    expect(() => parseModelJson('{"a":')).toThrow(/not valid JSON/);
+  });
+});
+
+describe('validateWordData', () => {
+  it('fills defaults for missing optional sections', () => {
+    const data = validateWordData({ coreWord: { en: 'dog' }, definitions: { en: 'a pet' } });
+    expect(data).toMatchObject({
+      inputWord: 'dog',
+      coreWord: { jp: '', en: 'dog', zh: '' },
+      examples: [],
+      inflections: [],
+      pitchAccent: [],
+      etymology: '',
+      related: { synonyms: [], antonyms: [] },
+    });
+  });
+
+  it('reports every missing required section', () => {
+    expect(() => validateWordData({})).toThrow('Malformed word entry: coreWord is missing; definitions are missing');
+    expect(() => validateWordData([])).toThrow(/must be an object/);
+  });
+
+  it('repairs examples, inflections and related words', () => {
+    const data = validateWordData({
+      coreWord: { jp: '犬' },
+      definitions: { jp: 'いぬ', zh: 7 },
+      examples: [{ text: '犬がいる' }, { text: 'A dog.', lang: 'en' }, { text: ' ' }, 'junk'],
+      inflections: [{ partOfSpeech: 'noun', forms: [{ label: 'Plural' }] }, { partOfSpeech: 'verb', forms: [{ label: 'Past', value: 'ran' }] }],
+      related: { synonyms: ['わんこ', '', 3], antonyms: 'none' },
+    });
+    expect(data.definitions).toEqual({ jp: 'いぬ', jp_furigana: 'いぬ', en: '', zh: '7' });
+    expect(data.examples).toEqual([
+      { text: '犬がいる', translation: '', lang: 'jp', text_furigana: '犬がいる' },
+      { text: 'A dog.', translation: '', lang: 'en' },
+    ]);
+    expect(data.inflections).toEqual([{ partOfSpeech: 'verb', forms: [{ label: 'Past', value: 'ran' }] }]);
+    expect(data.related).toEqual({ synonyms: ['わんこ'], antonyms: [] });
+  });
+
+  it('reads level labels in their common spellings', () => {
+    const levels = (raw: unknown) => validateWordData({ coreWord: { en: 'dog' }, definitions: { en: 'a pet' }, levels: raw }).levels;
+    expect(levels({ jlpt: 'JLPT N3', hsk: 'HSK 4', cefr: 'b1', frequency: 'Common ' })).toEqual({ jlpt: 'N3', hsk: '4', cefr: 'B1', frequency: 'common' });
+    expect(levels({ jlpt: 'none', hsk: '', cefr: 'D4', frequency: 'often' })).toEqual({ jlpt: '', hsk: '', cefr: '', frequency: '' });
+  });
+
+  it('keeps pitch accents that fit the reading, as hiragana', () => {
+    const data = validateWordData({
+      coreWord: { jp: '橋' },
+      definitions: { en: 'bridge' },
+      pitchAccent: [{ reading: 'ハシ', downstep: 2 }, { reading: 'はし', downstep: '2' }, { reading: 'はし', downstep: 3 }, { reading: '', downstep: 0 }],
+    });
+    expect(data.pitchAccent).toEqual([{ reading: 'はし', downstep: 2 }]);
+  });
+});
+
+describe('validateSentenceData', () => {
+  it('uses the fallback when the model omits the sentence', () => {
+    const data = validateSentenceData({ translations: { en: 'I like dogs' }, breakdown: [{ word: '犬', meaning: 'dog' }, { word: '' }] }, '犬が好き');
+    expect(data.original).toBe('犬が好き');
+    expect(data.breakdown).toEqual([{ word: '犬', partOfSpeech: '', meaning: 'dog' }]);
+    expect(data.translations.jp_furigana).toBe('');
+  });
+
+  it('rejects an analysis without a sentence or translations', () => {
+    expect(() => validateSentenceData({ translations: {} })).toThrow('Malformed sentence analysis: original sentence is missing; translations are missing');
+  });
+});
+
+describe('validateKanjiData', () => {
+  it('normalizes stroke counts and grade-only JLPT levels', () => {
+    const data = validateKanjiData({ onyomi: ['ショク'], strokeCount: '9', jlpt: '5', compounds: [{ word: '食事' }, {}] }, '食');
+    expect(data).toMatchObject({ character: '食', strokeCount: 9, jlpt: 'N5', compounds: [{ word: '食事', reading: '', meaning: '' }] });
+    expect(validateKanjiData({ character: '食', meanings: { en: 'eat' }, strokeCount: -1 }).strokeCount).toBe(0);
+  });
+
+  it('rejects an entry without readings or meanings', () => {
+    expect(() => validateKanjiData({ character: '食' })).toThrow(/readings and meanings are missing/);
+  });
+});
+
+describe('validateHistory', () => {
+  it('drops broken items and keeps the rest', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const dog = entry(wordData('犬', 'dog', '狗'), 1);
+    const items = validateHistory([dog, { type: 'word', data: {} }, { type: 'video', data: dog.data }, null]);
+    expect(items.map(item => item.id)).toEqual([dog.id]);
+    expect(validateHistory({ items: [dog] })).toEqual([]);
+  });
+
+  it('fills in IDs and labels, and tidies tags', () => {
+    const [item] = validateHistory([{ type: 'word', timestamp: 5, data: wordData('犬', 'dog', '狗'), tags: [' N5 ', 'n5', '', 'Pets'], pinned: 'yes' }]);
+    expect(item).toMatchObject({ id: '5-0', label: '犬', tags: ['n5', 'pets'] });
+    expect(item).not.toHaveProperty('pinned');
+  });
+});
+
+describe('validateCollections', () => {
+  it('drops unnamed lists and the kanji entries of the rest', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const dog = entry(wordData('犬', 'dog', '狗'), 1);
+    const kanji = { id: 'k', timestamp: 2, type: 'kanji', label: '食', data: { character: '食', onyomi: ['ショク'] } };
+    const collections = validateCollections([{ id: 'l1', name: ' Animals ', createdAt: 1, items: [dog, kanji] }, { name: ' ' }]);
+    expect(collections).toMatchObject([{ id: 'l1', name: 'Animals', createdAt: 1 }]);
+    expect(collections[0].items.map(item => item.id)).toEqual([dog.id]);
+  });
+});
+
+describe('findDisallowedMarkup', () => {
+  it('accepts plain text and bare ruby, rt and rp tags', () => {
+    expect(findDisallowedMarkup('日本語')).toBeNull();
+    expect(findDisallowedMarkup('<ruby>日本<rp>(</rp><rt>にほん</rt><rp>)</rp></ruby>語')).toBeNull();
+    expect(findDisallowedMarkup('<RUBY>日<RT>に</RT></RUBY>')).toBeNull();
+  });
+
+  it('returns the first tag that is not ruby markup', () => {
+    expect(findDisallowedMarkup('<ruby>日<rt>に</rt></ruby><script>alert(1)</script>')).toBe('<script>');
+    expect(findDisallowedMarkup('<img src=x onerror=alert(1)>')).toBe('<img src=x onerror=alert(1)>');
+    expect(findDisallowedMarkup('a</b>')).toBe('</b>');
+  });
+
+  it('refuses attributes on allowed tags', () => {
+    expect(findDisallowedMarkup('<ruby onclick="x">日<rt>に</rt></ruby>')).toBe('<ruby onclick="x">');
+  });
+
+  it('refuses comments, processing instructions and doctypes', () => {
+    expect(findDisallowedMarkup('<!-- note -->')).toBe('<!-- note -->');
+    expect(findDisallowedMarkup('<?xml version="1.0"?>')).toBe('<?xml version="1.0"?>');
+    expect(findDisallowedMarkup('<!DOCTYPE html>')).toBe('<!DOCTYPE html>');
+  });
+
+  it('catches a tag cut off at the end of a chunk', () => {
+    expect(findDisallowedMarkup('日本<scr')).toBe('<scr');
+  });
+
+  it("ignores a '<' that doesn't open a tag", () => {
+    expect(findDisallowedMarkup('1 < 2 and 3 <4')).toBeNull();
+  });
+});
+
+describe('markup in model answers', () => {
+  it('refuses a word entry with markup in its furigana', () => {
+    const data = wordData('犬', 'dog', '狗', { definitions: { jp: '犬', jp_furigana: '<a href="https://example.com">犬</a>', en: 'dog', zh: '狗' } });
+    expect(() => validateWordData(data)).toThrow(SafetyBlockedError);
+  });
+
+  it('refuses markup in Japanese example sentences', () => {
+    const data = wordData('犬', 'dog', '狗', { examples: [{ text: '犬', text_furigana: '<iframe src=x></iframe>', translation: 'dog', lang: 'jp' }] });
+    expect(() => validateWordData(data)).toThrow(SafetyBlockedError);
+  });
+
+  it('refuses a sentence analysis with markup in its translation', () => {
+    expect(() => validateSentenceData(sentence('<style>body{}</style>犬が好き'))).toThrow(SafetyBlockedError);
+    expect(validateSentenceData(sentence('<ruby>犬<rt>いぬ</rt></ruby>が好き')).translations.jp_furigana).toBe('<ruby>犬<rt>いぬ</rt></ruby>が好き');
+  });
+
+  it('strips markup from partial results instead of refusing them', () => {
+    const word = normalizePartialWordData(wordData('犬', 'dog', '狗', { definitions: { jp: '', jp_furigana: '<ruby>犬<rt>いぬ</rt></ruby><b onclick=x>です</b><scr', en: '', zh: '' } }));
+    expect(word?.definitions.jp_furigana).toBe('<ruby>犬<rt>いぬ</rt></ruby>です');
+    expect(normalizePartialSentenceData(sentence('<img src=x>犬が好き'))?.translations.jp_furigana).toBe('犬が好き');
+  });
+});
@@ -0,0 +1,425 @@
+import {
+  WordData,
+  SentenceData,
+  HistoryItem,
+  Collection,
+  ExampleSentence,
+  InflectionGroup,
+  WordBreakdown,
+  KanjiData,
+  KanjiCompound,
+  WordLevels,
+  FrequencyBand,
+  PitchAccent,
+} from "../types";
+import { MalformedResponseError, SafetyBlockedError } from "./errors";
+import { katakanaToHiragana } from "./kana";
+import { morae } from "./pitch";
+
+/**
+ * Thrown when a payload (model response, proxy response or stored history)
+ * is too broken to repair into the shapes declared in types.ts.
+ */
+export class ResponseValidationError extends MalformedResponseError {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+/**
+ * Narrows parsed JSON (a response, stored state or an imported file) to a plain object.
+ */
+export const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Keeps the entries of a keyed table (stored study state or an imported file) that
+ * pass `check`, noting why each of the others was left out in `rejected`.
+ */
+export const validTable = <T>(raw: unknown, name: string, check: (value: Json) => boolean, rejected: string[]): Record<string, T> => {
+  if (raw === undefined) return {};
+  if (!isRecord(raw)) {
+    rejected.push(`${name} is not a table`);
+    return {};
+  }
+  const table: Record<string, T> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (isRecord(value) && check(value)) table[key] = value as T;
+    else rejected.push(`${name} "${key}" is malformed`);
+  }
+  return table;
+};
+
+const str = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : fallback;
+
+const obj = (value: unknown): Json => (isRecord(value) ? value : {});
+
+const arr = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const strings = (value: unknown): string[] =>
+  arr(value).filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+
+const trilingual = (value: unknown) => {
+  const source = obj(value);
+  return { jp: str(source.jp), en: str(source.en), zh: str(source.zh) };
+};
+
+const hasAny = (value: { jp: string; en: string; zh: string }) => Boolean(value.jp || value.en || value.zh);
+
+// Kana or CJK ideographs -> treat as Japanese when the model forgot the `lang` field
+const looksJapanese = (text: string) => /[\u3040-\u30ff\u4e00-\u9fff]/.test(text);
+
+// Furigana fields may only contain the markup services/ruby.ts understands
+const ALLOWED_TAGS = new Set(['ruby', 'rt', 'rp']);
+// Also matches a tag that is cut off at the end of a streaming chunk
+const TAG_PATTERN = /<(?:[!?]|\/?([a-zA-Z][\w:-]*))([^>]*)(?:>|$)/g;
+
+const isAllowedTag = (match: RegExpMatchArray) =>
+  Boolean(match[1]) && ALLOWED_TAGS.has(match[1].toLowerCase()) && !match[2].trim();
+
+/**
+ * Returns the first tag in `text` that isn't a bare <ruby>/<rt>/<rp> (attributes are
+ * not allowed either), or null when the markup is safe to render.
+ */
+export const findDisallowedMarkup = (text: string): string | null => {
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    if (!isAllowedTag(match)) return match[0];
+  }
+  return null;
+};
+
+// Partial results are shown before they can be refused, so unsafe tags are removed instead
+const stripDisallowedMarkup = (text: string): string =>
+  text.replace(TAG_PATTERN, (tag, name, rest) => (name && ALLOWED_TAGS.has(name.toLowerCase()) && !rest.trim() && tag.endsWith('>') ? tag : ''));
+
+const htmlFields = (data: WordData | SentenceData): string[] =>
+  'coreWord' in data
+    ? [data.definitions.jp_furigana, ...data.examples.map(ex => ex.text_furigana ?? '')]
+    : [typeof data.grammarAnalysis === 'string' ? '' : data.grammarAnalysis.jp, data.translations.jp_furigana];
+
+/**
+ * Markup outside furigana usually means the model followed instructions hidden
+ * in the input, so such answers are refused rather than cleaned up.
+ */
+const assertSafeMarkup = (data: WordData | SentenceData) => {
+  for (const field of htmlFields(data)) {
+    const tag = findDisallowedMarkup(field);
+    if (tag) throw new SafetyBlockedError(`The answer contained markup that isn't allowed (${tag.slice(0, 40)}) and was refused.`);
+  }
+};
+
+/**
+ * Strips markdown fences some models wrap around JSON and parses the result.
+ */
+export const parseModelJson = (text: string | undefined): unknown => {
+  if (!text || !text.trim()) throw new ResponseValidationError("Empty response from model");
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    throw new ResponseValidationError("Response is not valid JSON");
+  }
+};
+
+const normalizeExample = (value: unknown): ExampleSentence | null => {
+  const source = obj(value);
+  const text = str(source.text).trim();
+  if (!text) return null;
+
+  const lang = source.lang === 'jp' || source.lang === 'en' ? source.lang : looksJapanese(text) ? 'jp' : 'en';
+  const example: ExampleSentence = { text, translation: str(source.translation), lang };
+  if (lang === 'jp') example.text_furigana = str(source.text_furigana) || text;
+  return example;
+};
+
+const normalizeInflections = (value: unknown): InflectionGroup[] =>
+  arr(value)
+    .map(group => {
+      const source = obj(group);
+      const forms = arr(source.forms)
+        .map(form => ({ label: str(obj(form).label), value: str(obj(form).value) }))
+        .filter(form => form.label && form.value);
+      return { partOfSpeech: str(source.partOfSpeech), forms };
+    })
+    .filter(group => group.forms.length > 0);
+
+const FREQUENCY_BANDS: FrequencyBand[] = ['very common', 'common', 'uncommon', 'rare'];
+
+// Level labels come back in many spellings ("JLPT N3", "n3", "HSK 4", "b1"); anything unrecognized is dropped
+const normalizeLevels = (value: unknown): WordLevels => {
+  const source = obj(value);
+  const jlpt = str(source.jlpt).toUpperCase().match(/N?([1-5])/);
+  const hsk = str(source.hsk).match(/([1-9])/);
+  const cefr = str(source.cefr).toUpperCase().match(/([ABC][12])/);
+  const frequency = str(source.frequency).toLowerCase().trim() as FrequencyBand;
+  return {
+    jlpt: jlpt ? `N${jlpt[1]}` : '',
+    hsk: hsk ? hsk[1] : '',
+    cefr: cefr ? cefr[1] : '',
+    frequency: FREQUENCY_BANDS.includes(frequency) ? frequency : '',
+  };
+};
+
+// Readings are kept as hiragana; a downstep past the last mora can't be drawn and is dropped
+const normalizePitchAccent = (value: unknown): PitchAccent[] => {
+  const accents: PitchAccent[] = [];
+  for (const item of arr(value)) {
+    const source = obj(item);
+    const reading = katakanaToHiragana(str(source.reading)).replace(/[^ぁ-ゖー]/g, '');
+    const downstep = Number(source.downstep);
+    if (!reading || !Number.isInteger(downstep) || downstep < 0 || downstep > morae(reading).length) continue;
+    if (!accents.some(a => a.reading === reading && a.downstep === downstep)) accents.push({ reading, downstep });
+  }
+  return accents;
+};
+
+const buildWordData = (raw: Json): WordData => {
+  const coreWord = trilingual(raw.coreWord);
+  const definitionsSource = obj(raw.definitions);
+  const definitions = {
+    ...trilingual(definitionsSource),
+    jp_furigana: str(definitionsSource.jp_furigana) || str(definitionsSource.jp),
+  };
+  const related = obj(raw.related);
+
+  return {
+    inputWord: str(raw.inputWord) || coreWord.jp || coreWord.en || coreWord.zh,
+    coreWord,
+    pronunciation: trilingual(raw.pronunciation),
+    definitions,
+    examples: arr(raw.examples).map(normalizeExample).filter((ex): ex is ExampleSentence => ex !== null),
+    inflections: normalizeInflections(raw.inflections),
+    pitchAccent: normalizePitchAccent(raw.pitchAccent),
+    levels: normalizeLevels(raw.levels),
+    etymology: str(raw.etymology),
+    related: {
+      synonyms: strings(related.synonyms),
+      antonyms: strings(related.antonyms),
+    },
+  };
+};
+
+/**
+ * Checks a word entry against WordData, filling defaults for anything optional.
+ * Rejects entries without a headword or without any definition, since WordCard
+ * has nothing meaningful to show for those.
+ */
+export const validateWordData = (raw: unknown): WordData => {
+  if (!isRecord(raw)) throw new ResponseValidationError("Word entry must be an object");
+
+  const data = buildWordData(raw);
+  const issues: string[] = [];
+  if (!hasAny(data.coreWord)) issues.push("coreWord is missing");
+  if (!hasAny(data.definitions)) issues.push("definitions are missing");
+  if (issues.length) throw new ResponseValidationError("Malformed word entry", issues);
+  assertSafeMarkup(data);
+  return data;
+};
+
+/**
+ * Lenient variant for entries that are still streaming in: never throws,
+ * missing sections simply come back empty.
+ */
+export const normalizePartialWordData = (raw: unknown): WordData | null => {
+  if (!isRecord(raw)) return null;
+  const data = buildWordData(raw);
+  data.definitions.jp_furigana = stripDisallowedMarkup(data.definitions.jp_furigana);
+  data.examples.forEach(ex => {
+    if (ex.text_furigana) ex.text_furigana = stripDisallowedMarkup(ex.text_furigana);
+  });
+  return data;
+};
+
+const normalizeBreakdown = (value: unknown): WordBreakdown | null => {
+  const source = obj(value);
+  const word = str(source.word).trim();
+  if (!word) return null;
+
+  const item: WordBreakdown = {
+    word,
+    partOfSpeech: str(source.partOfSpeech),
+    // Older history items store a plain string meaning
+    meaning: typeof source.meaning === 'string' ? source.meaning : trilingual(source.meaning),
+  };
+  const reading = str(source.reading);
+  if (reading) item.reading = reading;
+  return item;
+};
+
+const buildSentenceData = (raw: Json, fallbackOriginal: string): SentenceData => {
+  const translationsSource = obj(raw.translations);
+  return {
+    original: str(raw.original) || fallbackOriginal,
+    breakdown: arr(raw.breakdown).map(normalizeBreakdown).filter((item): item is WordBreakdown => item !== null),
+    grammarAnalysis: typeof raw.grammarAnalysis === 'string' ? raw.grammarAnalysis : trilingual(raw.grammarAnalysis),
+    translations: {
+      ...trilingual(translationsSource),
+      jp_furigana: str(translationsSource.jp_furigana) || str(translationsSource.jp),
+    },
+  };
+};
+
+/**
+ * Checks a sentence analysis against SentenceData. `fallbackOriginal` is used
+ * when the model omits the echoed sentence.
+ */
+export const validateSentenceData = (raw: unknown, fallbackOriginal = ''): SentenceData => {
+  if (!isRecord(raw)) throw new ResponseValidationError("Sentence analysis must be an object");
+
+  const data = buildSentenceData(raw, fallbackOriginal);
+  const issues: string[] = [];
+  if (!data.original) issues.push("original sentence is missing");
+  if (!hasAny(data.translations)) issues.push("translations are missing");
+  if (issues.length) throw new ResponseValidationError("Malformed sentence analysis", issues);
+  assertSafeMarkup(data);
+  return data;
+};
+
+export const normalizePartialSentenceData = (raw: unknown, fallbackOriginal = ''): SentenceData | null => {
+  if (!isRecord(raw)) return null;
+  const data = buildSentenceData(raw, fallbackOriginal);
+  if (typeof data.grammarAnalysis !== 'string') data.grammarAnalysis.jp = stripDisallowedMarkup(data.grammarAnalysis.jp);
+  data.translations.jp_furigana = stripDisallowedMarkup(data.translations.jp_furigana);
+  return data;
+};
+
+const normalizeCompound = (value: unknown): KanjiCompound | null => {
+  const source = obj(value);
+  const word = str(source.word).trim();
+  if (!word) return null;
+  return { word, reading: str(source.reading), meaning: str(source.meaning) };
+};
+
+const buildKanjiData = (raw: Json, fallbackCharacter: string): KanjiData => {
+  const radical = obj(raw.radical);
+  const chinese = obj(raw.chinese);
+  const strokeCount = Number(raw.strokeCount);
+  return {
+    character: str(raw.character).trim() || fallbackCharacter,
+    meanings: trilingual(raw.meanings),
+    onyomi: strings(raw.onyomi),
+    kunyomi: strings(raw.kunyomi),
+    radical: { character: str(radical.character), meaning: str(radical.meaning) },
+    components: strings(raw.components),
+    strokeCount: Number.isInteger(strokeCount) && strokeCount > 0 ? strokeCount : 0,
+    jlpt: str(raw.jlpt).toUpperCase().replace(/^(\d)$/, 'N$1'),
+    grade: str(raw.grade),
+    chinese: { simplified: str(chinese.simplified), traditional: str(chinese.traditional), pinyin: str(chinese.pinyin) },
+    compounds: arr(raw.compounds).map(normalizeCompound).filter((item): item is KanjiCompound => item !== null),
+  };
+};
+
+/**
+ * Checks a kanji analysis against KanjiData. An entry needs the character and at
+ * least one reading or meaning to be worth showing.
+ */
+export const validateKanjiData = (raw: unknown, fallbackCharacter = ''): KanjiData => {
+  if (!isRecord(raw)) throw new ResponseValidationError("Kanji entry must be an object");
+
+  const data = buildKanjiData(raw, fallbackCharacter);
+  const issues: string[] = [];
+  if (!data.character) issues.push("character is missing");
+  if (!data.onyomi.length && !data.kunyomi.length && !hasAny(data.meanings)) issues.push("readings and meanings are missing");
+  if (issues.length) throw new ResponseValidationError("Malformed kanji entry", issues);
+  return data;
+};
+
+export const normalizePartialKanjiData = (raw: unknown, fallbackCharacter = ''): KanjiData | null =>
+  isRecord(raw) ? buildKanjiData(raw, fallbackCharacter) : null;
+
+const HISTORY_TYPES: HistoryItem['type'][] = ['word', 'sentence', 'kanji'];
+
+/**
+ * Validates one stored history entry. Throws a ResponseValidationError when it can't be used.
+ */
+export const validateHistoryItem = (entry: unknown, index = 0): HistoryItem => {
+  if (!isRecord(entry)) throw new ResponseValidationError("History item must be an object");
+  const type = HISTORY_TYPES.find(t => t === entry.type);
+  if (!type) throw new ResponseValidationError(`Unknown history item type "${String(entry.type)}"`);
+
+  const data = type === 'word' ? validateWordData(entry.data)
+    : type === 'kanji' ? validateKanjiData(entry.data)
+    : validateSentenceData(entry.data);
+  const timestamp = typeof entry.timestamp === 'number' ? entry.timestamp : Date.now();
+  const item: HistoryItem = {
+    id: str(entry.id) || `${timestamp}-${index}`,
+    timestamp,
+    type,
+    label: str(entry.label) || (type === 'word' ? (data as WordData).coreWord.jp
+      : type === 'kanji' ? (data as KanjiData).character
+      : (data as SentenceData).original),
+    data,
+  };
+  if (typeof entry.imageUrl === 'string') item.imageUrl = entry.imageUrl;
+  if (typeof entry.imageId === 'string') item.imageId = entry.imageId;
+  if (entry.pinned === true) item.pinned = true;
+  const tags = strings(entry.tags).map(tag => tag.trim().toLowerCase());
+  if (tags.length) item.tags = [...new Set(tags)];
+  return item;
+};
+
+/**
+ * Validates stored history. Broken items are dropped
+ * (with a warning) rather than failing the whole list.
+ */
+export const validateHistory = (raw: unknown): HistoryItem[] => {
+  if (!Array.isArray(raw)) {
+    console.warn("Stored history is not a list, ignoring it");
+    return [];
+  }
+
+  const items: HistoryItem[] = [];
+  raw.forEach((entry, index) => {
+    try {
+      items.push(validateHistoryItem(entry, index));
+    } catch (e) {
+      console.warn(`Dropping invalid history item #${index}:`, e);
+    }
+  });
+  return items;
+};
+
+/**
+ * Validates one stored collection. Broken entries within it are dropped the same way
+ * history entries are; a collection without a name throws.
+ */
+export const validateCollection = (entry: unknown, index = 0): Collection => {
+  if (!isRecord(entry)) throw new ResponseValidationError("Collection must be an object");
+  const name = str(entry.name).trim();
+  if (!name) throw new ResponseValidationError("Collection has no name");
+  const createdAt = typeof entry.createdAt === 'number' ? entry.createdAt : Date.now();
+  return {
+    id: str(entry.id) || `${createdAt}-${index}`,
+    name,
+    createdAt,
+    // Kanji entries can't be studied as a list
+    items: validateHistory(arr(entry.items)).filter(item => item.type !== 'kanji'),
+  };
+};
+
+/**
+ * Validates stored collections, dropping broken ones with a warning.
+ */
+export const validateCollections = (raw: unknown): Collection[] => {
+  if (!Array.isArray(raw)) {
+    console.warn("Stored collections are not a list, ignoring them");
+    return [];
+  }
+
+  const collections: Collection[] = [];
+  raw.forEach((entry, index) => {
+    try {
+      collections.push(validateCollection(entry, index));
+    } catch (e) {
+      console.warn(`Dropping invalid collection #${index}:`, e);
+    }
+  });
+  return collections;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const bytesOf = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+const text = (view: DataView, start: number, length: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, start, length));
+
+describe('createZip', () => {
+  it('writes a stored entry with the CRC-32 and sizes of its data', async () => {
+    const view = await bytesOf(await createZip([{ path: 'check.txt', data: '123456789' }]));
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800); // UTF-8 names
+    expect(view.getUint16(8, true)).toBe(0); // Stored
+    expect(view.getUint32(14, true)).toBe(0xcbf43926); // The CRC-32 check value
+    expect(view.getUint32(18, true)).toBe(9);
+    expect(view.getUint32(22, true)).toBe(9);
+    expect(view.getUint16(26, true)).toBe(9);
+    expect(text(view, 30, 9)).toBe('check.txt');
+    expect(text(view, 39, 9)).toBe('123456789');
+  });
+
+  it('gives an empty entry a zero CRC', async () => {
+    const view = await bytesOf(await createZip([{ path: 'empty', data: '' }]));
+    expect(view.getUint32(14, true)).toBe(0);
+  });
+
+  it('points the central directory at each local header', async () => {
+    const image = new Blob([new Uint8Array([1, 2, 3, 4])]);
+    const view = await bytesOf(await createZip([
+      { path: 'notes.txt', data: 'abc' },
+      { path: 'media/画像.webp', data: image },
+    ]));
+    const name = new TextEncoder().encode('media/画像.webp').length;
+
+    const end = view.byteLength - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 8, true)).toBe(2);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralStart = view.getUint32(end + 16, true);
+    expect(centralStart).toBe(30 + 9 + 3 + 30 + name + 4);
+    expect(view.getUint32(end + 12, true)).toBe(end - centralStart);
+
+    // The second record describes the image and points at its local header
+    const second = centralStart + 46 + 9;
+    expect(view.getUint32(second, true)).toBe(0x02014b50);
+    expect(view.getUint32(second + 20, true)).toBe(4);
+    expect(text(view, second + 46, name)).toBe('media/画像.webp');
+    const local = view.getUint32(second + 42, true);
+    expect(local).toBe(30 + 9 + 3);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint32(local + 14, true)).toBe(view.getUint32(second + 16, true));
+    expect([...new Uint8Array(view.buffer, local + 30 + name, 4)]).toEqual([1, 2, 3, 4]);
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const view = await bytesOf(await createZip([]));
+    expect(view.byteLength).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+  });
+});
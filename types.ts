@@ -16,6 +16,20 @@ export interface InflectionGroup {
   forms: InflectionForm[];
 }
 
+export type FrequencyBand = 'very common' | 'common' | 'uncommon' | 'rare' | '';
+
+export interface WordLevels {
+  jlpt: string; // "N5".."N1"
+  hsk: string; // "1".."9"
+  cefr: string; // "A1".."C2"
+  frequency: FrequencyBand;
+}
+
+export interface PitchAccent {
+  reading: string; // Hiragana
+  downstep: number; // Mora after which the pitch falls; 0 = heiban (no fall)
+}
+
 export interface WordData {
   inputWord: string;
   coreWord: {
@@ -36,6 +50,8 @@ export interface WordData {
   };
   examples: ExampleSentence[];
   inflections?: InflectionGroup[]; // New: List of conjugations/variations
+  pitchAccent?: PitchAccent[]; // Tokyo accent of the Japanese word; services/pitch.ts prefers the bundled dictionary
+  levels?: WordLevels; // As estimated by the model; services/levels.ts prefers the bundled lists
   etymology: string; // Origin and composition
   related: {
     synonyms: string[];
@@ -70,13 +86,58 @@ export interface SentenceData {
   };
 }
 
+export interface KanjiCompound {
+  word: string;
+  reading: string;
+  meaning: string; // English gloss
+}
+
+export interface KanjiData {
+  character: string;
+  meanings: {
+    jp: string;
+    en: string;
+    zh: string;
+  };
+  onyomi: string[]; // Katakana
+  kunyomi: string[]; // Hiragana, okurigana after a dot (e.g. "た.べる")
+  radical: {
+    character: string;
+    meaning: string;
+  };
+  components: string[];
+  strokeCount: number; // 0 when unknown
+  jlpt: string; // "N5".."N1", empty when not in the JLPT lists
+  grade: string; // Jōyō school grade ("1".."6", "Secondary"), empty for non-Jōyō kanji
+  chinese: {
+    simplified: string;
+    traditional: string;
+    pinyin: string;
+  };
+  compounds: KanjiCompound[];
+}
+
 export interface HistoryItem {
   id: string;
   timestamp: number;
-  type: 'word' | 'sentence';
-  label: string; // The word or truncated sentence
-  data: WordData | SentenceData; // Union type
-  imageUrl?: string;
+  type: 'word' | 'sentence' | 'kanji';
+  label: string; // The word, kanji or truncated sentence
+  data: WordData | SentenceData | KanjiData; // Union type
+  imageUrl?: string; // Web image URL; generated images live in the image store instead
+  imageId?: string; // Key of the generated image in services/imageStore.ts
+  pinned?: boolean; // Pinned entries are listed first in the sidebar
+  tags?: string[]; // User tags, lowercase
+}
+
+/**
+ * A named word list, e.g. the vocabulary of one lesson. Entries are snapshots of
+ * word and sentence results, so a list outlives the history entries it was built from.
+ */
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+  items: HistoryItem[]; // Oldest first, in the order they were added
 }
 
 export enum LoadingState {
@@ -87,4 +148,4 @@ export enum LoadingState {
   ERROR
 }
 
-export type AppMode = 'dictionary' | 'sentence';
+export type AppMode = 'dictionary' | 'sentence' | 'document' | 'kanji' | 'lists' | 'review' | 'quiz' | 'drill';
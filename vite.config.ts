@@ -6,13 +6,27 @@ export default defineConfig(({ mode }) => {
   // Load env file based on `mode` in the current working directory.
   // Set the third parameter to '' to load all env regardless of the `VITE_` prefix.
   const env = loadEnv(mode, (process as any).cwd(), '');
+  // In proxy mode the key stays on the server (server/index.ts) and is never inlined into the bundle
+  const isProxyMode = env.GEMINI_MODE === 'proxy';
   return {
     plugins: [react()],
     define: {
       // This ensures process.env.API_KEY is available in the browser code
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      'process.env.API_KEY': JSON.stringify(isProxyMode ? undefined : env.API_KEY),
       // Selects the lexicon backend at startup: "gemini" (default) or "fixture" (offline recordings)
-      'process.env.LEXICON_PROVIDER': JSON.stringify(env.LEXICON_PROVIDER)
+      'process.env.LEXICON_PROVIDER': JSON.stringify(env.LEXICON_PROVIDER),
+      'process.env.GEMINI_MODE': JSON.stringify(env.GEMINI_MODE),
+      'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL),
+      // Default sync server offered in the sync settings (server/syncServer.ts)
+      'process.env.SYNC_URL': JSON.stringify(env.SYNC_URL)
+    },
+    server: {
+      // Forward API calls to the local backend started with `npm run server`
+      proxy: {
+        '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        // ...and sync calls to `npm run sync-server`
+        '/sync': `http://localhost:${env.SYNC_PORT || 8788}`
+      }
     }
   }
-})
\ No newline at end of file
+})